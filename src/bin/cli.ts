@@ -5,8 +5,16 @@ import { Command } from "commander";
 import chalk from "chalk";
 import { HumanMessage, AIMessage, ToolMessage } from "@langchain/core/messages";
 import * as readline from "readline";
+import * as fs from "fs";
+import * as path from "path";
 import { AgentFactory } from "../core/agent/factory";
 import { GraphAgentFactory } from "../core/agent/graph-factory";
+import { IndexCoordinator } from "../core/rag/index-coordinator";
+import { IndexWatcher, IndexWatchEvent } from "../core/rag/index-watcher";
+import { DEFAULT_SNAPSHOT_FILE, SnapshotService } from "../core/rag/index-snapshot";
+import { formatIndexStatus } from "../core/tools/rag-tools";
+import { RetrieverService, SearchMode } from "../core/rag/retriever";
+import { RetrievalEvaluator, loadGoldenSuite } from "../core/rag/evaluation";
 
 const program = new Command();
 
@@ -35,6 +43,19 @@ const askConfirmation = (query: string): Promise<boolean> => {
   });
 };
 
+/**
+ * One status line per re-indexed batch of the watch mode.
+ */
+const formatWatchEvent = (event: IndexWatchEvent): string => {
+  const time = chalk.gray(new Date().toLocaleTimeString());
+  const files = event.paths.length === 1 ? event.paths[0] : `${event.paths[0]} +${event.paths.length - 1} more`;
+  if (event.error || !event.result) {
+    return `${time} ${chalk.red("✖")} ${files}: ${event.error}`;
+  }
+  const { indexed, removed } = event.result;
+  return `${time} ${chalk.green("✔")} ${indexed} re-indexed, ${removed} removed ${chalk.gray(`(${files}, ${event.durationMs} ms)`)}`;
+};
+
 program
   .name("gen")
   .description("Autonomous Engineering Agent for NestJS (Classic)")
@@ -189,4 +210,149 @@ program
     }
   });
 
+program
+  .command("index")
+  .description("Indexes the project (changed files only), waiting for any indexing run in progress")
+  .option("-s, --status", "Only show the indexing status (run in progress, queued files, last run)")
+  .action(async (options) => {
+    try {
+      const coordinator = IndexCoordinator.getInstance();
+      if (!options.status) {
+        const { indexed, removed } = await coordinator.indexAll();
+        log.sys(`Index updated: ${indexed} files re-indexed, ${removed} removed.`);
+      }
+      console.log(formatIndexStatus(coordinator.getStatus()));
+    } catch (error: any) {
+      log.error(error?.message || "Unknown error");
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command("watch")
+  .description("Keeps the index live: re-indexes files as they are edited, added, renamed or deleted (Ctrl+C to stop)")
+  .option("-v, --verbose", "Show the indexer logs instead of one status line per batch")
+  .action(async (options) => {
+    try {
+      log.sys("Catching up with the changes made since the last run...");
+      const coordinator = IndexCoordinator.getInstance();
+      await coordinator.indexAll();
+      coordinator.setVerbose(!!options.verbose);
+
+      // The \r overwrites the progress dots printed while embedding (--verbose)
+      const watcher = new IndexWatcher((event) => console.log(`\r\x1b[K${formatWatchEvent(event)}`));
+      const roots = watcher.start();
+      if (roots.length === 0) {
+        log.error("None of the index roots exists: nothing to watch.");
+        process.exitCode = 1;
+        return;
+      }
+      log.sys(`👀 Watching ${roots.join(", ")} for changes...`);
+
+      process.once("SIGINT", async () => {
+        watcher.stop();
+        await watcher.settle(); // Finish the batch in progress: never leave the index half-written
+        console.log(chalk.gray("\nWatch stopped."));
+        process.exit(0);
+      });
+    } catch (error: any) {
+      log.error(error?.message || "Unknown error");
+      process.exitCode = 1;
+    }
+  });
+
+const snapshot = program
+  .command("snapshot")
+  .description("Shares the index: export it once (e.g. in CI), import it instead of re-embedding the project");
+
+snapshot
+  .command("export")
+  .description("Writes the index (files, graph, chunks and vectors) to a portable snapshot")
+  .argument("[file]", "Snapshot path", path.join(".agent", DEFAULT_SNAPSHOT_FILE))
+  .action(async (file: string) => {
+    try {
+      const summary = new SnapshotService().exportTo(file);
+      log.sys(
+        `Snapshot written to ${summary.filePath}: ${summary.files} files, ${summary.chunks} chunks ` +
+          `(${summary.embedding.model}, ${summary.embedding.dimensions} dims, commit ${summary.gitCommit?.slice(0, 10) ?? "n/a"}).`,
+      );
+    } catch (error: any) {
+      log.error(error?.message || "Unknown error");
+      process.exitCode = 1;
+    }
+  });
+
+snapshot
+  .command("import")
+  .description("Replaces the local index with a snapshot, then re-indexes only the files that differ from it")
+  .argument("[file]", "Snapshot path", path.join(".agent", DEFAULT_SNAPSHOT_FILE))
+  .option("-f, --force", "Import even if the snapshot was embedded with another model (re-embeds every chunk)")
+  .option("--no-index", "Skip the catch-up indexing run after the import")
+  .action(async (file: string, options) => {
+    try {
+      const summary = await new SnapshotService().importFrom(file, { force: options.force });
+      log.sys(`Snapshot imported: ${summary.files} files, ${summary.chunks} chunks (commit ${summary.gitCommit?.slice(0, 10) ?? "n/a"}).`);
+      if (options.index) {
+        const { indexed, removed } = await IndexCoordinator.getInstance().indexAll();
+        log.sys(`Caught up with the working tree: ${indexed} files re-indexed, ${removed} removed.`);
+      }
+    } catch (error: any) {
+      log.error(error?.message || "Unknown error");
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command("eval")
+  .description("Measures retrieval quality (recall@k, MRR) against a file of golden queries and prints a JSON report")
+  .argument("<goldenFile>", "JSON file of golden queries ({ k?, mode?, queries: [{ query, expected }] })")
+  .option("-k, --k <number>", "Number of results scored per query (overrides the file)")
+  .option("-m, --mode <mode>", "Retrieval mode: semantic | lexical | hybrid (overrides the file)")
+  .option("-o, --out <file>", "Also write the JSON report to this file")
+  .option("--min-recall <number>", "Exit with code 1 when recall@k is lower (CI regression gate)")
+  .option("--min-mrr <number>", "Exit with code 1 when MRR is lower (CI regression gate)")
+  .option("--no-index", "Skip the incremental indexing run before evaluating")
+  .action(async (goldenFile: string, options) => {
+    // stdout carries the JSON report: progress goes to stderr, the indexer and retriever stay quiet
+    const logToStderr = {
+      sys: (msg: string) => console.error(chalk.gray("⚙️  [SYS]: ") + msg),
+      error: (msg: string) => console.error(chalk.red("❌ [ERR]: ") + msg),
+    };
+    try {
+      if (options.mode && !["semantic", "lexical", "hybrid"].includes(options.mode)) {
+        throw new Error(`Unknown mode '${options.mode}' (expected semantic, lexical or hybrid).`);
+      }
+      if (options.k !== undefined && !/^[1-9]\d*$/.test(options.k)) {
+        throw new Error(`Invalid k '${options.k}' (expected a positive integer).`);
+      }
+      const suite = loadGoldenSuite(goldenFile);
+      if (options.index) {
+        const coordinator = IndexCoordinator.getInstance();
+        coordinator.setVerbose(false);
+        await coordinator.indexAll();
+      }
+
+      const report = await new RetrievalEvaluator(new RetrieverService(undefined, false)).evaluate(suite, {
+        k: options.k !== undefined ? Number(options.k) : undefined,
+        mode: options.mode as SearchMode | undefined,
+      });
+      const json = JSON.stringify(report, null, 2);
+      if (options.out) fs.writeFileSync(options.out, json);
+      process.stdout.write(`${json}\n`);
+
+      logToStderr.sys(`recall@${report.k}: ${report.recallAtK} | MRR: ${report.mrr} | ${report.perfectQueries}/${report.queryCount} queries fully answered`);
+      if (options.minRecall !== undefined && report.recallAtK < Number(options.minRecall)) {
+        logToStderr.error(`recall@${report.k} ${report.recallAtK} is below ${options.minRecall}.`);
+        process.exitCode = 1;
+      }
+      if (options.minMrr !== undefined && report.mrr < Number(options.minMrr)) {
+        logToStderr.error(`MRR ${report.mrr} is below ${options.minMrr}.`);
+        process.exitCode = 1;
+      }
+    } catch (error: any) {
+      logToStderr.error(error?.message || "Unknown error");
+      process.exitCode = 1;
+    }
+  });
+
 program.parse(process.argv);
@@ -10,6 +10,7 @@ import {
   refreshIndexTool,
   safeReadFileTool,
   safeWriteFileTool,
+  safeEditFileTool,
 } from "../tools";
 import * as path from "path";
 import * as fs from "fs";
@@ -51,7 +52,7 @@ Testing (TDD): DO NOT write code without its corresponding test.
 🧪 TESTING PROTOCOL (MANDATORY):
 
 1. Spec First: When creating a new feature, you MUST create the corresponding '.spec.ts' file.
-2. Verify Logic: After 'safe_write_file', you must run 'run_tests' for that specific file.
+2. Verify Logic: After 'safe_write_file' or 'safe_edit_file', you must run 'run_tests' for that specific file.
 3. No Regressions: Before finishing a task, run 'run_integrity_check' and if possible, 'run_tests' (global) to ensure everything is perfect.
 4. Auto-Fix: If tests fail, analyze the output, read the code again, and fix it. Do not give up until the tests are green.
 
@@ -111,7 +112,7 @@ Wait for human approval. If rejected, propose a different solution.
 
 2. Preservation First: Do not delete existing documentation (TSDocs), helpful comments, or business logic unrelated to your current task. Your goal is to AUGMENT and REFINE, not to destroy.
 
-3. Differential Analysis: Before proposing a 'safe_write_file', mentally compare your new version with the existing one. 
+3. Differential Analysis: To modify an existing file, prefer 'safe_edit_file' (search/replace blocks) over rewriting it, so code unrelated to the change cannot be lost. Before proposing a 'safe_write_file', mentally compare your new version with the existing one. 
    - Ask yourself: Does this change preserve all existing functionality? 
    - Does it maintain the established TSDoc standards?
    - Is this strictly better than the previous version?
@@ -121,8 +122,7 @@ Wait for human approval. If rejected, propose a different solution.
 5. Focus vs. Context: While focusing on your specific task, maintain the "big picture" of the file. Do not break the file's internal consistency (naming conventions, patterns, or architecture).
     `;
     return createAgent({
-      // model: LLMProvider.getModel(),
-      model: "gemini-2.5-flash-lite",
+      model: LLMProvider.getModel(),
       checkpointer: checkpointer, // Para persistencia de memoria de corto plazo
 
       // Añadimos solo las herramientas necesarias
@@ -130,6 +130,7 @@ Wait for human approval. If rejected, propose a different solution.
         askCodebaseTool,
         integrityCheckTool,
         safeWriteFileTool,
+        safeEditFileTool,
         safeReadFileTool,
         refreshIndexTool,
         executeTestsTool,
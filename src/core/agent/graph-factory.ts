@@ -2,7 +2,7 @@ import { Annotation, StateGraph, START, END } from "@langchain/langgraph";
 import { BaseMessage, AIMessage, ToolMessage, SystemMessage } from "@langchain/core/messages";
 import { SqliteSaver } from "@langchain/langgraph-checkpoint-sqlite";
 import { LLMProvider } from "../llm/provider";
-import { IndexerService } from "../rag/indexer";
+import { IndexCoordinator } from "../rag/index-coordinator";
 import {
   askCodebaseTool,
   executeTestsTool,
@@ -11,11 +11,20 @@ import {
   refreshIndexTool,
   safeReadFileTool,
   safeWriteFileTool,
+  safeEditFileTool,
   executeCommandTool,
   askHumanTool,
   deleteFileTool,
   analyzeCodeStructureTool,
   queryDependencyGraphTool,
+  queryModuleGraphTool,
+  listHttpRoutesTool,
+  findTestsForTool,
+  analyzeImpactTool,
+  findReferencesTool,
+  goToDefinitionTool,
+  findImplementationsTool,
+  indexStatusTool,
 } from "../tools";
 import * as path from "path";
 import * as fs from "fs";
@@ -83,20 +92,32 @@ export class GraphAgentFactory {
       refreshIndexTool,
       analyzeCodeStructureTool,
       queryDependencyGraphTool,
+      queryModuleGraphTool,
+      listHttpRoutesTool,
+      findTestsForTool,
+      analyzeImpactTool,
+      findReferencesTool,
+      goToDefinitionTool,
+      findImplementationsTool,
+      indexStatusTool,
     ];
     
     // Tools that NEVER require HITL (Internal/Validation)
     const valuationTools = [integrityCheckTool, executeTestsTool];
 
     // Tools that MAY require HITL depending on context
-    const modificationTools = [safeWriteFileTool, deleteFileTool];
+    const modificationTools = [safeWriteFileTool, safeEditFileTool, deleteFileTool];
 
     // Tools that ALWAYS require HITL (Dangerous)
     const dangerousTools = [executeCommandTool, askHumanTool];
     
     const allTools = [...researchTools, ...valuationTools, ...modificationTools, ...dangerousTools];
 
-    const model = LLMProvider.getModel().bindTools(allTools);
+    const baseModel = LLMProvider.getModel();
+    if (!baseModel.bindTools) {
+      throw new Error(`❌ The configured chat model (${baseModel._llmType()}) does not support tool calling.`);
+    }
+    const model = baseModel.bindTools(allTools);
 
     const mainSystemPrompt = `
 You are a Principal Software Engineer specialized in NestJS. You operate with a "Lightweight HITL" protocol.
@@ -127,7 +148,15 @@ STUCK PROTOCOL:
 📂 STRATEGY:
 - RESEARCH -> PLAN -> IMPLEMENT -> VALIDATE.
 - Read files before modifying them.
-- After every 'safe_write_file', use 'run_integrity_check' and 'run_tests'.
+- To change an existing file, use 'safe_edit_file' with search/replace blocks (or a unified diff) instead of rewriting it with 'safe_write_file': unrelated code and TSDocs stay untouched. Keep 'safe_write_file' for new files.
+- After every 'safe_write_file' or 'safe_edit_file', use 'run_integrity_check' and 'run_tests'.
+- Before creating or injecting a provider, use 'query_module_graph' to find the module that registers/exports it (or where a new one must be registered). Never inject a provider whose module is not imported.
+- Before adding an endpoint, use 'list_http_routes' to see the neighbouring routes and 'check' the new one for conflicts.
+- Before changing a DTO, entity or shared service, use 'analyze_impact' to see every dependent file, then verify the change with the 'run_tests' targets it suggests.
+- To rename or change a signature, use 'find_references' (exact, type-aware usages); use 'go_to_definition' to locate a symbol and 'find_implementations' to update every implementation of an interface or abstract class.
+- Before writing tests, use 'find_tests_for' on the subject: extend its existing spec and follow its mocking setup instead of creating a second spec file.
+- For business rules, design decisions or the data model, search 'ask_codebase' with include ["docs"] or ["prisma"]: READMEs, ADRs, the Prisma schema and config files are indexed next to the code.
+- Written files are re-indexed in the background. If 'ask_codebase' warns that the index is catching up, check 'index_status' before relying on it for the files you just changed.
 
 🛠️ SELF-HEALING & STRUCTURAL AWARENESS:
 - If a test fails with "undefined" or signature mismatches, use 'analyze_code_structure' to see the service's signatures without full implementation noise.
@@ -137,8 +166,8 @@ STUCK PROTOCOL:
 
     const indexerNode = async (state: typeof AgentStateAnnotation.State) => {
       console.log("⚙️ [NODE: INDEXER] Syncing codebase index...");
-      const indexer = new IndexerService();
-      await indexer.indexProject();
+      // Waits for any run in progress (background re-indexing, CLI) instead of racing it
+      await IndexCoordinator.getInstance().indexAll();
       return {}; 
     };
 
@@ -237,7 +266,7 @@ STUCK PROTOCOL:
         if (dangerousTools.some(t => t.name === name)) return "dangerous_actor";
 
         // Logic for Writes and Deletes
-        if (name === "safe_write_file") {
+        if (name === "safe_write_file" || name === "safe_edit_file") {
           // ANY modification or creation is now considered safe by user request
           return "safe_actor";
         }
@@ -0,0 +1,68 @@
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * Name of the optional project-level configuration file (project root).
+ */
+export const AGENT_CONFIG_FILE = 'nestjs-agent.config.json';
+
+/**
+ * Controls which files the indexer scans.
+ * Globs are matched against POSIX paths relative to the project root
+ * (e.g. `apps/api/src/main.ts`) and support `*`, `**`, `?` and `{a,b}`.
+ */
+export interface IndexScopeConfig {
+  /** Directories (or single files) to scan, relative to the project root. Missing ones are skipped. */
+  roots: string[];
+  /** A file must match at least one of these globs. */
+  include: string[];
+  /** Files matching any of these globs are skipped. */
+  exclude: string[];
+  /** Honour `.gitignore` files (root and nested). */
+  respectGitignore: boolean;
+}
+
+export interface AgentConfig {
+  index: IndexScopeConfig;
+}
+
+/**
+ * Defaults cover the standard Nest layout (`src`, e2e suites in `test`) and Nest CLI
+ * monorepos (`apps/*`, `libs/*`). Specs are indexed so the agent knows the existing tests.
+ * Project knowledge outside the code is indexed too: the Prisma schema, docs and ADRs,
+ * the README, `nest-cli.json`, `.env.example` and JSON/YAML files (e.g. OpenAPI specs).
+ */
+export const DEFAULT_AGENT_CONFIG: AgentConfig = {
+  index: {
+    roots: ['src', 'apps', 'libs', 'test', 'prisma', 'docs', 'README.md', 'nest-cli.json', '.env.example'],
+    include: ['**/*.ts', '**/*.md', '**/*.prisma', '**/*.json', '**/*.{yaml,yml}', '**/.env.example'],
+    exclude: ['**/*.d.ts', '**/node_modules/**', '**/dist/**', '**/package-lock.json'],
+    respectGitignore: true,
+  },
+};
+
+/**
+ * Loads `nestjs-agent.config.json` from the project root and merges it over the defaults.
+ * Arrays in the file replace the defaults instead of being concatenated.
+ *
+ * @example
+ * ```json
+ * { "index": { "roots": ["apps", "libs"], "exclude": ["**\/*.d.ts", "apps/legacy/**"] } }
+ * ```
+ * @throws Error if the file exists but is not valid JSON.
+ */
+export function loadAgentConfig(rootDir: string = process.cwd()): AgentConfig {
+  const configPath = path.join(rootDir, AGENT_CONFIG_FILE);
+  if (!fs.existsSync(configPath)) return structuredClone(DEFAULT_AGENT_CONFIG);
+
+  let raw: Partial<{ index: Partial<IndexScopeConfig> }>;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`❌ Invalid ${AGENT_CONFIG_FILE}: ${error.message}`);
+  }
+
+  return {
+    index: { ...DEFAULT_AGENT_CONFIG.index, ...(raw.index || {}) },
+  };
+}
@@ -0,0 +1,91 @@
+import { AIMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CassetteChatModel } from './cassette';
+
+/**
+ * Minimal tool-calling model that answers from a script.
+ */
+const scriptedModel = (responses: AIMessage[]) => {
+  const invoke = jest.fn(async () => responses.shift());
+  return {
+    invoke,
+    bindTools: jest.fn(() => ({ invoke })),
+  } as any;
+};
+
+describe('CassetteChatModel', () => {
+  let tmpDir: string;
+  let cassettePath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+    cassettePath = path.join(tmpDir, 'cassettes', 'run.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const conversation = [
+    new SystemMessage('You are a NestJS engineer.'),
+    new HumanMessage('Where is the users service?'),
+  ];
+
+  it('should record requests and responses including tool_calls', async () => {
+    const inner = scriptedModel([
+      new AIMessage({
+        content: '',
+        tool_calls: [{ id: 'call_1', name: 'ask_codebase', args: { query: 'users service' } }],
+      }),
+    ]);
+    const model = new CassetteChatModel({ mode: 'record', cassettePath, inner }).bindTools([]);
+
+    const response = await model.invoke(conversation);
+
+    expect(response.tool_calls?.[0]).toMatchObject({ id: 'call_1', name: 'ask_codebase' });
+    const saved = CassetteChatModel.load(cassettePath);
+    expect(saved.interactions).toHaveLength(1);
+    expect(saved.interactions[0].request?.[1]).toEqual({
+      type: 'human',
+      content: 'Where is the users service?',
+    });
+    expect(saved.interactions[0].response.tool_calls?.[0].args).toEqual({ query: 'users service' });
+  });
+
+  it('should replay recorded responses in order without calling a model', async () => {
+    const inner = scriptedModel([
+      new AIMessage({ content: '', tool_calls: [{ id: 'c1', name: 'list_files', args: {} }] }),
+    ]);
+    await new CassetteChatModel({ mode: 'record', cassettePath, inner }).invoke(conversation);
+
+    const replay = new CassetteChatModel({ mode: 'replay', cassettePath });
+    const response = await replay.bindTools([]).invoke(conversation);
+
+    expect(response.tool_calls?.[0].name).toBe('list_files');
+    expect(replay.remaining).toBe(0);
+  });
+
+  it('should fail loudly when the request diverges from the recording', async () => {
+    const inner = scriptedModel([new AIMessage('done')]);
+    await new CassetteChatModel({ mode: 'record', cassettePath, inner }).invoke(conversation);
+
+    const replay = new CassetteChatModel({ mode: 'replay', cassettePath });
+    await expect(
+      replay.invoke([conversation[0], new HumanMessage('Something else')]),
+    ).rejects.toThrow(/Mismatch on request #1, message #2/);
+  });
+
+  it('should fail when the cassette is exhausted', async () => {
+    fs.mkdirSync(path.dirname(cassettePath), { recursive: true });
+    fs.writeFileSync(
+      cassettePath,
+      JSON.stringify({ version: 1, createdAt: '', interactions: [{ response: { content: 'ok' } }] }),
+    );
+    const replay = new CassetteChatModel({ mode: 'replay', cassettePath });
+
+    await expect(replay.invoke(conversation)).resolves.toMatchObject({ content: 'ok' });
+    await expect(replay.invoke(conversation)).rejects.toThrow(/Exhausted: request #2/);
+  });
+});
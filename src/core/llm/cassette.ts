@@ -0,0 +1,284 @@
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+  BaseChatModelParams,
+  BindToolsInput,
+} from '@langchain/core/language_models/chat_models';
+import { BaseLanguageModelInput } from '@langchain/core/language_models/base';
+import { AIMessage, AIMessageChunk, BaseMessage, MessageContent, ToolMessage } from '@langchain/core/messages';
+import { ChatResult } from '@langchain/core/outputs';
+import { Runnable } from '@langchain/core/runnables';
+import * as path from 'path';
+import * as fs from 'fs';
+
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * Serializable view of a chat message (request side of an interaction).
+ */
+export interface CassetteMessage {
+  type: string;
+  content: MessageContent;
+  tool_calls?: { id?: string; name: string; args: Record<string, any> }[];
+  tool_call_id?: string;
+}
+
+/**
+ * One request/response pair. `request` may be omitted in hand-written
+ * cassettes, in which case the request is not verified during replay.
+ */
+export interface CassetteInteraction {
+  request?: CassetteMessage[];
+  response: {
+    content: MessageContent;
+    tool_calls?: { id?: string; name: string; args: Record<string, any> }[];
+  };
+}
+
+/**
+ * On-disk format of a cassette file.
+ */
+export interface CassetteFile {
+  version: 1;
+  createdAt: string;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteOptions extends BaseChatModelParams {
+  mode: CassetteMode;
+  /** Absolute path of the cassette file. See `CassetteChatModel.pathFor()`. */
+  cassettePath: string;
+  /** Real model to call while recording. Not needed for replay. */
+  inner?: BaseChatModel;
+}
+
+/**
+ * Mutable cassette state shared by a model and all its `bindTools()` clones,
+ * so the interaction cursor advances no matter which instance is invoked.
+ */
+export interface CassetteState {
+  mode: CassetteMode;
+  cassettePath: string;
+  interactions: CassetteInteraction[];
+  cursor: number;
+}
+
+/**
+ * Converts LangChain messages into their JSON representation for the cassette.
+ */
+export function serializeMessages(messages: BaseMessage[]): CassetteMessage[] {
+  return messages.map((m) => {
+    const serialized: CassetteMessage = { type: m.getType(), content: m.content };
+    const toolCalls = (m as AIMessage).tool_calls;
+    if (toolCalls && toolCalls.length > 0) {
+      serialized.tool_calls = toolCalls.map((tc) => ({
+        id: tc.id,
+        name: tc.name,
+        args: tc.args,
+      }));
+    }
+    const toolCallId = ToolMessage.isInstance(m) ? m.tool_call_id : undefined;
+    if (toolCallId) serialized.tool_call_id = toolCallId;
+    return serialized;
+  });
+}
+
+/**
+ * Cassette Chat Model 📼
+ * Wraps a chat model to make agent runs deterministic:
+ * - `record`: forwards every call to the real model and appends the request/response
+ *   (including tool_calls) to a cassette file under `.agent/cassettes/`.
+ * - `replay`: serves the recorded responses in order without touching the network,
+ *   and throws if the conversation diverges from the recording.
+ *
+ * @example
+ * ```ts
+ * const model = new CassetteChatModel({
+ *   mode: 'replay',
+ *   cassettePath: CassetteChatModel.pathFor('create-users-service'),
+ * });
+ * ```
+ */
+export class CassetteChatModel extends BaseChatModel {
+  private state: CassetteState;
+  private inner?: BaseChatModel;
+  private boundInner?: Runnable<BaseLanguageModelInput, AIMessageChunk>;
+
+  /**
+   * @param options - Mode, cassette location and (for recording) the real model.
+   * @param sharedState - Internal: state inherited from the instance `bindTools()` was called on.
+   */
+  constructor(options: CassetteOptions, sharedState?: CassetteState) {
+    super(options);
+    this.inner = options.inner;
+
+    if (options.mode === 'record' && !options.inner) {
+      throw new Error('❌ [Cassette] Record mode requires an inner model.');
+    }
+
+    this.state = sharedState ?? {
+      mode: options.mode,
+      cassettePath: options.cassettePath,
+      interactions:
+        options.mode === 'replay'
+          ? CassetteChatModel.load(options.cassettePath).interactions
+          : [],
+      cursor: 0,
+    };
+  }
+
+  /**
+   * Resolves the default location of a named cassette: `.agent/cassettes/<name>.json`.
+   */
+  public static pathFor(name: string): string {
+    return path.join(process.cwd(), '.agent', 'cassettes', `${name}.json`);
+  }
+
+  /**
+   * Reads and validates a cassette file.
+   * @throws Error if the file is missing or malformed.
+   */
+  public static load(cassettePath: string): CassetteFile {
+    if (!fs.existsSync(cassettePath)) {
+      throw new Error(`❌ [Cassette] File not found: ${cassettePath}`);
+    }
+    const data = JSON.parse(fs.readFileSync(cassettePath, 'utf-8'));
+    if (!data || !Array.isArray(data.interactions)) {
+      throw new Error(`❌ [Cassette] Invalid cassette format: ${cassettePath}`);
+    }
+    return data as CassetteFile;
+  }
+
+  _llmType(): string {
+    return 'cassette';
+  }
+
+  /**
+   * Number of interactions not yet consumed (replay) or recorded so far (record).
+   */
+  public get remaining(): number {
+    return this.state.mode === 'replay'
+      ? this.state.interactions.length - this.state.cursor
+      : this.state.interactions.length;
+  }
+
+  /**
+   * Returns a clone that shares the cassette state. While recording,
+   * the tools are bound to the inner model so the real provider sees them.
+   */
+  bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<BaseChatModelCallOptions>,
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk> {
+    const clone = new CassetteChatModel(
+      {
+        mode: this.state.mode,
+        cassettePath: this.state.cassettePath,
+        inner: this.inner,
+      },
+      this.state,
+    );
+    if (this.state.mode === 'record') {
+      if (!this.inner?.bindTools) {
+        throw new Error('❌ [Cassette] The inner model does not support tool calling.');
+      }
+      clone.boundInner = this.inner.bindTools(tools, kwargs);
+    }
+    return clone;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const message =
+      this.state.mode === 'record'
+        ? await this.record(messages)
+        : this.replay(messages);
+
+    const text = typeof message.content === 'string' ? message.content : '';
+    return { generations: [{ text, message }] };
+  }
+
+  /**
+   * Calls the real model and appends the interaction to the cassette file.
+   */
+  private async record(messages: BaseMessage[]): Promise<AIMessage> {
+    const target = this.boundInner ?? this.inner!;
+    const result = await target.invoke(messages);
+
+    const interaction: CassetteInteraction = {
+      request: serializeMessages(messages),
+      response: {
+        content: result.content,
+        tool_calls: (result.tool_calls || []).map((tc) => ({
+          id: tc.id,
+          name: tc.name,
+          args: tc.args,
+        })),
+      },
+    };
+    this.state.interactions.push(interaction);
+    this.flush();
+
+    return this.toMessage(interaction);
+  }
+
+  /**
+   * Serves the next recorded response after verifying the request matches.
+   */
+  private replay(messages: BaseMessage[]): AIMessage {
+    const index = this.state.cursor;
+    const interaction = this.state.interactions[index];
+
+    if (!interaction) {
+      throw new Error(
+        `❌ [Cassette] Exhausted: request #${index + 1} has no recorded response in ${this.state.cassettePath}.`,
+      );
+    }
+
+    if (interaction.request) {
+      const received = serializeMessages(messages);
+      const expected = interaction.request;
+      const max = Math.max(received.length, expected.length);
+      for (let i = 0; i < max; i++) {
+        const a = JSON.stringify(expected[i] ?? null);
+        const b = JSON.stringify(received[i] ?? null);
+        if (a !== b) {
+          throw new Error(
+            `❌ [Cassette] Mismatch on request #${index + 1}, message #${i + 1} (${this.state.cassettePath}).\n` +
+              `Expected: ${a.slice(0, 500)}\n` +
+              `Received: ${b.slice(0, 500)}`,
+          );
+        }
+      }
+    }
+
+    this.state.cursor++;
+    return this.toMessage(interaction);
+  }
+
+  private toMessage(interaction: CassetteInteraction): AIMessage {
+    return new AIMessage({
+      content: interaction.response.content,
+      tool_calls: (interaction.response.tool_calls || []).map((tc) => ({
+        id: tc.id,
+        name: tc.name,
+        args: tc.args,
+        type: 'tool_call' as const,
+      })),
+    });
+  }
+
+  /**
+   * Persists the cassette after every interaction so partial runs are kept.
+   */
+  private flush() {
+    const dir = path.dirname(this.state.cassettePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+
+    const file: CassetteFile = {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      interactions: this.state.interactions,
+    };
+    fs.writeFileSync(this.state.cassettePath, JSON.stringify(file, null, 2), 'utf-8');
+  }
+}
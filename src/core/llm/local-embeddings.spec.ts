@@ -0,0 +1,42 @@
+import { LocalHashEmbeddings, tokenizeCode } from './local-embeddings';
+import { cosineSimilarity } from '../rag/math';
+
+describe('LocalHashEmbeddings', () => {
+  it('should split identifiers on camelCase, snake_case and digits', () => {
+    expect(tokenizeCode('createPaymentIntent(user_id: HTTPClient2)')).toEqual([
+      'create',
+      'payment',
+      'intent',
+      'user',
+      'id',
+      'http',
+      'client',
+    ]);
+  });
+
+  it('should produce deterministic, normalised vectors of the configured size', async () => {
+    const embeddings = new LocalHashEmbeddings({ dimensions: 64 });
+    const [a, b] = await embeddings.embedDocuments(['findUserById', 'findUserById']);
+    expect(a).toHaveLength(64);
+    expect(a).toEqual(b);
+    const norm = Math.sqrt(a.reduce((sum, v) => sum + v * v, 0));
+    expect(norm).toBeCloseTo(1, 5);
+  });
+
+  it('should rank related code above unrelated code', async () => {
+    const embeddings = new LocalHashEmbeddings();
+    const query = await embeddings.embedQuery('create payment intent');
+    const [payments, users] = await embeddings.embedDocuments([
+      'async createPaymentIntent(amount: number) { return this.stripe.paymentIntents.create({ amount }); }',
+      'async findAllUsers() { return this.userRepository.find(); }',
+    ]);
+    expect(cosineSimilarity(query, payments)).toBeGreaterThan(
+      cosineSimilarity(query, users),
+    );
+  });
+
+  it('should return a zero vector for empty text', async () => {
+    const vector = await new LocalHashEmbeddings({ dimensions: 8 }).embedQuery('');
+    expect(vector).toEqual(new Array(8).fill(0));
+  });
+});
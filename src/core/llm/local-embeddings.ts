@@ -0,0 +1,104 @@
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+
+/**
+ * Options for the offline hashed embeddings model.
+ */
+export interface LocalEmbeddingsOptions {
+  /** Vector size. Larger values reduce hash collisions. Default: 512. */
+  dimensions?: number;
+  /** Character n-gram size used for fuzzy matching. Default: 3. */
+  ngramSize?: number;
+}
+
+/**
+ * Splits source text into lowercase word tokens.
+ * Identifiers are broken on camelCase, PascalCase, snake_case, kebab-case and digits,
+ * so `createPaymentIntent` yields `create`, `payment`, `intent`.
+ */
+export function tokenizeCode(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+|(?<=[A-Za-z])(?=[0-9])|(?<=[0-9])(?=[A-Za-z])/)
+    .map((t) => t.toLowerCase())
+    .filter((t) => t.length > 1);
+}
+
+/**
+ * FNV-1a 32-bit hash. Fast, dependency-free and stable across runs/platforms.
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Local Hashed Embeddings 🧮
+ * A fully offline embeddings model based on the "hashing trick":
+ * word tokens and character n-grams are hashed into a fixed-size vector,
+ * weighted with sublinear term frequency and L2-normalised.
+ *
+ * No IDF is applied, so a vector only depends on its own text and
+ * incremental indexing never invalidates previously stored vectors.
+ *
+ * @example
+ * ```ts
+ * const embeddings = new LocalHashEmbeddings({ dimensions: 256 });
+ * const [vector] = await embeddings.embedDocuments(['findUserById(id: string)']);
+ * ```
+ */
+export class LocalHashEmbeddings implements EmbeddingsInterface {
+  /** Identifies the vector space in the index manifest (like `model` on LangChain embeddings). */
+  public readonly model: string;
+  public readonly dimensions: number;
+  private readonly ngramSize: number;
+
+  constructor(options: LocalEmbeddingsOptions = {}) {
+    this.dimensions = options.dimensions ?? 512;
+    this.ngramSize = options.ngramSize ?? 3;
+    this.model = `local-hash-${this.ngramSize}gram`;
+  }
+
+  public async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((doc) => this.embed(doc));
+  }
+
+  public async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+
+  /**
+   * Builds the normalised feature vector for a single text.
+   */
+  private embed(text: string): number[] {
+    const counts = new Map<string, number>();
+    const add = (feature: string) =>
+      counts.set(feature, (counts.get(feature) || 0) + 1);
+
+    for (const token of tokenizeCode(text)) {
+      add(`w:${token}`);
+      // Character n-grams give partial credit to related words (user/users, auth/authentication).
+      const padded = `^${token}$`;
+      for (let i = 0; i + this.ngramSize <= padded.length; i++) {
+        add(`g:${padded.slice(i, i + this.ngramSize)}`);
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    counts.forEach((count, feature) => {
+      const hash = fnv1a(feature);
+      const index = hash % this.dimensions;
+      // Signed hashing keeps collisions from always adding up.
+      const sign = hash & 0x80000000 ? -1 : 1;
+      const weight = feature.startsWith('w:') ? 2 : 1;
+      vector[index] += sign * weight * (1 + Math.log(count));
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+}
@@ -0,0 +1,52 @@
+import { loadLLMConfigFromEnv, LLMProvider } from './provider';
+import { ProviderRegistry } from './registry';
+
+describe('LLM Provider Registry', () => {
+  it('should default to Vertex AI for chat and embeddings', () => {
+    const config = loadLLMConfigFromEnv({});
+    expect(config.chat.provider).toBe('vertex');
+    expect(config.embeddings.provider).toBe('vertex');
+  });
+
+  it('should reuse the chat endpoint for embeddings on the same local server', () => {
+    const config = loadLLMConfigFromEnv({
+      AGENT_LLM_PROVIDER: 'ollama',
+      AGENT_LLM_BASE_URL: 'http://gpu-box:11434/v1',
+      AGENT_LLM_TEMPERATURE: '0.2',
+    });
+    expect(config.chat.temperature).toBe(0.2);
+    expect(config.embeddings.provider).toBe('ollama');
+    expect(config.embeddings.baseUrl).toBe('http://gpu-box:11434/v1');
+  });
+
+  it('should fall back to Vertex embeddings for chat-only providers', () => {
+    const config = loadLLMConfigFromEnv({ AGENT_LLM_PROVIDER: 'anthropic' });
+    expect(config.embeddings.provider).toBe('vertex');
+  });
+
+  it('should resolve custom providers registered at runtime', () => {
+    const fakeEmbeddings = {
+      embedDocuments: jest.fn().mockResolvedValue([[1, 0]]),
+      embedQuery: jest.fn().mockResolvedValue([1, 0]),
+    };
+    ProviderRegistry.registerEmbeddings('fake', () => fakeEmbeddings);
+
+    LLMProvider.configure({ embeddings: { provider: 'fake' } });
+    expect(LLMProvider.getEmbeddingsModel()).toBe(fakeEmbeddings);
+  });
+
+  it('should reject unknown providers with the list of available ones', () => {
+    expect(() => ProviderRegistry.createChat({ provider: 'nope' })).toThrow(
+      /Unknown chat provider "nope".*vertex/,
+    );
+  });
+
+  it('should reject malformed or zero-dimension local embeddings models', () => {
+    expect(ProviderRegistry.createEmbeddings({ provider: 'local', model: 'hash-16' })).toBeDefined();
+    for (const model of ['hash-0', 'hash-abc']) {
+      expect(() => ProviderRegistry.createEmbeddings({ provider: 'local', model })).toThrow(
+        `Invalid local embeddings model "${model}"`,
+      );
+    }
+  });
+});
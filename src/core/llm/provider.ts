@@ -1,66 +1,166 @@
-import { ChatVertexAI, VertexAIEmbeddings } from '@langchain/google-vertexai';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
-import * as fs from 'fs';
+import { LLMConfig, ModelConfig, ProviderRegistry } from './registry';
+import { CassetteChatModel } from './cassette';
 
 // 1. Cargar variables de entorno desde la RAÍZ del proyecto
 // process.cwd() obtiene la carpeta desde donde ejecutas "npm run agent"
 const rootDir = process.cwd();
 dotenv.config({ path: path.join(rootDir, '.env.development') });
 
+/**
+ * Parses an optional numeric environment variable.
+ */
+function envNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Identifies the vector space of an embeddings model: its `model` name when it exposes one
+ * (LangChain embeddings do), otherwise its class name.
+ */
+export function embeddingsModelId(embeddings: EmbeddingsInterface): string {
+  const { model, modelName } = embeddings as { model?: unknown; modelName?: unknown };
+  const name = typeof model === 'string' ? model : typeof modelName === 'string' ? modelName : undefined;
+  return name ?? embeddings.constructor.name;
+}
+
+/**
+ * Reads the LLM configuration from environment variables.
+ *
+ * - `AGENT_LLM_PROVIDER` / `AGENT_LLM_MODEL` / `AGENT_LLM_BASE_URL` / `AGENT_LLM_API_KEY` / `AGENT_LLM_TEMPERATURE`
+ * - `AGENT_EMBEDDINGS_PROVIDER` / `AGENT_EMBEDDINGS_MODEL` / `AGENT_EMBEDDINGS_BASE_URL` / `AGENT_EMBEDDINGS_API_KEY`
+ *
+ * - `AGENT_LLM_CASSETTE` (`record` | `replay`) / `AGENT_LLM_CASSETTE_NAME` (default: `default`)
+ *
+ * The embeddings backend defaults to the chat provider when it supports embeddings, otherwise Vertex AI.
+ */
+export function loadLLMConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): LLMConfig {
+  const chatProvider = env.AGENT_LLM_PROVIDER || 'vertex';
+  const chatSupportsEmbeddings = ProviderRegistry.list().embeddings.includes(
+    chatProvider,
+  );
+  const embeddingsProvider =
+    env.AGENT_EMBEDDINGS_PROVIDER ||
+    (chatSupportsEmbeddings ? chatProvider : 'vertex');
+
+  const cassetteMode = env.AGENT_LLM_CASSETTE;
+  const cassette: LLMConfig['cassette'] =
+    cassetteMode === 'record' || cassetteMode === 'replay'
+      ? { mode: cassetteMode, name: env.AGENT_LLM_CASSETTE_NAME || 'default' }
+      : undefined;
+
+  return {
+    cassette,
+    chat: {
+      provider: chatProvider,
+      model: env.AGENT_LLM_MODEL,
+      baseUrl: env.AGENT_LLM_BASE_URL,
+      apiKey: env.AGENT_LLM_API_KEY,
+      temperature: envNumber(env.AGENT_LLM_TEMPERATURE),
+    },
+    embeddings: {
+      provider: embeddingsProvider,
+      model: env.AGENT_EMBEDDINGS_MODEL,
+      // Share the chat endpoint when both run on the same local server.
+      baseUrl:
+        env.AGENT_EMBEDDINGS_BASE_URL ||
+        (embeddingsProvider === chatProvider
+          ? env.AGENT_LLM_BASE_URL
+          : undefined),
+      apiKey:
+        env.AGENT_EMBEDDINGS_API_KEY ||
+        (embeddingsProvider === chatProvider
+          ? env.AGENT_LLM_API_KEY
+          : undefined),
+    },
+  };
+}
+
+/**
+ * Central access point to the configured models.
+ * Resolves chat and embedding backends through the `ProviderRegistry`,
+ * caching one instance of each for the lifetime of the process.
+ */
 export class LLMProvider {
-  private static instance: ChatVertexAI;
+  private static instance?: BaseChatModel;
+  private static embeddingsInstance?: EmbeddingsInterface;
+  private static config: LLMConfig | null = null;
 
   private constructor() {}
 
-  public static getModel(): ChatVertexAI {
-    if (!this.instance) {
-      // 2. Validación de variables críticas
-      const credentialsPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  /**
+   * Overrides the configuration (partially) and drops cached model instances.
+   * Useful for programmatic setups (NestJS module options, tests, CI).
+   */
+  public static configure(
+    config: {
+      chat?: Partial<ModelConfig>;
+      embeddings?: Partial<ModelConfig>;
+      cassette?: LLMConfig['cassette'] | null;
+    } = {},
+  ) {
+    const current = this.getConfig();
+    this.config = {
+      chat: { ...current.chat, ...config.chat },
+      embeddings: { ...current.embeddings, ...config.embeddings },
+      cassette:
+        config.cassette === undefined
+          ? current.cassette
+          : config.cassette ?? undefined,
+    };
+    this.instance = undefined;
+    this.embeddingsInstance = undefined;
+  }
 
-      if (!credentialsPath) {
-        throw new Error(
-          '❌ GOOGLE_APPLICATION_CREDENTIALS no está definido en el .env',
-        );
-      }
+  /**
+   * Returns the active configuration (environment-based unless overridden).
+   */
+  public static getConfig(): LLMConfig {
+    if (!this.config) {
+      this.config = loadLLMConfigFromEnv();
+    }
+    return this.config;
+  }
 
-      // 3. Convertir ruta relativa a ABSOLUTA (Truco para Windows)
-      // Si dice "./credentials.json", lo convierte a "C:\Users\...\credentials.json"
-      const absoluteCredentialsPath = path.resolve(rootDir, credentialsPath);
+  public static getModel(): BaseChatModel {
+    if (!this.instance) {
+      const { chat, cassette } = this.getConfig();
 
-      // Verificamos que el archivo JSON realmente exista antes de intentar conectar
-      if (!fs.existsSync(absoluteCredentialsPath)) {
-        throw new Error(
-          `❌ No se encuentra el archivo de credenciales en: ${absoluteCredentialsPath}`,
-        );
+      // Replay never touches the real provider: no credentials, no network.
+      if (cassette?.mode === 'replay') {
+        const cassettePath = CassetteChatModel.pathFor(cassette.name);
+        console.log(`📼 Replaying LLM cassette: ${cassettePath}`);
+        this.instance = new CassetteChatModel({ mode: 'replay', cassettePath });
+        return this.instance;
       }
 
-      // Sobrescribimos la variable de entorno con la ruta absoluta para que la librería de Google la lea bien
-      process.env.GOOGLE_APPLICATION_CREDENTIALS = absoluteCredentialsPath;
+      console.log(`🤖 Chat provider: ${chat.provider}${chat.model ? ` (${chat.model})` : ''}`);
+      this.instance = ProviderRegistry.createChat(chat);
 
-      console.log(`📄 Usando credenciales: ${absoluteCredentialsPath}`);
-
-      this.instance = new ChatVertexAI({
-        // Usamos tus variables específicas
-        model:
-          process.env.GOOGLE_CLOUD_MODEL_NAME || 'gemini-2.0-flash-lite-001',
-        temperature: 0,
-        // maxOutputTokens: 8192,
-      });
+      if (cassette?.mode === 'record') {
+        const cassettePath = CassetteChatModel.pathFor(cassette.name);
+        console.log(`📼 Recording LLM cassette: ${cassettePath}`);
+        this.instance = new CassetteChatModel({
+          mode: 'record',
+          cassettePath,
+          inner: this.instance,
+        });
+      }
     }
     return this.instance;
   }
 
-  private static embeddingsInstance: VertexAIEmbeddings;
-
-  public static getEmbeddingsModel(): VertexAIEmbeddings {
+  public static getEmbeddingsModel(): EmbeddingsInterface {
     if (!this.embeddingsInstance) {
-      // Validar credentials igual que antes...
-
-      this.embeddingsInstance = new VertexAIEmbeddings({
-        model: 'text-embedding-004', // El modelo más eficiente de Google actualmente
-        // Los mismos parámetros de location y projectID que ya configuramos
-      });
+      const { embeddings } = this.getConfig();
+      this.embeddingsInstance = ProviderRegistry.createEmbeddings(embeddings);
     }
     return this.embeddingsInstance;
   }
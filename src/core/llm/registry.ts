@@ -0,0 +1,261 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { ChatVertexAI, VertexAIEmbeddings } from '@langchain/google-vertexai';
+import { LocalHashEmbeddings } from './local-embeddings';
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * Connection settings for a single model backend (chat or embeddings).
+ */
+export interface ModelConfig {
+  /** Registered provider name (e.g. 'vertex', 'openai', 'ollama'). */
+  provider: string;
+  /** Model identifier understood by the provider. Falls back to the provider default. */
+  model?: string;
+  /** Base URL for HTTP backends (OpenAI-compatible servers, Ollama, llama.cpp). */
+  baseUrl?: string;
+  /** API key for hosted backends. Local servers usually accept any value. */
+  apiKey?: string;
+  /** Sampling temperature (chat models only). */
+  temperature?: number;
+}
+
+/**
+ * Full LLM configuration: one backend for reasoning, one for embeddings.
+ */
+export interface LLMConfig {
+  chat: ModelConfig;
+  embeddings: ModelConfig;
+  /** Optional record/replay of chat interactions (see `CassetteChatModel`). */
+  cassette?: { mode: 'record' | 'replay'; name: string };
+}
+
+export type ChatModelFactory = (config: ModelConfig) => BaseChatModel;
+export type EmbeddingsFactory = (config: ModelConfig) => EmbeddingsInterface;
+
+/**
+ * Loads an optional provider package on demand.
+ * Keeps heavy SDKs out of the dependency tree unless the provider is actually selected.
+ */
+function loadOptional(pkg: string, provider: string): any {
+  try {
+    return require(pkg);
+  } catch {
+    throw new Error(
+      `❌ Provider "${provider}" requires the optional package "${pkg}". Install it with: npm install ${pkg}`,
+    );
+  }
+}
+
+/**
+ * Validates GOOGLE_APPLICATION_CREDENTIALS and converts it to an absolute path
+ * so the Google SDK can find it regardless of the working directory.
+ */
+function ensureVertexCredentials() {
+  const rootDir = process.cwd();
+  const credentialsPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+
+  if (!credentialsPath) {
+    throw new Error(
+      '❌ GOOGLE_APPLICATION_CREDENTIALS no está definido en el .env',
+    );
+  }
+
+  const absoluteCredentialsPath = path.resolve(rootDir, credentialsPath);
+  if (!fs.existsSync(absoluteCredentialsPath)) {
+    throw new Error(
+      `❌ No se encuentra el archivo de credenciales en: ${absoluteCredentialsPath}`,
+    );
+  }
+
+  process.env.GOOGLE_APPLICATION_CREDENTIALS = absoluteCredentialsPath;
+  console.log(`📄 Usando credenciales: ${absoluteCredentialsPath}`);
+}
+
+/**
+ * Builds an OpenAI-compatible chat model. Shared by every backend that speaks
+ * the `/v1/chat/completions` protocol (OpenAI, Ollama, llama.cpp, vLLM...).
+ */
+function openAICompatibleChat(
+  provider: string,
+  defaults: { baseUrl?: string; model: string },
+): ChatModelFactory {
+  return (config) => {
+    const { ChatOpenAI } = loadOptional('@langchain/openai', provider);
+    return new ChatOpenAI({
+      model: config.model || defaults.model,
+      temperature: config.temperature ?? 0,
+      apiKey: config.apiKey || process.env.OPENAI_API_KEY || 'not-needed',
+      configuration: { baseURL: config.baseUrl || defaults.baseUrl },
+    });
+  };
+}
+
+/**
+ * Builds OpenAI-compatible embeddings (`/v1/embeddings`).
+ */
+function openAICompatibleEmbeddings(
+  provider: string,
+  defaults: { baseUrl?: string; model: string },
+): EmbeddingsFactory {
+  return (config) => {
+    const { OpenAIEmbeddings } = loadOptional('@langchain/openai', provider);
+    return new OpenAIEmbeddings({
+      model: config.model || defaults.model,
+      apiKey: config.apiKey || process.env.OPENAI_API_KEY || 'not-needed',
+      configuration: { baseURL: config.baseUrl || defaults.baseUrl },
+    });
+  };
+}
+
+/**
+ * Provider Registry 🔌
+ * Maps provider names to factories for chat and embedding models.
+ * Built-in providers: 'vertex', 'openai', 'ollama', 'llamacpp', 'anthropic' and 'local' (embeddings only).
+ * Custom backends can be added at runtime with `registerChat` / `registerEmbeddings`.
+ */
+export class ProviderRegistry {
+  private static chatFactories = new Map<string, ChatModelFactory>();
+  private static embeddingsFactories = new Map<string, EmbeddingsFactory>();
+
+  /**
+   * Registers (or overrides) a chat model backend.
+   */
+  public static registerChat(name: string, factory: ChatModelFactory) {
+    this.chatFactories.set(name, factory);
+  }
+
+  /**
+   * Registers (or overrides) an embeddings backend.
+   */
+  public static registerEmbeddings(name: string, factory: EmbeddingsFactory) {
+    this.embeddingsFactories.set(name, factory);
+  }
+
+  /**
+   * Lists the provider names available for each capability.
+   */
+  public static list(): { chat: string[]; embeddings: string[] } {
+    return {
+      chat: Array.from(this.chatFactories.keys()),
+      embeddings: Array.from(this.embeddingsFactories.keys()),
+    };
+  }
+
+  /**
+   * Instantiates the chat model described by `config`.
+   * @throws Error if the provider is not registered.
+   */
+  public static createChat(config: ModelConfig): BaseChatModel {
+    const factory = this.chatFactories.get(config.provider);
+    if (!factory) {
+      throw new Error(
+        `❌ Unknown chat provider "${config.provider}". Available: ${this.list().chat.join(', ')}`,
+      );
+    }
+    return factory(config);
+  }
+
+  /**
+   * Instantiates the embeddings model described by `config`.
+   * @throws Error if the provider is not registered or has no embeddings support.
+   */
+  public static createEmbeddings(config: ModelConfig): EmbeddingsInterface {
+    const factory = this.embeddingsFactories.get(config.provider);
+    if (!factory) {
+      throw new Error(
+        `❌ Unknown embeddings provider "${config.provider}". Available: ${this.list().embeddings.join(', ')}`,
+      );
+    }
+    return factory(config);
+  }
+}
+
+// ==========================================
+// 🧩 BUILT-IN PROVIDERS
+// ==========================================
+
+ProviderRegistry.registerChat('vertex', (config) => {
+  ensureVertexCredentials();
+  // The Vertex SDK bundles its own copy of @langchain/core, hence the cast.
+  return new ChatVertexAI({
+    model:
+      config.model ||
+      process.env.GOOGLE_CLOUD_MODEL_NAME ||
+      'gemini-2.0-flash-lite-001',
+    temperature: config.temperature ?? 0,
+  }) as unknown as BaseChatModel;
+});
+
+ProviderRegistry.registerEmbeddings(
+  'vertex',
+  (config) =>
+    new VertexAIEmbeddings({
+      model: config.model || 'text-embedding-004',
+    }),
+);
+
+ProviderRegistry.registerChat(
+  'openai',
+  openAICompatibleChat('openai', { model: 'gpt-4o-mini' }),
+);
+ProviderRegistry.registerEmbeddings(
+  'openai',
+  openAICompatibleEmbeddings('openai', { model: 'text-embedding-3-small' }),
+);
+
+// Ollama and llama.cpp both expose an OpenAI-compatible API on localhost.
+ProviderRegistry.registerChat(
+  'ollama',
+  openAICompatibleChat('ollama', {
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'qwen2.5-coder',
+  }),
+);
+ProviderRegistry.registerEmbeddings(
+  'ollama',
+  openAICompatibleEmbeddings('ollama', {
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'nomic-embed-text',
+  }),
+);
+
+ProviderRegistry.registerChat(
+  'llamacpp',
+  openAICompatibleChat('llamacpp', {
+    baseUrl: 'http://localhost:8080/v1',
+    model: 'local-model',
+  }),
+);
+ProviderRegistry.registerEmbeddings(
+  'llamacpp',
+  openAICompatibleEmbeddings('llamacpp', {
+    baseUrl: 'http://localhost:8080/v1',
+    model: 'local-model',
+  }),
+);
+
+// Anthropic has no embeddings API: pair it with another embeddings provider.
+ProviderRegistry.registerChat('anthropic', (config) => {
+  const { ChatAnthropic } = loadOptional('@langchain/anthropic', 'anthropic');
+  return new ChatAnthropic({
+    model: config.model || 'claude-sonnet-4-5',
+    temperature: config.temperature ?? 0,
+    apiKey: config.apiKey || process.env.ANTHROPIC_API_KEY,
+    ...(config.baseUrl ? { anthropicApiUrl: config.baseUrl } : {}),
+  });
+});
+
+// Offline hashed embeddings: no network, no credentials. Model format: 'hash-<dimensions>'.
+ProviderRegistry.registerEmbeddings('local', (config) => {
+  if (!config.model) return new LocalHashEmbeddings();
+  const match = /^hash-(\d+)$/.exec(config.model);
+  // Zero-length vectors have no cosine similarity
+  if (!match || Number(match[1]) < 1) {
+    throw new Error(
+      `❌ Invalid local embeddings model "${config.model}". Expected "hash-<dimensions>" with at least 1 dimension (e.g. "hash-512").`,
+    );
+  }
+  return new LocalHashEmbeddings({ dimensions: Number(match[1]) });
+});
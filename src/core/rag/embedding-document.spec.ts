@@ -0,0 +1,69 @@
+import { NestChunker } from '../tools/ast/chunker';
+import { MarkdownChunker } from '../tools/ast/markdown-chunker';
+import { buildEmbeddingDocument } from './embedding-document';
+
+describe('buildEmbeddingDocument', () => {
+  const chunker = new NestChunker();
+
+  const documentsOf = (filePath: string, content: string) =>
+    chunker
+      .analyze(filePath, content, 'hash')
+      .chunks.map((chunk) => buildEmbeddingDocument({ ...chunk, filePath }));
+
+  it('should prefix methods with their class, injections, decorators, route and JSDoc', () => {
+    const [, refund] = documentsOf(
+      'src/payments/payments.controller.ts',
+      `@Controller('payments')
+export class PaymentsController {
+  constructor(
+    private readonly payments: PaymentsService,
+    @InjectRepository(Payment) private readonly repo: Repository<Payment>,
+  ) {}
+
+  /**
+   * Refunds a captured payment.
+   *
+   * Partial refunds are not supported.
+   */
+  @Post(':id/refund')
+  @UseGuards(AuthGuard)
+  refund(@Param('id') id: string) { return this.payments.refund(id); }
+}
+`,
+    );
+
+    expect(refund.split('\n').slice(0, 4)).toEqual([
+      '[File: src/payments/payments.controller.ts] [Path: payments controller]',
+      "[Class: PaymentsController] [Decorators: @Controller('payments')] [Injects: PaymentsService, Repository<Payment>]",
+      "[Method: refund] [Decorators: @Post(':id/refund'), @UseGuards(AuthGuard)] [Route: POST /payments/:id/refund]",
+      '[Doc: Refunds a captured payment.]',
+    ]);
+    expect(refund).toContain('refund(@Param(\'id\') id: string)');
+  });
+
+  it('should describe top-level declarations by kind and name', () => {
+    const [slugify] = documentsOf(
+      'src/common/utils/slug.utils.ts',
+      `/** Turns a title into a URL slug. */
+export const slugify = (title: string) => title.toLowerCase();
+`,
+    );
+
+    expect(slugify.split('\n').slice(0, 3)).toEqual([
+      '[File: src/common/utils/slug.utils.ts] [Path: common utils slug]',
+      '[arrow_function: slugify]',
+      '[Doc: Turns a title into a URL slug.]',
+    ]);
+  });
+
+  it('should tag document sections with the headings above them', () => {
+    const [decision] = new MarkdownChunker()
+      .analyze('docs/adr/001-order-numbers.md', '# ADR 001: Order numbers\n\n## Decision\n\nUse advisory locks.\n', 'hash')
+      .chunks.map((chunk) => buildEmbeddingDocument({ ...chunk, filePath: 'docs/adr/001-order-numbers.md' }));
+
+    expect(decision.split('\n').slice(0, 2)).toEqual([
+      '[File: docs/adr/001-order-numbers.md] [Path: docs adr 001 order numbers md]',
+      '[Section: ADR 001: Order numbers > Decision]',
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import * as path from 'path';
+import { ChunkType, ProcessedChunk } from '../types';
+
+/**
+ * Version of the text built by `buildEmbeddingDocument`.
+ * Bump it whenever the format changes: chunks embedded with another version are re-embedded
+ * on the next indexing run (vectors of different formats are not comparable).
+ * - v1: `Method: name` prefix.
+ * - v2: file path, class, decorators, injections, route and JSDoc summary.
+ */
+export const ENRICHMENT_VERSION = 2;
+
+/**
+ * Path segments that carry no meaning for search.
+ */
+const NOISE_SEGMENTS = new Set(['src', 'apps', 'libs', 'ts', 'index']);
+
+/**
+ * Header label of the chunks named by `symbolName` rather than by a declaration kind.
+ */
+const SYMBOL_LABELS: Partial<Record<ChunkType, string>> = {
+  test: 'Test',
+  doc_section: 'Section',
+  prisma_model: 'Prisma',
+  config_entry: 'Config',
+};
+
+/**
+ * Builds the text that is embedded for a chunk: a header of bracketed facts followed by the code.
+ * The header lets a query like "refund endpoint of payments" match a method whose body never
+ * says "payments", and ties a method to the dependencies it can use.
+ *
+ * @example
+ * ```
+ * [File: src/payments/payments.controller.ts] [Path: payments controller]
+ * [Class: PaymentsController] [Decorators: @Controller('payments')] [Injects: PaymentsService]
+ * [Method: refund] [Decorators: @Post(':id/refund')] [Route: POST /payments/:id/refund]
+ * [Doc: Refunds a captured payment.]
+ * async refund(@Param('id') id: string) { ... }
+ * ```
+ */
+export function buildEmbeddingDocument(chunk: ProcessedChunk): string {
+  const meta = chunk.metadata;
+  const lines: string[] = [];
+
+  if (chunk.filePath) {
+    lines.push(`[File: ${toPosix(chunk.filePath)}] [Path: ${pathWords(chunk.filePath)}]`);
+  }
+
+  if (meta.className) {
+    const classDecorators = chunk.type === 'method' ? meta.classDecorators : meta.decorators;
+    lines.push(
+      header([
+        ['Class', meta.className],
+        ['Decorators', classDecorators?.join(', ')],
+        ['Injects', meta.injects?.join(', ')],
+      ]),
+    );
+  }
+
+  if (meta.methodName) {
+    lines.push(
+      header([
+        ['Method', meta.methodName],
+        ['Decorators', meta.decorators?.join(', ')],
+        ['Route', meta.httpRoute],
+      ]),
+    );
+  } else if (meta.symbolName) {
+    const name = meta.outline ? `${meta.outline} > ${meta.symbolName}` : meta.symbolName;
+    lines.push(header([[SYMBOL_LABELS[chunk.type] ?? meta.symbolKind ?? 'Symbol', name]]));
+  }
+
+  if (meta.summary) lines.push(`[Doc: ${meta.summary}]`);
+
+  return [...lines.filter(Boolean), chunk.content].join('\n');
+}
+
+// ==========================================
+// 🛠️ HELPERS
+// ==========================================
+
+function header(facts: [string, string | undefined][]): string {
+  return facts
+    .filter(([, value]) => !!value)
+    .map(([label, value]) => `[${label}: ${value}]`)
+    .join(' ');
+}
+
+/**
+ * 'src/payments/dto/refund-payment.dto.ts' -> 'payments dto refund payment'
+ */
+function pathWords(filePath: string): string {
+  const words = toPosix(filePath)
+    .split(/[/.\-_]+/)
+    .filter((word) => word && !NOISE_SEGMENTS.has(word));
+  return Array.from(new Set(words)).join(' ');
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexerService } from './indexer';
+import { RetrieverService } from './retriever';
+import { RetrievalEvaluator, loadGoldenSuite } from './evaluation';
+import { LocalHashEmbeddings } from '../llm/local-embeddings';
+
+describe('RetrievalEvaluator', () => {
+  const originalCwd = process.cwd();
+  const embeddings = new LocalHashEmbeddings({ dimensions: 64 });
+  let projectDir: string;
+  let evaluator: RetrievalEvaluator;
+
+  const write = (relativePath: string, content: string) => {
+    const target = path.join(projectDir, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+
+  beforeAll(async () => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'evaluation-'));
+    process.chdir(projectDir);
+
+    write(
+      'src/payments/payments.service.ts',
+      `export class PaymentsService {
+  createPaymentIntent(amount: number) {
+    if (amount <= 0) throw new Error('ERR_PAYMENT_42');
+    return { amount };
+  }
+}
+`,
+    );
+    write(
+      'src/orders/orders.service.ts',
+      `export class OrdersService {
+  cancelOrder(orderId: string) { return { orderId, status: 'cancelled' }; }
+}
+`,
+    );
+    write('src/common/slug.utils.ts', "export const slugify = (title: string) => title.toLowerCase();\n");
+
+    await new IndexerService(embeddings).indexProject();
+    evaluator = new RetrievalEvaluator(new RetrieverService(embeddings));
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should score recall@k, MRR and list the misses per query', async () => {
+    const report = await evaluator.evaluate(
+      {
+        queries: [
+          { query: 'ERR_PAYMENT_42', expected: ['PaymentsService.createPaymentIntent'] },
+          { query: 'cancelOrder', expected: ['src/orders/orders.service.ts#OrdersService.cancelOrder', 'slugify'] },
+          { query: 'kubernetes', expected: ['src/common/slug.utils.ts'] },
+        ],
+      },
+      { k: 3, mode: 'lexical' },
+    );
+
+    expect(report).toMatchObject({ k: 3, mode: 'lexical', queryCount: 3, perfectQueries: 1 });
+    expect(report.queries[0]).toMatchObject({ recall: 1, reciprocalRank: 1, firstRelevantRank: 1, misses: [] });
+    expect(report.queries[0].retrieved[0]).toBe('src/payments/payments.service.ts#PaymentsService.createPaymentIntent');
+    expect(report.queries[1]).toMatchObject({ recall: 0.5, reciprocalRank: 1, misses: ['slugify'] });
+    expect(report.queries[2]).toMatchObject({ recall: 0, reciprocalRank: 0, firstRelevantRank: null });
+    expect(report.recallAtK).toBe(0.5);
+    expect(report.mrr).toBe(0.667);
+  });
+
+  it('should reject golden queries without expected targets', () => {
+    const goldenPath = path.join(projectDir, 'golden.json');
+    fs.writeFileSync(goldenPath, JSON.stringify([{ query: 'refunds', expected: [] }]));
+    expect(() => loadGoldenSuite(goldenPath)).toThrow("Query #1 of");
+
+    fs.writeFileSync(goldenPath, JSON.stringify([{ query: 'refunds', expected: ['RefundsService'] }]));
+    expect(loadGoldenSuite(goldenPath).queries).toHaveLength(1);
+  });
+
+  it('should reject a k that is not a positive integer', () => {
+    const goldenPath = path.join(projectDir, 'golden.json');
+    const queries = [{ query: 'refunds', expected: ['RefundsService'] }];
+    for (const k of [0, -1, 2.5, '5']) {
+      fs.writeFileSync(goldenPath, JSON.stringify({ k, queries }));
+      expect(() => loadGoldenSuite(goldenPath)).toThrow("'k' of");
+    }
+    fs.writeFileSync(goldenPath, JSON.stringify({ k: 3, queries }));
+    expect(loadGoldenSuite(goldenPath).k).toBe(3);
+  });
+});
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import { RetrieverService, SearchMode } from './retriever';
+import { ProcessedChunk } from '../types';
+
+/**
+ * A query with the code expected to be retrieved for it.
+ * Each expected target is one of:
+ * - a file: `src/users/users.service.ts` (any chunk of the file counts);
+ * - a symbol: `UsersService.findOne`, `UsersService` or `slugify`;
+ * - a symbol in a file: `src/users/users.service.ts#UsersService.findOne`.
+ */
+export interface GoldenQuery {
+  query: string;
+  expected: string[];
+  mode?: SearchMode; // Overrides the suite mode for this query
+}
+
+/**
+ * A file of golden queries. A bare array of queries is accepted too.
+ *
+ * @example
+ * ```json
+ * {
+ *   "k": 5,
+ *   "mode": "hybrid",
+ *   "queries": [
+ *     { "query": "refund a payment", "expected": ["PaymentsService.refund"] },
+ *     { "query": "ERR_PAYMENT_42", "expected": ["src/payments/payments.service.ts"] }
+ *   ]
+ * }
+ * ```
+ */
+export interface GoldenSuite {
+  k?: number;
+  mode?: SearchMode;
+  queries: GoldenQuery[];
+}
+
+/**
+ * Result of one golden query.
+ */
+export interface QueryEvaluation {
+  query: string;
+  mode: SearchMode;
+  recall: number; // Share of the expected targets found in the top k
+  reciprocalRank: number; // 1 / rank of the first relevant result, 0 if none
+  firstRelevantRank: number | null;
+  misses: string[]; // Expected targets absent from the top k
+  retrieved: string[]; // Top k results, as `file#Symbol`
+}
+
+/**
+ * Aggregated scores of a run, stable enough to be diffed between runs (JSON).
+ */
+export interface EvaluationReport {
+  k: number;
+  mode: SearchMode;
+  queryCount: number;
+  recallAtK: number; // Mean recall over the queries
+  mrr: number; // Mean reciprocal rank
+  perfectQueries: number; // Queries whose expected targets were all found
+  queries: QueryEvaluation[];
+}
+
+export const DEFAULT_EVAL_K = 5;
+
+const SOURCE_EXTENSION = /\.(ts|tsx|js|jsx|json|ya?ml|md|prisma)$/;
+
+/**
+ * Loads and validates a golden queries file.
+ * @throws Error if the file is not valid JSON, `k` is not a positive integer or a query has no
+ * expected targets.
+ */
+export function loadGoldenSuite(filePath: string): GoldenSuite {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`❌ Invalid golden queries file ${filePath}: ${error.message}`);
+  }
+
+  const suite: GoldenSuite = Array.isArray(raw) ? { queries: raw } : (raw as GoldenSuite);
+  if (!Array.isArray(suite.queries) || suite.queries.length === 0) {
+    throw new Error(`❌ ${filePath} has no queries.`);
+  }
+  if (suite.k !== undefined && !(Number.isInteger(suite.k) && suite.k > 0)) {
+    throw new Error(`❌ 'k' of ${filePath} must be a positive integer (got ${JSON.stringify(suite.k)}).`);
+  }
+  suite.queries.forEach((q, i) => {
+    if (typeof q.query !== 'string' || !Array.isArray(q.expected) || q.expected.length === 0) {
+      throw new Error(`❌ Query #${i + 1} of ${filePath} needs a 'query' and a non-empty 'expected' list.`);
+    }
+  });
+  return suite;
+}
+
+/**
+ * The Retrieval Evaluator 📏
+ * Runs golden queries through `RetrieverService.query` and measures recall@k and MRR,
+ * so chunking, enrichment or embeddings changes can be compared from one run to the next.
+ */
+export class RetrievalEvaluator {
+  constructor(private readonly retriever: RetrieverService = new RetrieverService()) {}
+
+  /**
+   * Evaluates a suite. `options` override the `k` and `mode` of the suite.
+   */
+  public async evaluate(
+    suite: GoldenSuite,
+    options: { k?: number; mode?: SearchMode } = {},
+  ): Promise<EvaluationReport> {
+    const k = options.k ?? suite.k ?? DEFAULT_EVAL_K;
+    const mode = options.mode ?? suite.mode ?? 'hybrid';
+
+    const queries: QueryEvaluation[] = [];
+    for (const golden of suite.queries) {
+      queries.push(await this.evaluateQuery(golden, k, golden.mode ?? mode));
+    }
+
+    return {
+      k,
+      mode,
+      queryCount: queries.length,
+      recallAtK: round(mean(queries.map((q) => q.recall))),
+      mrr: round(mean(queries.map((q) => q.reciprocalRank))),
+      perfectQueries: queries.filter((q) => q.misses.length === 0).length,
+      queries,
+    };
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  private async evaluateQuery(golden: GoldenQuery, k: number, mode: SearchMode): Promise<QueryEvaluation> {
+    const chunks = (await this.retriever.query(golden.query, k, mode)).slice(0, k).map((r) => r.chunk);
+
+    const misses = golden.expected.filter((target) => !chunks.some((c) => matchesTarget(c, target)));
+    const firstRelevant = chunks.findIndex((c) => golden.expected.some((target) => matchesTarget(c, target)));
+
+    return {
+      query: golden.query,
+      mode,
+      recall: round((golden.expected.length - misses.length) / golden.expected.length),
+      reciprocalRank: firstRelevant === -1 ? 0 : round(1 / (firstRelevant + 1)),
+      firstRelevantRank: firstRelevant === -1 ? null : firstRelevant + 1,
+      misses,
+      retrieved: chunks.map(describeChunk),
+    };
+  }
+}
+
+// ==========================================
+// 🛠️ HELPERS
+// ==========================================
+
+/**
+ * Symbol names a chunk answers to, e.g. `UsersService.findOne` and `findOne` for a method.
+ */
+function symbolsOf(chunk: ProcessedChunk): string[] {
+  const { className, methodName, symbolName } = chunk.metadata;
+  if (className && methodName) return [`${className}.${methodName}`, methodName];
+  if (className) return [className];
+  return symbolName ? [symbolName] : [];
+}
+
+function matchesTarget(chunk: ProcessedChunk, target: string): boolean {
+  const [filePart, symbolPart] = target.includes('#') ? target.split('#') : [undefined, target];
+  const filePath = (chunk.filePath ?? '').split('\\').join('/');
+
+  if (filePart !== undefined) {
+    if (filePath !== filePart) return false;
+    return !symbolPart || symbolsOf(chunk).includes(symbolPart);
+  }
+  return isFileTarget(target) ? filePath === target : symbolsOf(chunk).includes(target);
+}
+
+/**
+ * Without '#', a target is a file when it has a folder or a source extension, otherwise a symbol.
+ */
+function isFileTarget(target: string): boolean {
+  return target.includes('/') || SOURCE_EXTENSION.test(target);
+}
+
+function describeChunk(chunk: ProcessedChunk): string {
+  const [symbol] = symbolsOf(chunk);
+  return symbol ? `${chunk.filePath}#${symbol}` : `${chunk.filePath}`;
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
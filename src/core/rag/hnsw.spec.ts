@@ -0,0 +1,91 @@
+import { HnswIndex } from './hnsw';
+import { cosineSimilarity } from './math';
+import { decodeVector, encodeVector } from './vector-codec';
+
+/**
+ * Deterministic pseudo-random vectors for reproducible recall measurements.
+ */
+const randomVectors = (count: number, dims: number, seed = 7): number[][] => {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dims }, next));
+};
+
+describe('HnswIndex', () => {
+  const dims = 32;
+  const vectors = randomVectors(1500, dims);
+
+  const bruteForce = (query: number[], k: number) =>
+    vectors
+      .map((v, i) => ({ id: `v${i}`, score: cosineSimilarity(query, v) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+      .map((h) => h.id);
+
+  const buildIndex = () => {
+    const index = new HnswIndex(dims);
+    vectors.forEach((v, i) => index.add(`v${i}`, v));
+    return index;
+  };
+
+  it('should reach high recall@10 compared to exact search', () => {
+    const index = buildIndex();
+    const queries = randomVectors(30, dims, 99);
+
+    let found = 0;
+    for (const query of queries) {
+      const expected = new Set(bruteForce(query, 10));
+      index.search(query, 10).forEach((hit) => expected.has(hit.id) && found++);
+    }
+    expect(found / (queries.length * 10)).toBeGreaterThan(0.9);
+  });
+
+  it('should never return removed vectors and compact tombstones', () => {
+    const index = buildIndex();
+    const query = vectors[3];
+    expect(index.search(query, 1)[0].id).toBe('v3');
+
+    index.remove('v3');
+    expect(index.search(query, 5).map((h) => h.id)).not.toContain('v3');
+    expect(index.size).toBe(vectors.length - 1);
+
+    for (let i = 0; i < 800; i++) index.remove(`v${i}`);
+    expect(index.needsCompaction).toBe(true);
+    index.compact();
+    expect(index.needsCompaction).toBe(false);
+    expect(index.size).toBe(vectors.length - 800);
+    expect(index.search(vectors[1000], 1)[0].id).toBe('v1000');
+  });
+
+  it('should survive a serialize/deserialize round trip', () => {
+    const index = buildIndex();
+    index.remove('v10');
+    const restored = HnswIndex.deserialize(index.serialize());
+
+    expect(restored.size).toBe(index.size);
+    expect(restored.search(vectors[42], 5)).toEqual(index.search(vectors[42], 5));
+  });
+
+  it('should reject vectors of a different dimensionality', () => {
+    const index = new HnswIndex(4);
+    expect(() => index.add('a', [1, 2, 3])).toThrow('Vectors must have the same dimensionality');
+  });
+});
+
+describe('vector codec', () => {
+  const vector = [0.12, -0.5, 0.33, 0, 0.9];
+
+  it('should round-trip Float32 BLOBs', () => {
+    const decoded = Array.from(decodeVector(encodeVector(vector, 'f32'), 'f32'));
+    decoded.forEach((v, i) => expect(v).toBeCloseTo(vector[i], 6));
+  });
+
+  it('should quantize to int8 with negligible similarity loss', () => {
+    const blob = encodeVector(vector, 'i8');
+    expect(blob.length).toBe(4 + vector.length);
+    expect(cosineSimilarity(vector, decodeVector(blob, 'i8'))).toBeGreaterThan(0.999);
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Hierarchical Navigable Small World (HNSW) index 🕸️
+ * In-process approximate nearest-neighbour search over cosine similarity.
+ *
+ * Vectors are normalised on insert, so similarity is a plain dot product.
+ * Deletions are tombstones: removed nodes still route searches but are never
+ * returned. Call `compact()` when `needsCompaction` becomes true.
+ */
+
+export interface HnswOptions {
+  /** Max neighbours per node on upper layers (layer 0 keeps 2*M). Default: 16. */
+  M?: number;
+  /** Candidate list size while inserting. Higher = better recall, slower builds. Default: 100. */
+  efConstruction?: number;
+  /** Candidate list size while searching. Default: 64. */
+  efSearch?: number;
+  /** Seed for level generation, so builds are reproducible. */
+  seed?: number;
+}
+
+export interface HnswHit {
+  id: string;
+  score: number;
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  level: number;
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+interface Candidate {
+  node: number;
+  score: number;
+}
+
+const FORMAT_VERSION = 1;
+
+/**
+ * Small deterministic PRNG (mulberry32).
+ */
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const out = new Float32Array(vector.length);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  for (let i = 0; i < vector.length; i++) {
+    out[i] = norm === 0 ? 0 : vector[i] / norm;
+  }
+  return out;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Inserts into an array kept sorted by score (ascending or descending).
+ */
+function insertSorted(list: Candidate[], item: Candidate, descending: boolean) {
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    const before = descending
+      ? list[mid].score >= item.score
+      : list[mid].score <= item.score;
+    if (before) lo = mid + 1;
+    else hi = mid;
+  }
+  list.splice(lo, 0, item);
+}
+
+export class HnswIndex {
+  public efSearch: number;
+
+  private nodes: HnswNode[] = [];
+  private idToNode = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+
+  private readonly M: number;
+  private readonly maxM0: number;
+  private readonly efConstruction: number;
+  private readonly levelMultiplier: number;
+  private readonly seed: number;
+  private random: () => number;
+
+  constructor(
+    public readonly dimensions: number,
+    options: HnswOptions = {},
+  ) {
+    this.M = options.M ?? 16;
+    this.maxM0 = this.M * 2;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.efSearch = options.efSearch ?? 64;
+    this.levelMultiplier = 1 / Math.log(this.M);
+    this.seed = options.seed ?? 42;
+    this.random = createRng(this.seed);
+  }
+
+  /** Number of live (non-deleted) vectors. */
+  public get size(): number {
+    return this.nodes.length - this.deletedCount;
+  }
+
+  /** True when tombstones outnumber live nodes and a rebuild pays off. */
+  public get needsCompaction(): boolean {
+    return this.deletedCount > 0 && this.deletedCount >= this.size;
+  }
+
+  public has(id: string): boolean {
+    return this.idToNode.has(id);
+  }
+
+  /**
+   * Inserts a vector. Re-adding an existing id replaces the previous vector.
+   * @throws Error if the vector has the wrong dimensionality.
+   */
+  public add(id: string, vector: ArrayLike<number>) {
+    if (vector.length !== this.dimensions) {
+      throw new Error('Vectors must have the same dimensionality');
+    }
+    if (this.idToNode.has(id)) this.remove(id);
+
+    const q = normalize(vector);
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+    const index = this.nodes.length;
+    this.nodes.push({
+      id,
+      vector: q,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false,
+    });
+    this.idToNode.set(id, index);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+      return;
+    }
+
+    // 1. Greedy descent through the layers above the new node's level
+    let ep = this.entryPoint;
+    for (let l = this.maxLevel; l > level; l--) ep = this.greedy(q, ep, l);
+
+    // 2. Connect the node on every layer it belongs to
+    let entryPoints = [ep];
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(q, entryPoints, this.efConstruction, l);
+      const maxConnections = l === 0 ? this.maxM0 : this.M;
+      const selected = candidates.slice(0, this.M).map((c) => c.node);
+      this.nodes[index].neighbors[l] = selected;
+
+      for (const neighbor of selected) {
+        const list = this.nodes[neighbor].neighbors[l];
+        list.push(index);
+        if (list.length > maxConnections) {
+          this.nodes[neighbor].neighbors[l] = this.prune(neighbor, list, maxConnections);
+        }
+      }
+      entryPoints = candidates.map((c) => c.node);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = index;
+    }
+  }
+
+  /**
+   * Marks a vector as deleted. Returns false if the id is unknown.
+   */
+  public remove(id: string): boolean {
+    const index = this.idToNode.get(id);
+    if (index === undefined) return false;
+    this.nodes[index].deleted = true;
+    this.idToNode.delete(id);
+    this.deletedCount++;
+    return true;
+  }
+
+  /**
+   * Returns the `k` most similar live vectors (cosine similarity, descending).
+   */
+  public search(query: ArrayLike<number>, k: number, ef?: number): HnswHit[] {
+    if (query.length !== this.dimensions) {
+      throw new Error('Vectors must have the same dimensionality');
+    }
+    if (this.entryPoint === -1 || this.size === 0) return [];
+
+    const q = normalize(query);
+    let ep = this.entryPoint;
+    for (let l = this.maxLevel; l > 0; l--) ep = this.greedy(q, ep, l);
+
+    // Oversample to compensate for tombstones in the candidate list
+    const width = Math.max(ef ?? this.efSearch, k) + Math.min(this.deletedCount, k);
+    return this.searchLayer(q, [ep], width, 0)
+      .filter((c) => !this.nodes[c.node].deleted)
+      .slice(0, k)
+      .map((c) => ({ id: this.nodes[c.node].id, score: c.score }));
+  }
+
+  /**
+   * Rebuilds the graph from live nodes only, dropping tombstones.
+   */
+  public compact() {
+    const live = this.nodes.filter((n) => !n.deleted);
+    this.nodes = [];
+    this.idToNode.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.deletedCount = 0;
+    this.random = createRng(this.seed);
+    live.forEach((n) => this.add(n.id, n.vector));
+  }
+
+  /**
+   * Binary format: [uint32 header length][JSON header][float32 vectors].
+   */
+  public serialize(): Buffer {
+    const header = Buffer.from(
+      JSON.stringify({
+        version: FORMAT_VERSION,
+        dimensions: this.dimensions,
+        M: this.M,
+        efConstruction: this.efConstruction,
+        efSearch: this.efSearch,
+        seed: this.seed,
+        entryPoint: this.entryPoint,
+        maxLevel: this.maxLevel,
+        nodes: this.nodes.map((n) => [n.id, n.level, n.neighbors, n.deleted ? 1 : 0]),
+      }),
+      'utf-8',
+    );
+
+    const vectors = new Float32Array(this.nodes.length * this.dimensions);
+    this.nodes.forEach((n, i) => vectors.set(n.vector, i * this.dimensions));
+
+    const lengthPrefix = Buffer.alloc(4);
+    lengthPrefix.writeUInt32LE(header.length, 0);
+    return Buffer.concat([
+      lengthPrefix,
+      header,
+      Buffer.from(vectors.buffer, vectors.byteOffset, vectors.byteLength),
+    ]);
+  }
+
+  /**
+   * Restores an index produced by `serialize()`.
+   * @throws Error if the buffer is not a compatible index.
+   */
+  public static deserialize(buffer: Buffer): HnswIndex {
+    const headerLength = buffer.readUInt32LE(0);
+    const header = JSON.parse(buffer.subarray(4, 4 + headerLength).toString('utf-8'));
+    if (header.version !== FORMAT_VERSION) {
+      throw new Error(`Unsupported HNSW index version: ${header.version}`);
+    }
+
+    const index = new HnswIndex(header.dimensions, {
+      M: header.M,
+      efConstruction: header.efConstruction,
+      efSearch: header.efSearch,
+      seed: header.seed,
+    });
+
+    // Copy into a fresh (aligned) buffer before viewing it as Float32
+    const raw = Uint8Array.prototype.slice.call(buffer.subarray(4 + headerLength));
+    const vectors = new Float32Array(raw.buffer, raw.byteOffset, raw.byteLength / 4);
+
+    header.nodes.forEach(
+      ([id, level, neighbors, deleted]: [string, number, number[][], number], i: number) => {
+        index.nodes.push({
+          id,
+          level,
+          neighbors,
+          deleted: deleted === 1,
+          vector: vectors.subarray(i * index.dimensions, (i + 1) * index.dimensions),
+        });
+        if (deleted === 1) index.deletedCount++;
+        else index.idToNode.set(id, i);
+      },
+    );
+    index.entryPoint = header.entryPoint;
+    index.maxLevel = header.maxLevel;
+    return index;
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  /**
+   * Walks a single layer towards the query, one best neighbour at a time.
+   */
+  private greedy(q: Float32Array, entry: number, level: number): number {
+    let current = entry;
+    let best = dot(q, this.nodes[current].vector);
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighbor of this.nodes[current].neighbors[level] || []) {
+        const score = dot(q, this.nodes[neighbor].vector);
+        if (score > best) {
+          best = score;
+          current = neighbor;
+          improved = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Beam search on one layer. Returns up to `ef` nodes sorted by score (descending).
+   */
+  private searchLayer(
+    q: Float32Array,
+    entryPoints: number[],
+    ef: number,
+    level: number,
+  ): Candidate[] {
+    const visited = new Set<number>(entryPoints);
+    const candidates: Candidate[] = []; // ascending: best at the end
+    const results: Candidate[] = []; // descending: worst at the end
+
+    for (const ep of entryPoints) {
+      const item = { node: ep, score: dot(q, this.nodes[ep].vector) };
+      insertSorted(candidates, item, false);
+      insertSorted(results, item, true);
+    }
+    results.splice(ef);
+
+    while (candidates.length > 0) {
+      const current = candidates.pop()!;
+      const worst = results[results.length - 1];
+      if (results.length >= ef && current.score < worst.score) break;
+
+      for (const neighbor of this.nodes[current.node].neighbors[level] || []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const score = dot(q, this.nodes[neighbor].vector);
+        if (results.length < ef || score > results[results.length - 1].score) {
+          const item = { node: neighbor, score };
+          insertSorted(candidates, item, false);
+          insertSorted(results, item, true);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Keeps the `max` neighbours closest to `node`.
+   */
+  private prune(node: number, neighbors: number[], max: number): number[] {
+    const base = this.nodes[node].vector;
+    return neighbors
+      .map((n) => ({ n, score: dot(base, this.nodes[n].vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, max)
+      .map((x) => x.n);
+  }
+}
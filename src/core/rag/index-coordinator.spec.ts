@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexCoordinator, INDEX_LOCK_FILE } from './index-coordinator';
+import { IndexerService } from './indexer';
+import { LLMProvider } from '../llm/provider';
+import { AgentDB } from '../state/db';
+
+describe('IndexCoordinator', () => {
+  const originalCwd = process.cwd();
+  let projectDir: string;
+  let coordinator: IndexCoordinator;
+
+  const write = (relativePath: string, content: string) => {
+    const target = path.join(projectDir, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+  const indexedFiles = () =>
+    (AgentDB.getInstance().prepare('SELECT path FROM file_registry ORDER BY path').all() as { path: string }[]).map(
+      (row) => row.path.split(path.sep).join('/'),
+    );
+  const chunkContents = (filePath: string) =>
+    (AgentDB.getInstance().prepare('SELECT content FROM code_chunks WHERE file_path = ?').all(filePath) as {
+      content: string;
+    }[]).map((row) => row.content);
+
+  beforeAll(async () => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coordinator-'));
+    process.chdir(projectDir);
+    LLMProvider.configure({ embeddings: { provider: 'local' } });
+
+    write('src/users/users.service.ts', 'export class UsersService { findAll() { return []; } }\n');
+    write('src/orders/orders.service.ts', 'export class OrdersService { findAll() { return []; } }\n');
+
+    coordinator = IndexCoordinator.getInstance();
+    await coordinator.indexAll();
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should re-index only the queued paths once the writes settle', async () => {
+    write('src/users/users.service.ts', 'export class UsersService { findActive() { return []; } }\n');
+    write('src/orders/orders.service.ts', 'export class OrdersService { cancel() { return []; } }\n');
+    write('src/users/users.constants.ts', "export const USERS = 'users';\n");
+
+    coordinator.enqueue(['src/users/users.service.ts', 'src/users/users.constants.ts']);
+    coordinator.enqueue(['src/users/users.service.ts']); // Debounced into the same run
+    expect(coordinator.getStatus().pending.sort()).toEqual(['src/users/users.constants.ts', 'src/users/users.service.ts']);
+
+    await coordinator.flush();
+
+    expect(indexedFiles()).toContain('src/users/users.constants.ts');
+    expect(chunkContents('src/users/users.service.ts').join('\n')).toContain('findActive');
+    // Changed on disk but never queued: left to the next full run
+    expect(chunkContents('src/orders/orders.service.ts').join('\n')).not.toContain('cancel');
+
+    expect(coordinator.getStatus()).toMatchObject({
+      running: null,
+      pending: [],
+      lastRun: { kind: 'paths', indexed: 2, removed: 0 },
+    });
+  });
+
+  it('should drop queued files that were deleted', async () => {
+    fs.rmSync(path.join(projectDir, 'src/users/users.constants.ts'));
+    coordinator.enqueue(['src/users/users.constants.ts']);
+    await coordinator.flush();
+
+    expect(indexedFiles()).not.toContain('src/users/users.constants.ts');
+    expect(coordinator.getStatus().lastRun).toMatchObject({ kind: 'paths', indexed: 0, removed: 1 });
+  });
+
+  it('should never run two indexing jobs at the same time', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const track = <T>(run: () => Promise<T>) => async () => {
+      maxActive = Math.max(maxActive, ++active);
+      try {
+        return await run();
+      } finally {
+        active--;
+      }
+    };
+    const indexProject = jest.spyOn(IndexerService.prototype, 'indexProject');
+    const indexPaths = jest.spyOn(IndexerService.prototype, 'indexPaths');
+    indexProject.mockImplementation(track(() => new Promise((r) => setTimeout(() => r({ indexed: 0, removed: 0 }), 50))));
+    indexPaths.mockImplementation(track(() => new Promise((r) => setTimeout(() => r({ indexed: 1, removed: 0 }), 50))));
+
+    try {
+      coordinator.enqueue(['src/orders/orders.service.ts']);
+      await Promise.all([coordinator.indexAll(), coordinator.flush(), coordinator.indexAll()]);
+    } finally {
+      indexProject.mockRestore();
+      indexPaths.mockRestore();
+    }
+    expect(maxActive).toBe(1);
+    expect(fs.existsSync(path.join(projectDir, '.agent', INDEX_LOCK_FILE))).toBe(false);
+  });
+
+  it('should wait for a live lock holder and take over a dead one', async () => {
+    const lockPath = path.join(projectDir, '.agent', INDEX_LOCK_FILE);
+    const timeout = IndexCoordinator.LOCK_TIMEOUT_MS;
+    IndexCoordinator.LOCK_TIMEOUT_MS = 300;
+    try {
+      // The parent process (Jest) is alive: the run must wait, then give up
+      fs.writeFileSync(lockPath, JSON.stringify({ kind: 'full', pid: process.ppid, startedAt: new Date().toISOString() }));
+      expect(coordinator.getStatus().running).toMatchObject({ kind: 'full', pid: process.ppid });
+      await expect(coordinator.indexAll()).rejects.toThrow(`Indexing is locked by process ${process.ppid}`);
+      expect(coordinator.getStatus().lastRun?.error).toBeUndefined(); // Never started
+
+      // A crashed process: its lock is stale
+      const deadPid = 2 ** 22 + 1; // Above the Linux pid_max
+      fs.writeFileSync(lockPath, JSON.stringify({ kind: 'paths', pid: deadPid, startedAt: new Date().toISOString() }));
+      expect(coordinator.getStatus().running).toBeNull();
+      await expect(coordinator.indexAll()).resolves.toMatchObject({ indexed: 1 }); // orders.service.ts
+    } finally {
+      IndexCoordinator.LOCK_TIMEOUT_MS = timeout;
+    }
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it('should not take over a lock that a live run took after it was read as stale', async () => {
+    const lockPath = path.join(projectDir, '.agent', INDEX_LOCK_FILE);
+    const liveLock = JSON.stringify({ kind: 'full', pid: process.ppid, startedAt: new Date().toISOString() });
+    const deadPid = 2 ** 22 + 1;
+    // Another process takes over the dead lock right after we read it
+    const isAlive = jest.spyOn(IndexCoordinator.prototype as any, 'isAlive').mockImplementation((pid) => {
+      if (pid !== deadPid) return true;
+      fs.writeFileSync(lockPath, liveLock);
+      return false;
+    });
+    const timeout = IndexCoordinator.LOCK_TIMEOUT_MS;
+    IndexCoordinator.LOCK_TIMEOUT_MS = 300;
+    try {
+      fs.writeFileSync(lockPath, JSON.stringify({ kind: 'paths', pid: deadPid, startedAt: new Date().toISOString() }));
+      await expect(coordinator.indexAll()).rejects.toThrow(`Indexing is locked by process ${process.ppid}`);
+      expect(fs.readFileSync(lockPath, 'utf-8')).toBe(liveLock);
+      expect(fs.readdirSync(path.dirname(lockPath)).filter((f) => f.endsWith('.stale'))).toEqual([]);
+    } finally {
+      isAlive.mockRestore();
+      IndexCoordinator.LOCK_TIMEOUT_MS = timeout;
+      fs.rmSync(lockPath, { force: true });
+    }
+  });
+
+  it('should wait for a lock being written and take over one left half-written long ago', async () => {
+    const lockPath = path.join(projectDir, '.agent', INDEX_LOCK_FILE);
+    const timeout = IndexCoordinator.LOCK_TIMEOUT_MS;
+    IndexCoordinator.LOCK_TIMEOUT_MS = 300;
+    try {
+      // Another process created the lock and has not written its job yet
+      fs.writeFileSync(lockPath, '');
+      await expect(coordinator.indexAll()).rejects.toThrow('Indexing is locked by process ?');
+      expect(fs.readFileSync(lockPath, 'utf-8')).toBe('');
+
+      fs.writeFileSync(lockPath, '{"kind":"fu');
+      const aMinuteAgo = new Date(Date.now() - 60_000);
+      fs.utimesSync(lockPath, aMinuteAgo, aMinuteAgo);
+      await expect(coordinator.indexAll()).resolves.toBeDefined();
+    } finally {
+      IndexCoordinator.LOCK_TIMEOUT_MS = timeout;
+      fs.rmSync(lockPath, { force: true });
+    }
+    expect(fs.readdirSync(path.dirname(lockPath)).filter((f) => f.startsWith(INDEX_LOCK_FILE))).toEqual([]);
+  });
+
+  it('should leave a lock taken over by another process in place', async () => {
+    const lockPath = path.join(projectDir, '.agent', INDEX_LOCK_FILE);
+    const otherLock = JSON.stringify({ kind: 'full', pid: process.ppid, startedAt: new Date().toISOString() });
+    await coordinator.runExclusive('paths', async () => {
+      fs.writeFileSync(lockPath, otherLock); // Our lock was wrongly taken over
+      return { indexed: 0, removed: 0 };
+    });
+    expect(fs.readFileSync(lockPath, 'utf-8')).toBe(otherLock);
+    fs.rmSync(lockPath);
+  });
+
+  it('should silence the indexer logs when not verbose', async () => {
+    const consoleLog = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    try {
+      coordinator.setVerbose(false);
+      write('src/orders/orders.service.ts', 'export class OrdersService { archive() { return []; } }\n');
+      coordinator.enqueue(['src/orders/orders.service.ts']);
+      await coordinator.flush();
+      expect(consoleLog).not.toHaveBeenCalled();
+    } finally {
+      coordinator.setVerbose(true);
+      consoleLog.mockRestore();
+    }
+    expect(chunkContents('src/orders/orders.service.ts').join('\n')).toContain('archive');
+  });
+});
@@ -0,0 +1,395 @@
+import Database from 'better-sqlite3';
+import * as path from 'path';
+import * as fs from 'fs';
+import { AgentDB } from '../state/db';
+import { IndexerService, IndexProgress, IndexRunResult } from './indexer';
+
+export type IndexJobKind = 'full' | 'paths' | 'import';
+
+/**
+ * The job holding the index lock, as written in `.agent/index.lock`.
+ */
+export interface RunningIndexJob {
+  kind: IndexJobKind;
+  pid: number;
+  startedAt: string; // ISO date
+  paths?: string[]; // 'paths' jobs only
+  progress?: IndexProgress;
+}
+
+/**
+ * A finished run, from the `index_runs` table.
+ */
+export interface IndexRunRecord extends IndexRunResult {
+  kind: IndexJobKind;
+  startedAt: string;
+  finishedAt: string;
+  error?: string;
+}
+
+/**
+ * What the index is doing, for the agent (`index_status`) and the CLI (`gen index --status`).
+ */
+export interface IndexStatus {
+  running: RunningIndexJob | null; // Possibly from another process (CLI, watcher)
+  pending: string[]; // Changed paths waiting for the next run
+  lastRun: IndexRunRecord | null;
+}
+
+/**
+ * File name of the lock inside the `.agent` folder.
+ */
+export const INDEX_LOCK_FILE = 'index.lock';
+
+// Runs kept in the `index_runs` history
+const MAX_RUN_HISTORY = 20;
+const LOCK_POLL_MS = 250;
+// An unreadable lock younger than this is being written, not left by a crash
+const LOCK_WRITE_GRACE_MS = 5000;
+
+/**
+ * The Index Coordinator 🚦
+ * The single entry point for indexing. Every run goes through one lock, so the `indexer`
+ * node, `refresh_project_index`, the writes of the agent and the CLI never scan, embed or
+ * write `memory.db` at the same time.
+ *
+ * - In-process, runs are chained one after the other.
+ * - Across processes, `.agent/index.lock` holds the running job (pid, kind, progress).
+ *   Locks left by a dead process are taken over.
+ * - Written files are queued in the `index_queue` table and re-indexed together once the
+ *   writes settle (debounce). The queue is persistent: paths left by a crash or an early exit
+ *   are picked up by the next run.
+ */
+export class IndexCoordinator {
+  private static instance: IndexCoordinator;
+
+  /** Quiet period after the last write before the queued paths are re-indexed. */
+  public static DEBOUNCE_MS = 500;
+  /** How long a run waits for the lock held by another process. */
+  public static LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+  private db: Database.Database;
+  private readonly lockPath: string;
+  private tail: Promise<unknown> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+  private verbose = true;
+
+  private constructor() {
+    this.db = AgentDB.getInstance();
+    this.lockPath = path.join(path.dirname(this.db.name), INDEX_LOCK_FILE);
+  }
+
+  public static getInstance(): IndexCoordinator {
+    if (!this.instance) {
+      this.instance = new IndexCoordinator();
+    }
+    return this.instance;
+  }
+
+  /**
+   * Turns the progress logs of the indexing runs on or off (e.g. `gen watch` prints one line
+   * per batch instead). Lock messages, warnings and errors are always printed.
+   */
+  public setVerbose(verbose: boolean) {
+    this.verbose = verbose;
+  }
+
+  /**
+   * Queues changed (or deleted) files and schedules their re-indexing once the writes settle.
+   * * @param paths - Paths relative to the project root (or absolute).
+   */
+  public enqueue(paths: string[]) {
+    const insert = this.db.prepare(
+      'INSERT INTO index_queue (path, enqueued_at) VALUES (?, ?) ON CONFLICT(path) DO UPDATE SET enqueued_at = excluded.enqueued_at',
+    );
+    const now = Date.now();
+    const insertMany = this.db.transaction((relativePaths: string[]) => {
+      relativePaths.forEach((p) => insert.run(p, now));
+    });
+    insertMany(paths.map((p) => path.relative(process.cwd(), path.resolve(p))));
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch((err) => console.error(`❌ Background re-indexing failed: ${err.message}`));
+    }, IndexCoordinator.DEBOUNCE_MS);
+    // Never keep the process alive for it: the queue survives and the next run catches up
+    this.timer.unref();
+  }
+
+  /**
+   * Re-indexes the queued paths now (and whatever gets queued meanwhile).
+   * @returns What the run changed, or null when the queue was empty.
+   */
+  public async flush(): Promise<IndexRunResult | null> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pendingRows().length === 0) return null;
+    return this.runExclusive('paths', async (indexer, job) => {
+      let result: IndexRunResult = { indexed: 0, removed: 0 };
+      // Writes made during a run are queued again: drain until the queue is empty
+      for (let pending = this.pendingRows(); pending.length > 0; pending = this.pendingRows()) {
+        job.paths = pending.map((row) => row.path);
+        this.writeLock(job);
+
+        const batch = await indexer.indexPaths(job.paths);
+        result = { indexed: result.indexed + batch.indexed, removed: result.removed + batch.removed };
+        this.dequeue(pending);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Full incremental run (scan + changed files). It also covers every queued path.
+   * * @param roots - Optional override of the configured source roots.
+   */
+  public async indexAll(roots?: string | string[]): Promise<IndexRunResult> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    return this.runExclusive('full', async (indexer) => {
+      const pending = this.pendingRows();
+      const result = await indexer.indexProject(roots);
+      // The scan saw the latest version of these files (a custom `roots` may not cover them)
+      if (roots === undefined) this.dequeue(pending);
+      return result;
+    });
+  }
+
+  /**
+   * Current job (from any process), queued paths and last finished run.
+   */
+  public getStatus(): IndexStatus {
+    const holder = this.readLock();
+    const lastRun = this.db
+      .prepare(
+        'SELECT kind, started_at, finished_at, indexed, removed, error FROM index_runs ORDER BY id DESC LIMIT 1',
+      )
+      .get() as
+      | { kind: IndexJobKind; started_at: number; finished_at: number; indexed: number; removed: number; error: string | null }
+      | undefined;
+
+    return {
+      running: holder && this.isAlive(holder.pid) ? holder : null,
+      pending: this.pendingRows().map((row) => row.path),
+      lastRun: lastRun
+        ? {
+            kind: lastRun.kind,
+            startedAt: new Date(lastRun.started_at).toISOString(),
+            finishedAt: new Date(lastRun.finished_at).toISOString(),
+            indexed: lastRun.indexed,
+            removed: lastRun.removed,
+            ...(lastRun.error ? { error: lastRun.error } : {}),
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Runs `work` once every previous run of this process is over and the lock file is ours,
+   * then records the run in `index_runs`. Anything writing the index must go through it
+   * (e.g. snapshot imports).
+   */
+  public runExclusive(
+    kind: IndexJobKind,
+    work: (indexer: IndexerService, job: RunningIndexJob) => Promise<IndexRunResult>,
+  ): Promise<IndexRunResult> {
+    const run = this.tail.then(async () => {
+      const job: RunningIndexJob = { kind, pid: process.pid, startedAt: new Date().toISOString() };
+      await this.acquireLock(job);
+
+      const indexer = new IndexerService(
+        undefined,
+        (progress) => {
+          job.progress = progress;
+          this.writeLock(job);
+        },
+        this.verbose,
+      );
+      try {
+        const result = await work(indexer, job);
+        this.recordRun(job, result);
+        return result;
+      } catch (error: any) {
+        this.recordRun(job, { indexed: 0, removed: 0 }, error.message);
+        throw error;
+      } finally {
+        // Never remove a lock taken over by another process meanwhile
+        if (this.ownsLock(job)) fs.rmSync(this.lockPath, { force: true });
+      }
+    });
+    // A failed run must not block the next ones
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  /**
+   * Waits for the lock file, taking it over when its process is gone.
+   * @throws Error if another process keeps it longer than `LOCK_TIMEOUT_MS`.
+   */
+  private async acquireLock(job: RunningIndexJob) {
+    const deadline = Date.now() + IndexCoordinator.LOCK_TIMEOUT_MS;
+    let announced = false;
+
+    while (!this.tryLock(job)) {
+      const holder = this.readLock();
+      if (Date.now() > deadline) {
+        throw new Error(`Indexing is locked by process ${holder?.pid ?? '?'} (${this.lockPath}).`);
+      }
+      if (!announced) {
+        console.log(`⏳ Waiting for the ${holder?.kind ?? ''} indexing run of process ${holder?.pid ?? '?'}...`);
+        announced = true;
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+    }
+  }
+
+  private tryLock(job: RunningIndexJob): boolean {
+    if (this.createLock(job)) return true;
+
+    const staleText = this.readLockText();
+    if (staleText === null) return false; // Released meanwhile: retried on the next poll
+    const holder = this.parseLock(staleText);
+    // Runs of this process are chained, so a lock with our pid is a leftover too
+    if (holder && holder.pid !== process.pid && this.isAlive(holder.pid)) return false;
+    if (!holder && !this.isOldLock()) return false;
+
+    // Claim the stale lock by moving it away: only one process can move a given file, so two
+    // processes seeing the same dead holder never both remove it
+    const claimedPath = `${this.lockPath}.${process.pid}.stale`;
+    try {
+      fs.renameSync(this.lockPath, claimedPath);
+    } catch {
+      return false; // Another process claimed it first
+    }
+    const claimedText = fs.readFileSync(claimedPath, 'utf-8');
+    if (claimedText !== staleText) {
+      // A live run locked the index after we read the stale lock: put its lock back
+      try {
+        fs.linkSync(claimedPath, this.lockPath);
+      } catch {
+        // A newer lock is already in place
+      }
+      fs.rmSync(claimedPath, { force: true });
+      return false;
+    }
+    fs.rmSync(claimedPath, { force: true });
+
+    console.log(`🔓 Taking over a stale index lock${holder ? ` (process ${holder.pid})` : ''}.`);
+    return this.createLock(job);
+  }
+
+  /**
+   * Creates the lock file, unless it exists. The job is written to a temporary file first and
+   * linked into place, so other processes never read a half-written lock.
+   */
+  private createLock(job: RunningIndexJob): boolean {
+    const tmpPath = this.writeTempLock(job);
+    try {
+      fs.linkSync(tmpPath, this.lockPath);
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error;
+      return false;
+    } finally {
+      fs.rmSync(tmpPath, { force: true });
+    }
+  }
+
+  /**
+   * Rewrites our lock (progress updates) by renaming a temporary file over it.
+   */
+  private writeLock(job: RunningIndexJob) {
+    if (!this.ownsLock(job)) return;
+    fs.renameSync(this.writeTempLock(job), this.lockPath);
+  }
+
+  private writeTempLock(job: RunningIndexJob): string {
+    const tmpPath = `${this.lockPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(job));
+    return tmpPath;
+  }
+
+  private ownsLock(job: RunningIndexJob): boolean {
+    const holder = this.readLock();
+    return holder?.pid === job.pid && holder.startedAt === job.startedAt;
+  }
+
+  /**
+   * Whether the lock file was last written long enough ago to be left by a crash.
+   */
+  private isOldLock(): boolean {
+    try {
+      return Date.now() - fs.statSync(this.lockPath).mtimeMs > LOCK_WRITE_GRACE_MS;
+    } catch {
+      return false; // Released meanwhile
+    }
+  }
+
+  private readLock(): RunningIndexJob | null {
+    const text = this.readLockText();
+    return text === null ? null : this.parseLock(text);
+  }
+
+  private readLockText(): string | null {
+    try {
+      return fs.readFileSync(this.lockPath, 'utf-8');
+    } catch {
+      return null; // No lock
+    }
+  }
+
+  private parseLock(text: string): RunningIndexJob | null {
+    try {
+      return JSON.parse(text) as RunningIndexJob;
+    } catch {
+      return null; // Left half-written by a crash, or by an older version
+    }
+  }
+
+  private isAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0); // Signal 0 only checks that the process exists
+      return true;
+    } catch (error: any) {
+      return error.code === 'EPERM';
+    }
+  }
+
+  private pendingRows(): { path: string; enqueued_at: number }[] {
+    return this.db.prepare('SELECT path, enqueued_at FROM index_queue ORDER BY enqueued_at, path').all() as {
+      path: string;
+      enqueued_at: number;
+    }[];
+  }
+
+  /**
+   * Removes indexed rows, unless the path was written again since it was read.
+   */
+  private dequeue(rows: { path: string; enqueued_at: number }[]) {
+    const remove = this.db.prepare('DELETE FROM index_queue WHERE path = ? AND enqueued_at <= ?');
+    const removeMany = this.db.transaction((items: { path: string; enqueued_at: number }[]) => {
+      items.forEach((row) => remove.run(row.path, row.enqueued_at));
+    });
+    removeMany(rows);
+  }
+
+  private recordRun(job: RunningIndexJob, result: IndexRunResult, error?: string) {
+    this.db
+      .prepare(
+        'INSERT INTO index_runs (kind, started_at, finished_at, indexed, removed, error) VALUES (?, ?, ?, ?, ?, ?)',
+      )
+      .run(job.kind, Date.parse(job.startedAt), Date.now(), result.indexed, result.removed, error ?? null);
+    this.db
+      .prepare('DELETE FROM index_runs WHERE id NOT IN (SELECT id FROM index_runs ORDER BY id DESC LIMIT ?)')
+      .run(MAX_RUN_HISTORY);
+  }
+}
@@ -0,0 +1,88 @@
+import Database from 'better-sqlite3';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import * as path from 'path';
+import * as fs from 'fs';
+import { embeddingsModelId } from '../llm/provider';
+
+/**
+ * What produced a vector. Vectors are only comparable when all three match.
+ */
+export interface EmbeddingStamp {
+  model: string; // e.g. 'text-embedding-004', 'local-hash-3gram'
+  dimensions: number;
+  enrichmentVersion: number; // See rag/embedding-document.ts
+}
+
+/**
+ * Summary of the index, written next to `memory.db` after every indexing run.
+ */
+export interface IndexManifest extends EmbeddingStamp {
+  chunkCount: number;
+  updatedAt: string; // ISO date
+}
+
+/**
+ * File name of the manifest inside the `.agent` folder.
+ */
+export const INDEX_MANIFEST_FILE = 'index-manifest.json';
+
+/**
+ * Reads the manifest of the index stored in `dbDir`, or null when there is none (or it is unreadable).
+ */
+export function readIndexManifest(dbDir: string): IndexManifest | null {
+  const manifestPath = path.join(dbDir, INDEX_MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as IndexManifest;
+  } catch {
+    console.warn(`⚠️ Could not parse ${manifestPath}, it will be rewritten.`);
+    return null;
+  }
+}
+
+/**
+ * Writes the manifest of the index stored in `dbDir`.
+ */
+export function writeIndexManifest(dbDir: string, manifest: IndexManifest) {
+  fs.writeFileSync(path.join(dbDir, INDEX_MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+}
+
+// Dimensionalities measured with a probe embedding in this process, by model id
+const probedDimensions = new Map<string, number>();
+
+/**
+ * Dimensionality of the vectors of an embeddings model, avoiding a (billable, networked)
+ * embedding call whenever possible. In order:
+ * 1. the `dimensions` declared by the model (option of `LocalHashEmbeddings` and OpenAI models);
+ * 2. the manifest, or the vectors stored by the same model id in `memory.db`;
+ * 3. a probe embedding, once per model id and process.
+ */
+export async function resolveEmbeddingDimensions(
+  embeddings: EmbeddingsInterface,
+  db: Database.Database,
+): Promise<number> {
+  const declared = (embeddings as { dimensions?: unknown }).dimensions;
+  if (typeof declared === 'number' && declared > 0) return declared;
+
+  const model = embeddingsModelId(embeddings);
+  const manifest = readIndexManifest(path.dirname(db.name));
+  if (manifest?.model === model && manifest.dimensions > 0) return manifest.dimensions;
+  const stored = db
+    .prepare('SELECT embedding_dimensions AS dimensions FROM code_chunks WHERE embedding_model = ? LIMIT 1')
+    .get(model) as { dimensions: number | null } | undefined;
+  if (stored?.dimensions) return stored.dimensions;
+
+  if (!probedDimensions.has(model)) {
+    probedDimensions.set(model, (await embeddings.embedQuery('dimension probe')).length);
+  }
+  return probedDimensions.get(model)!;
+}
+
+/**
+ * Lists what differs between two stamps, e.g. `model: local-hash-3gram → text-embedding-004`.
+ */
+export function describeStampChanges(previous: EmbeddingStamp, current: EmbeddingStamp): string[] {
+  return (['model', 'dimensions', 'enrichmentVersion'] as const)
+    .filter((key) => previous[key] !== current[key])
+    .map((key) => `${key}: ${previous[key]} → ${current[key]}`);
+}
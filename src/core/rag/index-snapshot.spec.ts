@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { SnapshotService } from './index-snapshot';
+import { IndexCoordinator } from './index-coordinator';
+import { RetrieverService } from './retriever';
+import { LLMProvider } from '../llm/provider';
+import { LocalHashEmbeddings } from '../llm/local-embeddings';
+import { AgentDB } from '../state/db';
+
+describe('SnapshotService', () => {
+  const originalCwd = process.cwd();
+  let projectDir: string;
+  let snapshotPath: string;
+
+  const write = (relativePath: string, content: string) => {
+    const target = path.join(projectDir, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+  const count = (table: string) =>
+    (AgentDB.getInstance().prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+
+  beforeAll(async () => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-'));
+    process.chdir(projectDir);
+    LLMProvider.configure({ embeddings: { provider: 'local', model: 'hash-64' } });
+    snapshotPath = path.join(projectDir, 'artifacts', 'index.json.gz');
+
+    write(
+      'src/payments/payments.controller.ts',
+      `import { Controller, Post } from '@nestjs/common';
+import { PaymentsService } from './payments.service';
+
+@Controller('payments')
+export class PaymentsController {
+  constructor(private readonly payments: PaymentsService) {}
+
+  @Post('refund')
+  refund() { return this.payments.refund(); }
+}
+`,
+    );
+    write('src/payments/payments.service.ts', 'export class PaymentsService { refund() { return true; } }\n');
+    write('src/orders/orders.service.ts', 'export class OrdersService { cancelOrder() { return true; } }\n');
+    await IndexCoordinator.getInstance().indexAll();
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should export a versioned snapshot with POSIX paths and the embeddings stamp', () => {
+    const summary = new SnapshotService().exportTo(snapshotPath);
+    expect(summary).toMatchObject({
+      files: 3,
+      embedding: { model: 'local-hash-3gram', dimensions: 64 },
+      gitCommit: null, // Not a git checkout
+    });
+
+    const snapshot = JSON.parse(zlib.gunzipSync(fs.readFileSync(snapshotPath)).toString('utf-8'));
+    expect(snapshot.format).toBe(1);
+    expect(snapshot.tables.file_registry.map((f: any) => f.path).sort()).toEqual([
+      'src/orders/orders.service.ts',
+      'src/payments/payments.controller.ts',
+      'src/payments/payments.service.ts',
+    ]);
+    expect(snapshot.tables.http_routes).toEqual([expect.objectContaining({ path: '/payments/refund' })]);
+    expect(typeof snapshot.tables.code_chunks[0].vector).toBe('string');
+  });
+
+  it('should restore the index, then re-process only the files that differ from it', async () => {
+    const chunks = count('code_chunks');
+    // The local index drifts away from the snapshot
+    write('src/orders/orders.service.ts', 'export class OrdersService { archiveOrder() { return true; } }\n');
+    write('src/users/users.service.ts', 'export class UsersService {}\n');
+    await IndexCoordinator.getInstance().indexAll();
+
+    await new SnapshotService().importFrom(snapshotPath);
+    expect(count('file_registry')).toBe(3);
+    expect(count('code_chunks')).toBe(chunks);
+    expect(count('code_chunks_fts')).toBe(chunks);
+    expect(count('http_routes')).toBe(1);
+
+    const [best] = await new RetrieverService(new LocalHashEmbeddings({ dimensions: 64 })).query('refund', 1, 'lexical');
+    expect(best.chunk.filePath).toBe(path.join('src', 'payments', 'payments.controller.ts'));
+
+    // orders.service.ts differs from the snapshot, users.service.ts is not in it
+    expect(await IndexCoordinator.getInstance().indexAll()).toEqual({ indexed: 2, removed: 0 });
+    expect(IndexCoordinator.getInstance().getStatus().lastRun).toMatchObject({ kind: 'full', indexed: 2 });
+  });
+
+  it('should refuse a snapshot embedded with another vector space unless forced', async () => {
+    const service = new SnapshotService(new LocalHashEmbeddings({ dimensions: 32 }));
+    await expect(service.importFrom(snapshotPath)).rejects.toThrow('dimensions: 64 → 32');
+    await expect(service.importFrom(snapshotPath, { force: true })).resolves.toMatchObject({ files: 3 });
+  });
+});
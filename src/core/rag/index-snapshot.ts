@@ -0,0 +1,279 @@
+import Database from 'better-sqlite3';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { execSync } from 'child_process';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { AgentDB } from '../state/db';
+import { LLMProvider, embeddingsModelId } from '../llm/provider';
+import { VectorStore } from './vector-store';
+import { LexicalStore } from './lexical-store';
+import { IndexCoordinator } from './index-coordinator';
+import { IndexRunResult } from './indexer';
+import { ENRICHMENT_VERSION } from './embedding-document';
+import {
+  EmbeddingStamp,
+  describeStampChanges,
+  readIndexManifest,
+  resolveEmbeddingDimensions,
+  writeIndexManifest,
+} from './index-manifest';
+
+/**
+ * Version of the snapshot layout. Snapshots of another version are rejected.
+ */
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+/**
+ * Default snapshot location, inside the `.agent` folder.
+ */
+export const DEFAULT_SNAPSHOT_FILE = 'index-snapshot.json.gz';
+
+/**
+ * The exported tables and, for each one, the columns holding a file path.
+ * Paths are stored POSIX in the snapshot and converted back to the local separator on import.
+ * Graph targets and module member sources are graph nodes, which are always POSIX.
+ */
+const SNAPSHOT_TABLES: Record<string, string[]> = {
+  file_registry: ['path'],
+  dependency_graph: ['source'],
+  code_chunks: ['file_path'],
+  nest_modules: ['file_path'],
+  nest_module_members: ['file_path'],
+  http_routes: ['file_path'],
+};
+
+// Binary columns, stored as base64
+const BLOB_COLUMNS = new Set(['vector']);
+// Legacy columns never exported
+const SKIPPED_COLUMNS = new Set(['vector_json']);
+
+/**
+ * A portable copy of the index (gzipped JSON).
+ */
+export interface IndexSnapshot {
+  format: number;
+  createdAt: string; // ISO date
+  gitCommit: string | null; // HEAD of the exporting checkout
+  embedding: EmbeddingStamp;
+  tables: Record<string, Record<string, unknown>[]>;
+}
+
+/**
+ * What a snapshot was built from, as reported after an export or an import.
+ */
+export interface SnapshotSummary {
+  filePath: string;
+  gitCommit: string | null;
+  embedding: EmbeddingStamp;
+  files: number;
+  chunks: number;
+}
+
+/**
+ * The Snapshot Service 📦
+ * Exports the index (`file_registry`, `dependency_graph`, `code_chunks` and the module and
+ * route catalogs derived from the same files) to a portable file, and imports it back, so a
+ * team embeds the codebase once (e.g. in CI) instead of once per developer.
+ *
+ * An import replaces the local index. The next indexing run then re-processes only the
+ * files whose content differs from the snapshot, because the file hashes come with it.
+ */
+export class SnapshotService {
+  private db: Database.Database;
+
+  /**
+   * @param embeddings - Optional embeddings model, checked against the snapshot on import.
+   * Defaults to the model configured in `LLMProvider`.
+   */
+  constructor(private readonly embeddings?: EmbeddingsInterface) {
+    this.db = AgentDB.getInstance();
+  }
+
+  /**
+   * Writes the current index to `filePath`.
+   * Reads happen in one transaction, so a run writing the index meanwhile cannot tear the snapshot.
+   * @throws Error if the index is empty.
+   */
+  public exportTo(filePath: string): SnapshotSummary {
+    const manifest = readIndexManifest(this.dbDir());
+    if (!manifest || manifest.chunkCount === 0) {
+      throw new Error('The index is empty: index the project before exporting it.');
+    }
+
+    const readTables = this.db.transaction(() => {
+      const tables: IndexSnapshot['tables'] = {};
+      for (const [table, pathColumns] of Object.entries(SNAPSHOT_TABLES)) {
+        const rows = this.db.prepare(`SELECT * FROM ${table}`).all() as Record<string, unknown>[];
+        tables[table] = rows.map((row) => this.toPortableRow(row, pathColumns));
+      }
+      return tables;
+    });
+
+    const snapshot: IndexSnapshot = {
+      format: SNAPSHOT_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      gitCommit: this.gitCommit(),
+      embedding: {
+        model: manifest.model,
+        dimensions: manifest.dimensions,
+        enrichmentVersion: manifest.enrichmentVersion,
+      },
+      tables: readTables(),
+    };
+
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    fs.writeFileSync(filePath, zlib.gzipSync(JSON.stringify(snapshot)));
+    return this.summarize(filePath, snapshot);
+  }
+
+  /**
+   * Replaces the local index with the snapshot at `filePath`, under the index lock.
+   * @param options.force - Import even if the snapshot was embedded with another model
+   * (its chunks are then re-embedded by the next indexing run).
+   * @throws Error if the snapshot is unreadable, of another format, or not comparable with
+   * the current embeddings model.
+   */
+  public async importFrom(filePath: string, options: { force?: boolean } = {}): Promise<SnapshotSummary> {
+    const snapshot = this.read(filePath);
+    await this.checkEmbeddings(snapshot.embedding, options.force);
+
+    const headCommit = this.gitCommit();
+    if (snapshot.gitCommit && headCommit && snapshot.gitCommit !== headCommit) {
+      console.log(
+        `ℹ️ Snapshot built at ${snapshot.gitCommit.slice(0, 10)}, checkout at ${headCommit.slice(0, 10)}: ` +
+          'files changed since then will be re-indexed.',
+      );
+    }
+
+    await IndexCoordinator.getInstance().runExclusive('import', async () => this.load(snapshot));
+    return this.summarize(filePath, snapshot);
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  private read(filePath: string): IndexSnapshot {
+    let snapshot: IndexSnapshot;
+    try {
+      snapshot = JSON.parse(zlib.gunzipSync(fs.readFileSync(filePath)).toString('utf-8'));
+    } catch (error: any) {
+      throw new Error(`Invalid index snapshot ${filePath}: ${error.message}`);
+    }
+    if (snapshot.format !== SNAPSHOT_FORMAT_VERSION) {
+      throw new Error(
+        `Snapshot format ${snapshot.format} is not supported (expected ${SNAPSHOT_FORMAT_VERSION}).`,
+      );
+    }
+    return snapshot;
+  }
+
+  /**
+   * Vectors are only useful if the current model produces comparable ones.
+   */
+  private async checkEmbeddings(stamp: EmbeddingStamp, force = false) {
+    const embeddings = this.embeddings ?? LLMProvider.getEmbeddingsModel();
+    const current: EmbeddingStamp = {
+      model: embeddingsModelId(embeddings),
+      dimensions: await resolveEmbeddingDimensions(embeddings, this.db),
+      enrichmentVersion: ENRICHMENT_VERSION,
+    };
+    const changes = describeStampChanges(stamp, current);
+    if (changes.length === 0) return;
+
+    const message = `Snapshot embeddings differ from the current model (${changes.join(', ')})`;
+    if (!force) throw new Error(`${message}. Use --force to import it anyway and re-embed every chunk.`);
+    console.log(`⚠️ ${message}: every chunk will be re-embedded by the next indexing run.`);
+  }
+
+  /**
+   * Swaps the index tables for the snapshot rows, then rebuilds the ANN and full-text indexes.
+   */
+  private load(snapshot: IndexSnapshot): IndexRunResult {
+    const replace = this.db.transaction(() => {
+      const removed = (this.db.prepare('SELECT COUNT(*) AS n FROM file_registry').get() as { n: number }).n;
+      this.db.prepare('DELETE FROM code_chunks_fts').run();
+      // Children first: the other tables reference file_registry
+      for (const table of Object.keys(SNAPSHOT_TABLES).reverse()) {
+        this.db.prepare(`DELETE FROM ${table}`).run();
+      }
+
+      for (const [table, pathColumns] of Object.entries(SNAPSHOT_TABLES)) {
+        const rows = snapshot.tables[table] ?? [];
+        if (rows.length === 0) continue;
+        // Columns unknown to this version of the schema are dropped
+        const known = new Set(
+          (this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name),
+        );
+        const columns = Object.keys(rows[0]).filter((c) => known.has(c));
+        const insert = this.db.prepare(
+          `INSERT OR REPLACE INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+        );
+        rows.forEach((row) => {
+          const local = this.toLocalRow(row, pathColumns);
+          insert.run(...columns.map((c) => local[c] ?? null));
+        });
+      }
+      return removed;
+    });
+    const removed: number = replace();
+
+    VectorStore.getInstance().rebuildIndex();
+    LexicalStore.getInstance().backfill(); // Refills the emptied full-text index from code_chunks
+
+    const chunkCount = VectorStore.getInstance().countVectors();
+    writeIndexManifest(this.dbDir(), { ...snapshot.embedding, chunkCount, updatedAt: new Date().toISOString() });
+    console.log(`📦 Imported ${snapshot.tables.file_registry?.length ?? 0} files and ${chunkCount} chunks.`);
+    return { indexed: snapshot.tables.file_registry?.length ?? 0, removed };
+  }
+
+  private toPortableRow(row: Record<string, unknown>, pathColumns: string[]): Record<string, unknown> {
+    const portable: Record<string, unknown> = {};
+    for (const [column, value] of Object.entries(row)) {
+      if (SKIPPED_COLUMNS.has(column)) continue;
+      if (BLOB_COLUMNS.has(column) && Buffer.isBuffer(value)) portable[column] = value.toString('base64');
+      else if (pathColumns.includes(column) && typeof value === 'string') portable[column] = value.split(path.sep).join('/');
+      else portable[column] = value;
+    }
+    return portable;
+  }
+
+  private toLocalRow(row: Record<string, unknown>, pathColumns: string[]): Record<string, unknown> {
+    const local: Record<string, unknown> = { ...row };
+    for (const column of Object.keys(row)) {
+      const value = row[column];
+      if (BLOB_COLUMNS.has(column) && typeof value === 'string') local[column] = Buffer.from(value, 'base64');
+      // Snapshots written by hand or by older tools may use either separator
+      else if (pathColumns.includes(column) && typeof value === 'string') local[column] = value.split(/[\\/]/).join(path.sep);
+    }
+    return local;
+  }
+
+  private summarize(filePath: string, snapshot: IndexSnapshot): SnapshotSummary {
+    return {
+      filePath,
+      gitCommit: snapshot.gitCommit,
+      embedding: snapshot.embedding,
+      files: snapshot.tables.file_registry?.length ?? 0,
+      chunks: snapshot.tables.code_chunks?.length ?? 0,
+    };
+  }
+
+  /**
+   * HEAD of the project checkout, or null outside a git repository.
+   */
+  private gitCommit(): string | null {
+    try {
+      return execSync('git rev-parse HEAD', { cwd: process.cwd(), stdio: ['ignore', 'pipe', 'ignore'] })
+        .toString()
+        .trim();
+    } catch {
+      return null;
+    }
+  }
+
+  private dbDir(): string {
+    return path.dirname(this.db.name);
+  }
+}
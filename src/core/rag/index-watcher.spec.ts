@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexWatcher, IndexWatchEvent } from './index-watcher';
+import { IndexCoordinator } from './index-coordinator';
+import { LLMProvider } from '../llm/provider';
+import { FileRegistry } from '../state/file-registry';
+
+describe('IndexWatcher', () => {
+  const originalCwd = process.cwd();
+  let projectDir: string;
+  let watcher: IndexWatcher;
+  let events: IndexWatchEvent[] = [];
+  let notify: (() => void) | null = null;
+
+  const write = (relativePath: string, content: string) => {
+    const target = path.join(projectDir, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+  const nextBatch = () =>
+    new Promise<IndexWatchEvent>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('No batch re-indexed')), 5000);
+      notify = () => {
+        clearTimeout(timeout);
+        resolve(events[events.length - 1]);
+      };
+    });
+  const indexedFiles = () =>
+    new FileRegistry()
+      .getAllPaths()
+      .map((p) => p.split(path.sep).join('/'))
+      .sort();
+
+  beforeAll(async () => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'watcher-'));
+    process.chdir(projectDir);
+    LLMProvider.configure({ embeddings: { provider: 'local' } });
+    IndexWatcher.DEBOUNCE_MS = 50;
+
+    write('src/users/users.service.ts', 'export class UsersService {}\n');
+    write('README.md', '# Users\n\nUsers sign up by email.\n');
+    await IndexCoordinator.getInstance().indexAll();
+
+    watcher = new IndexWatcher((event) => {
+      events.push(event);
+      notify?.();
+    });
+    expect(watcher.start()).toEqual(['src', 'README.md']);
+  });
+
+  afterAll(async () => {
+    watcher.stop();
+    await watcher.settle();
+    process.chdir(originalCwd);
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    events = [];
+  });
+
+  it('should re-index files edited on disk in one debounced batch', async () => {
+    const batch = nextBatch();
+    write('src/users/users.controller.ts', 'export class UsersController {}\n');
+    write('src/users/users.service.ts', 'export class UsersService { findAll() { return []; } }\n');
+    write('src/users/notes.txt', '# not indexed\n');
+
+    expect(await batch).toMatchObject({
+      paths: ['src/users/users.controller.ts', 'src/users/users.service.ts'],
+      result: { indexed: 2, removed: 0 },
+    });
+    expect(events).toHaveLength(1);
+    expect(indexedFiles()).toEqual(['README.md', 'src/users/users.controller.ts', 'src/users/users.service.ts']);
+  });
+
+  it('should handle a rename as a deletion plus an addition', async () => {
+    const batch = nextBatch();
+    fs.renameSync(
+      path.join(projectDir, 'src/users/users.controller.ts'),
+      path.join(projectDir, 'src/users/accounts.controller.ts'),
+    );
+
+    expect(await batch).toMatchObject({
+      paths: ['src/users/accounts.controller.ts', 'src/users/users.controller.ts'],
+      result: { indexed: 1, removed: 1 },
+    });
+    expect(indexedFiles()).toEqual(['README.md', 'src/users/accounts.controller.ts', 'src/users/users.service.ts']);
+  });
+
+  it('should watch folders created after the start', async () => {
+    const created = nextBatch();
+    write('src/users/dto/create-user.dto.ts', 'export class CreateUserDto {}\n');
+    expect(await created).toMatchObject({ paths: ['src/users/dto/create-user.dto.ts'] });
+
+    const edited = nextBatch();
+    write('src/users/dto/create-user.dto.ts', 'export class CreateUserDto { email: string; }\n');
+    expect(await edited).toMatchObject({
+      paths: ['src/users/dto/create-user.dto.ts'],
+      result: { indexed: 1, removed: 0 },
+    });
+  });
+
+  it('should watch single-file roots through their folder', async () => {
+    const batch = nextBatch();
+    write('README.md', '# Users\n\nUsers sign up by email or SSO.\n');
+    write('notes.md', '# Not a root\n');
+
+    expect(await batch).toMatchObject({ paths: ['README.md'], result: { indexed: 1, removed: 0 } });
+  });
+
+  it('should drop every file of a deleted folder', async () => {
+    const batch = nextBatch();
+    fs.rmSync(path.join(projectDir, 'src/users'), { recursive: true });
+
+    expect((await batch).result).toEqual({ indexed: 0, removed: 3 });
+    expect(indexedFiles()).toEqual(['README.md']);
+  });
+});
@@ -0,0 +1,189 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { FileRegistry } from '../state/file-registry';
+import { loadAgentConfig } from '../config/agent-config';
+import { ALWAYS_SKIPPED_DIRS, ProjectScanner } from './scanner';
+import { IndexCoordinator } from './index-coordinator';
+import { IndexRunResult } from './indexer';
+
+/**
+ * One batch of changes picked up by the watcher, once re-indexed.
+ */
+export interface IndexWatchEvent {
+  paths: string[]; // Changed, added and deleted files (relative)
+  result: IndexRunResult | null; // null if the run failed (see `error`)
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * The Index Watcher 👀
+ * Keeps the index live while humans edit the code: watches the index roots and feeds the
+ * changed and deleted files to the `IndexCoordinator` (and from there to
+ * `IndexerService.indexPaths`) once the edits settle.
+ *
+ * A rename is seen as the deletion of the old path and the creation of the new one.
+ * Renaming or deleting a folder drops every indexed file below it; moving a folder in
+ * indexes the files it contains.
+ *
+ * Each folder gets its own (non-recursive) `fs.watch`: recursive watching is not supported on
+ * Linux before Node 19.1. Folders created later are watched as they appear.
+ */
+export class IndexWatcher {
+  /** Quiet period after the last file event before the batch is re-indexed. */
+  public static DEBOUNCE_MS = 300;
+
+  private watchers = new Map<string, fs.FSWatcher>(); // Keyed by relative folder
+  private changed = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private scanner: ProjectScanner | null = null;
+  private running: Promise<void> = Promise.resolve();
+  private readonly registry = new FileRegistry();
+
+  /**
+   * @param onBatch - Called after each batch is re-indexed (or failed).
+   * @param rootDir - Project root. Must be the working directory of the index.
+   */
+  constructor(
+    private readonly onBatch: (event: IndexWatchEvent) => void,
+    private readonly rootDir: string = process.cwd(),
+  ) {}
+
+  /**
+   * Starts watching the configured index roots.
+   * @returns The roots being watched (missing roots are skipped).
+   */
+  public start(): string[] {
+    const roots = loadAgentConfig(this.rootDir).index.roots.filter((root) =>
+      fs.existsSync(path.resolve(this.rootDir, root)),
+    );
+    const fileRoots = roots.filter((root) => !fs.statSync(path.resolve(this.rootDir, root)).isDirectory());
+
+    for (const root of roots.filter((r) => !fileRoots.includes(r))) {
+      this.watchTree(path.normalize(root));
+    }
+    // Single files (README.md, nest-cli.json) are watched through their folder, as editors
+    // often replace a file on save
+    const fileRootPaths = new Set(fileRoots.map((root) => path.normalize(root)));
+    for (const folder of new Set(fileRoots.map((root) => path.dirname(path.normalize(root))))) {
+      if (this.watchers.has(folder)) continue; // Already watched as part of a root
+      this.watch(folder, (relativePath) => {
+        if (fileRootPaths.has(relativePath)) this.onFileEvent(relativePath);
+      });
+    }
+    return roots;
+  }
+
+  /**
+   * Stops watching. Changes already picked up are still re-indexed (see `settle`).
+   */
+  public stop() {
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers.clear();
+  }
+
+  /**
+   * Re-indexes the pending changes now and waits for every batch to finish.
+   */
+  public async settle(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      this.flush();
+    }
+    await this.running;
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  /**
+   * Watches a folder and its subfolders, and the subfolders created later on.
+   */
+  private watchTree(dir: string) {
+    if (this.watchers.has(dir)) return;
+    this.watch(dir, (relativePath) => {
+      const absolutePath = path.resolve(this.rootDir, relativePath);
+      try {
+        if (!fs.existsSync(absolutePath)) this.unwatchTree(relativePath);
+        else if (fs.statSync(absolutePath).isDirectory()) this.watchTree(relativePath);
+      } catch {
+        // Deleted again before it could be watched: the next event unwatches it
+      }
+      this.onFileEvent(relativePath);
+    });
+
+    for (const entry of fs.readdirSync(path.resolve(this.rootDir, dir), { withFileTypes: true })) {
+      if (entry.isDirectory() && !ALWAYS_SKIPPED_DIRS.has(entry.name)) this.watchTree(path.join(dir, entry.name));
+    }
+  }
+
+  /**
+   * Closes the watchers of a deleted (or renamed away) folder and its subfolders.
+   */
+  private unwatchTree(dir: string) {
+    for (const [watched, watcher] of this.watchers) {
+      if (watched === dir || watched.startsWith(dir + path.sep)) {
+        watcher.close();
+        this.watchers.delete(watched);
+      }
+    }
+  }
+
+  private watch(dir: string, onFile: (relativePath: string) => void) {
+    const watcher = fs.watch(path.resolve(this.rootDir, dir), (_event, filename) => {
+      if (filename) onFile(path.join(dir, filename.toString()));
+    });
+    watcher.on('error', (error) => console.error(`❌ Watcher error on ${dir}: ${error.message}`));
+    this.watchers.set(dir, watcher);
+  }
+
+  private onFileEvent(relativePath: string) {
+    const absolutePath = path.resolve(this.rootDir, relativePath);
+    this.scanner ??= new ProjectScanner(loadAgentConfig(this.rootDir).index, this.rootDir);
+
+    if (!fs.existsSync(absolutePath)) {
+      // Deleted or renamed away: the file itself, or everything indexed below a folder
+      const folderPrefix = relativePath + path.sep;
+      this.registry
+        .getAllPaths()
+        .filter((p) => p === relativePath || p.startsWith(folderPrefix))
+        .forEach((p) => this.changed.add(p));
+    } else if (fs.statSync(absolutePath).isDirectory()) {
+      // Moved in: the events of its files are not reported one by one
+      this.scanner.scan([relativePath]).forEach((p) => this.changed.add(p));
+    } else if (this.scanner.isIndexable(relativePath)) {
+      this.changed.add(relativePath);
+    }
+
+    if (this.changed.size === 0) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, IndexWatcher.DEBOUNCE_MS);
+  }
+
+  /**
+   * Hands the batch over to the coordinator, after the previous batch.
+   */
+  private flush() {
+    const paths = Array.from(this.changed).sort();
+    this.changed.clear();
+    this.scanner = null; // Pick up .gitignore and config edits in the next batch
+
+    this.running = this.running.then(async () => {
+      const startedAt = Date.now();
+      const coordinator = IndexCoordinator.getInstance();
+      try {
+        coordinator.enqueue(paths);
+        // Empty when another run (e.g. a full sync) already took the batch
+        const result = (await coordinator.flush()) ?? { indexed: 0, removed: 0 };
+        this.onBatch({ paths, result, durationMs: Date.now() - startedAt });
+      } catch (error: any) {
+        this.onBatch({ paths, result: null, durationMs: Date.now() - startedAt, error: error.message });
+      }
+    });
+  }
+}
@@ -0,0 +1,249 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexerService } from './indexer';
+import { AgentDB } from '../state/db';
+import { LocalHashEmbeddings } from '../llm/local-embeddings';
+import { RetrieverService } from './retriever';
+import { VectorStore } from './vector-store';
+import { ENRICHMENT_VERSION } from './embedding-document';
+import { INDEX_MANIFEST_FILE } from './index-manifest';
+import { queryDependencyGraphTool } from '../tools/analysis-tools';
+import { findTestsForTool } from '../tools/testing-tools';
+
+describe('IndexerService', () => {
+  const originalCwd = process.cwd();
+  let projectDir: string;
+  let indexer: IndexerService;
+
+  const write = (relativePath: string, content: string) => {
+    const target = path.join(projectDir, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+
+  const chunkNames = (filePath: string) =>
+    (
+      AgentDB.getInstance()
+        .prepare('SELECT metadata FROM code_chunks WHERE file_path = ?')
+        .all(filePath) as { metadata: string }[]
+    )
+      .map((r) => JSON.parse(r.metadata).methodName || JSON.parse(r.metadata).className)
+      .sort();
+
+  beforeAll(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-'));
+    process.chdir(projectDir);
+    indexer = new IndexerService(new LocalHashEmbeddings({ dimensions: 64 }));
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  const usersService = path.join('src', 'users', 'users.service.ts');
+  const usersDto = path.join('src', 'users', 'user.dto.ts');
+
+  it('should replace the chunks and edges of a changed file instead of accumulating them', async () => {
+    write(usersDto, 'export class UserDto { name: string; }\n');
+    write(
+      usersService,
+      `import { UserDto } from './user.dto';
+export class UsersService {
+  create(dto: UserDto) { return dto; }
+  remove(id: string) { return id; }
+}
+`,
+    );
+    await indexer.indexProject();
+    expect(chunkNames(usersService)).toEqual(['UsersService', 'create', 'remove']);
+
+    write(
+      usersService,
+      `export class UsersService {
+  findAll() { return []; }
+}
+`,
+    );
+    await indexer.indexProject();
+
+    expect(chunkNames(usersService)).toEqual(['UsersService', 'findAll']);
+    const edges = AgentDB.getInstance()
+      .prepare('SELECT * FROM dependency_graph WHERE source = ?')
+      .all(usersService);
+    expect(edges).toEqual([]);
+  });
+
+  it('should prune registry entries, chunks and edges of deleted files', async () => {
+    write(usersService, `import { UserDto } from './user.dto';\nexport class UsersService {}\n`);
+    await indexer.indexProject();
+
+    fs.unlinkSync(path.join(projectDir, usersDto));
+    await indexer.indexProject();
+
+    const db = AgentDB.getInstance();
+    expect(db.prepare('SELECT path FROM file_registry WHERE path = ?').get(usersDto)).toBeUndefined();
+    expect(chunkNames(usersDto)).toEqual([]);
+    expect(db.prepare('SELECT * FROM dependency_graph WHERE target = ?').all('src/users/user.dto.ts')).toEqual([]);
+  });
+
+  it('should not build the ANN index while an exact scan is enough', () => {
+    expect(VectorStore.getInstance().countVectors()).toBeGreaterThan(0);
+    expect(fs.existsSync(path.join(projectDir, '.agent', 'memory.hnsw'))).toBe(false);
+  });
+
+  it('should store vectors as BLOBs and serve queries through the persisted ANN index', async () => {
+    write(
+      path.join('src', 'payments', 'payments.service.ts'),
+      `export class PaymentsService {
+  createPaymentIntent(amount: number) { return amount; }
+}
+`,
+    );
+    const threshold = VectorStore.BRUTE_FORCE_THRESHOLD;
+    VectorStore.BRUTE_FORCE_THRESHOLD = 0; // Force the ANN path
+    try {
+      await indexer.indexProject();
+
+      const row = AgentDB.getInstance()
+        .prepare("SELECT vector, vector_encoding, vector_json FROM code_chunks WHERE file_path LIKE '%payments%'")
+        .get() as any;
+      expect(Buffer.isBuffer(row.vector)).toBe(true);
+      expect(row.vector_encoding).toBe('f32');
+      expect(row.vector_json).toBeNull();
+      expect(fs.existsSync(path.join(projectDir, '.agent', 'memory.hnsw'))).toBe(true);
+
+      const retriever = new RetrieverService(new LocalHashEmbeddings({ dimensions: 64 }));
+      const [best] = await retriever.query('create payment intent', 1);
+      expect(best.chunk.metadata.methodName).toBe('createPaymentIntent');
+    } finally {
+      VectorStore.BRUTE_FORCE_THRESHOLD = threshold;
+    }
+  });
+
+  it('should keep several relations between the same pair of files', async () => {
+    write(path.join('src', 'orders', 'base.service.ts'), 'export abstract class BaseService {}\n');
+    write(
+      path.join('src', 'orders', 'orders.service.ts'),
+      `import { BaseService } from './base.service';
+import { UsersService } from '../users/users.service';
+export class OrdersService extends BaseService {
+  constructor(private readonly users: UsersService) { super(); }
+}
+`,
+    );
+    await indexer.indexProject();
+
+    const edges = AgentDB.getInstance()
+      .prepare('SELECT target, relation FROM dependency_graph WHERE source = ? ORDER BY target, relation')
+      .all(path.join('src', 'orders', 'orders.service.ts'));
+    expect(edges).toEqual([
+      { target: 'src/orders/base.service.ts', relation: 'extends' },
+      { target: 'src/orders/base.service.ts', relation: 'import' },
+      { target: 'src/users/users.service.ts', relation: 'import' },
+      { target: 'src/users/users.service.ts', relation: 'injects' },
+    ]);
+
+    const answer = await queryDependencyGraphTool.invoke({
+      filePath: 'src/users/users.service.ts',
+      direction: 'inbound',
+      relation: 'injects',
+    });
+    expect(answer).toContain('[injects] src/orders/orders.service.ts');
+    expect(answer).not.toContain('[import]');
+  });
+
+  it('should index specs and report the source files they cover', async () => {
+    write(
+      path.join('src', 'orders', 'orders.service.spec.ts'),
+      `import { OrdersService } from './orders.service';
+describe('OrdersService', () => {
+  it('is defined', () => expect(OrdersService).toBeDefined());
+});
+`,
+    );
+    await indexer.indexProject();
+
+    const covering = await findTestsForTool.invoke({ filePath: 'src/orders/orders.service.ts' });
+    expect(covering).toContain('- src/orders/orders.service.spec.ts (named after it');
+
+    const untested = await findTestsForTool.invoke({ pathPrefix: 'src/orders' });
+    expect(untested).toContain('- src/orders/base.service.ts');
+    expect(untested).not.toContain('orders.service');
+  });
+
+  it('should keep chunk IDs stable across re-indexes and persist the parent link', async () => {
+    const invoices = path.join('src', 'invoices', 'invoices.service.ts');
+    const chunkRows = () =>
+      AgentDB.getInstance()
+        .prepare('SELECT id, chunk_type, parent_id, metadata FROM code_chunks WHERE file_path = ?')
+        .all(invoices) as { id: string; chunk_type: string; parent_id: string | null; metadata: string }[];
+    const idOf = (name: string) => chunkRows().find((r) => JSON.parse(r.metadata).methodName === name)?.id;
+
+    write(invoices, 'export class InvoicesService {\n  issue() { return 1; }\n}\n');
+    await indexer.indexProject();
+    const issueId = idOf('issue');
+
+    write(invoices, 'export class InvoicesService {\n  issue() { return 1; }\n  void() { return 0; }\n}\n');
+    await indexer.indexProject();
+
+    const rows = chunkRows();
+    const parent = rows.find((r) => r.chunk_type === 'class_signature');
+    expect(idOf('issue')).toBe(issueId);
+    expect(rows.filter((r) => r.chunk_type === 'method').map((r) => r.parent_id)).toEqual([parent!.id, parent!.id]);
+  });
+
+  it('should re-embed chunks produced by an older embedding document format', async () => {
+    const db = AgentDB.getInstance();
+    await indexer.indexProject();
+    const outdated = db.prepare('UPDATE code_chunks SET enrichment_version = 1 WHERE file_path = ?').run(usersService);
+    expect(outdated.changes).toBeGreaterThan(0);
+
+    await indexer.indexProject();
+
+    const versions = db
+      .prepare('SELECT DISTINCT enrichment_version AS version FROM code_chunks')
+      .all() as { version: number }[];
+    expect(versions).toEqual([{ version: ENRICHMENT_VERSION }]);
+  });
+
+  it('should re-embed everything and rewrite the manifest when the embeddings model changes', async () => {
+    const db = AgentDB.getInstance();
+    const manifestPath = path.join(projectDir, '.agent', INDEX_MANIFEST_FILE);
+    await indexer.indexProject();
+    expect(JSON.parse(fs.readFileSync(manifestPath, 'utf-8'))).toMatchObject({ dimensions: 64 });
+
+    const smaller = new LocalHashEmbeddings({ dimensions: 32 });
+    await new IndexerService(smaller).indexProject();
+
+    const stamps = db
+      .prepare('SELECT DISTINCT embedding_model AS model, embedding_dimensions AS dimensions FROM code_chunks')
+      .all();
+    expect(stamps).toEqual([{ model: 'local-hash-3gram', dimensions: 32 }]);
+    expect(JSON.parse(fs.readFileSync(manifestPath, 'utf-8'))).toMatchObject({
+      model: 'local-hash-3gram',
+      dimensions: 32,
+      enrichmentVersion: ENRICHMENT_VERSION,
+    });
+    await expect(new RetrieverService(smaller).query('users service', 3, 'semantic')).resolves.not.toHaveLength(0);
+  });
+
+  it('should only probe the embeddings model when its dimensionality is unknown', async () => {
+    const inner = new LocalHashEmbeddings({ dimensions: 32 });
+    // A remote model: no declared `dimensions`, every embedding call is billed
+    const remoteModel = () => ({
+      model: 'remote-embeddings-v1',
+      embedDocuments: (documents: string[]) => inner.embedDocuments(documents),
+      embedQuery: jest.fn((document: string) => inner.embedQuery(document)),
+    });
+
+    const first = remoteModel();
+    await new IndexerService(first).indexProject();
+    expect(first.embedQuery).toHaveBeenCalledTimes(1); // New model id: probed once
+
+    const second = remoteModel();
+    await new IndexerService(second).indexProject();
+    expect(second.embedQuery).not.toHaveBeenCalled(); // Known from the manifest
+  });
+});
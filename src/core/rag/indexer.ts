@@ -1,11 +1,44 @@
 import { FileRegistry } from '../state/file-registry';
-import { NestChunker } from '../tools/ast/chunker';
+import { ModuleRegistry } from '../state/module-registry';
+import { RouteRegistry } from '../state/route-registry';
+import { FileChunker } from '../tools/ast/file-chunker';
+import { ChunkerRegistry } from '../tools/ast/chunker-registry';
 import { AgentDB } from '../state/db';
-import { LLMProvider } from '../llm/provider';
+import { LLMProvider, embeddingsModelId } from '../llm/provider';
+import { VectorStore } from './vector-store';
+import { LexicalStore } from './lexical-store';
+import { ProjectScanner } from './scanner';
+import { buildEmbeddingDocument, ENRICHMENT_VERSION } from './embedding-document';
+import {
+  EmbeddingStamp,
+  describeStampChanges,
+  readIndexManifest,
+  resolveEmbeddingDimensions,
+  writeIndexManifest,
+} from './index-manifest';
+import { IndexScopeConfig, loadAgentConfig } from '../config/agent-config';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
 import * as path from 'path';
 import * as fs from 'fs';
 import { GraphEdge, ProcessedChunk } from '../types';
 
+/**
+ * Progress of an indexing run, reported after each step.
+ */
+export interface IndexProgress {
+  phase: 'parsing' | 'embedding' | 'done';
+  processed: number; // Files parsed, or chunks embedded
+  total: number;
+}
+
+/**
+ * What an indexing run changed.
+ */
+export interface IndexRunResult {
+  indexed: number; // Files (re)indexed
+  removed: number; // Files dropped from the index (deleted or out of scope)
+}
+
 /**
  * The Indexer Service (The Orchestrator) 🎼
  * Responsible for keeping the AI memory in sync with the codebase.
@@ -13,59 +46,123 @@ import { GraphEdge, ProcessedChunk } from '../types';
  */
 export class IndexerService {
   private registry: FileRegistry;
-  private chunker: NestChunker;
+  private moduleRegistry: ModuleRegistry;
+  private routeRegistry: RouteRegistry;
+  private chunkers = new Map<string, FileChunker>(); // One instance per file type and run
+  private vectorStore: VectorStore;
+  private lexicalStore: LexicalStore;
   private db: any; // Type 'any' allowed here for better-sqlite3 instance wrapper
 
-  // Optimization: Send chunks to Vertex AI in groups to respect rate limits and improve speed.
+  // Optimization: Send chunks to the embeddings provider in groups to respect rate limits and improve speed.
   private BATCH_SIZE = 10;
 
-  constructor() {
+  // Dimensionality of the current embeddings model, once known (manifest, probe or first batch)
+  private dimensions: number | null = null;
+
+  /**
+   * @param embeddings - Optional embeddings model (e.g. `LocalHashEmbeddings` for offline runs).
+   * Defaults to the model configured in `LLMProvider`.
+   * @param onProgress - Optional listener notified as files are parsed and chunks embedded.
+   * @param verbose - Print the progress logs (default). Warnings and errors are always printed.
+   */
+  constructor(
+    private readonly embeddings?: EmbeddingsInterface,
+    private readonly onProgress?: (progress: IndexProgress) => void,
+    private readonly verbose: boolean = true,
+  ) {
     this.registry = new FileRegistry();
-    this.chunker = new NestChunker();
+    this.moduleRegistry = new ModuleRegistry();
+    this.routeRegistry = new RouteRegistry();
     this.db = AgentDB.getInstance();
+    this.vectorStore = VectorStore.getInstance();
+    this.lexicalStore = LexicalStore.getInstance();
   }
 
   /**
    * Main Entry Point: Scans the project and updates the brain.
    * Scans files, checks hashes, generates embeddings, and saves the knowledge graph.
-   * * @param sourceDir - Relative path to source code (usually 'src').
+   * The scope (roots, include/exclude globs, .gitignore) comes from `nestjs-agent.config.json`.
+   * * @param roots - Optional override of the configured source roots (e.g. 'src' or ['apps', 'libs']).
    */
-  public async indexProject(sourceDir: string = 'src') {
-    const rootDir = process.cwd();
-    const fullSourceDir = path.join(rootDir, sourceDir);
+  public async indexProject(roots?: string | string[]): Promise<IndexRunResult> {
+    const scope = loadAgentConfig().index;
+    const scanRoots = roots === undefined ? scope.roots : ([] as string[]).concat(roots);
+
+    this.log(`🚀 Starting Indexing Process on: ${scanRoots.join(', ')}`);
 
-    console.log(`🚀 Starting Indexing Process on: ${sourceDir}`);
+    const files = this.getAllFiles(scope, scanRoots);
 
-    const files = this.getAllFiles(fullSourceDir);
-    const filesToProcess: string[] = [];
+    // Chunks embedded by another model or document format must be re-embedded
+    await this.invalidateStaleEmbeddings();
+
+    // Garbage Collection: forget files that disappeared from the scanned roots
+    const removed = this.pruneDeletedFiles(scanRoots, files);
 
     // Check changes
-    for (const file of files) {
-      if (this.registry.isFileChanged(file)) {
-        filesToProcess.push(file);
-      }
-    }
+    const filesToProcess = files.filter((file) => this.registry.isFileChanged(file));
 
     if (filesToProcess.length === 0) {
-      console.log('✨ Project is up to date.');
-      return;
+      this.vectorStore.persist(); // Pruning may have touched the ANN index
+      this.updateManifest();
+      this.log('✨ Project is up to date.');
+      return { indexed: 0, removed };
     }
 
-    console.log(`📦 Found ${filesToProcess.length} files to process.`);
+    this.log(`📦 Found ${filesToProcess.length} files to process.`);
+    await this.processFiles(filesToProcess);
 
+    this.log('✅ Indexing Complete.');
+    return { indexed: filesToProcess.length, removed };
+  }
+
+  /**
+   * Re-indexes only the given files (e.g. the ones the agent just wrote), without scanning
+   * the project. Deleted files are dropped from the index; files out of the index scope
+   * (see `ProjectScanner.isIndexable`) are ignored.
+   * * @param paths - Paths relative to the project root.
+   */
+  public async indexPaths(paths: string[]): Promise<IndexRunResult> {
+    const scanner = new ProjectScanner(loadAgentConfig().index);
+    const relativePaths = Array.from(new Set(paths.map((p) => path.relative(process.cwd(), path.resolve(p)))));
+
+    const known = new Set(this.registry.getAllPaths());
+    const deleted = relativePaths.filter((p) => !fs.existsSync(p) && known.has(p));
+    deleted.forEach((p) => this.forgetFile(p));
+
+    const filesToProcess = relativePaths.filter(
+      (p) => fs.existsSync(p) && scanner.isIndexable(p) && this.registry.isFileChanged(p),
+    );
+    if (filesToProcess.length > 0) {
+      this.log(`📦 Re-indexing ${filesToProcess.length} changed files...`);
+      await this.processFiles(filesToProcess);
+    } else {
+      this.vectorStore.persist();
+    }
+    return { indexed: filesToProcess.length, removed: deleted.length };
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  /**
+   * Parses the files, then saves their graph edges and embeddings.
+   */
+  private async processFiles(filesToProcess: string[]) {
     // --- CAMBIO IMPORTANTE ---
     // Acumuladores separados
     const pendingChunks: ProcessedChunk[] = [];
     const pendingEdges: GraphEdge[] = []; // <--- Acumulamos el grafo aquí
 
     // 1. PRIMERA PASADA: Registrar archivos y generar datos
-    for (const filePath of filesToProcess) {
+    for (const [i, filePath] of filesToProcess.entries()) {
       await this.processSingleFile(filePath, pendingChunks, pendingEdges);
+      this.onProgress?.({ phase: 'parsing', processed: i + 1, total: filesToProcess.length });
     }
 
     // 2. SEGUNDA PASADA: Guardar Grafo (Ahora que todos los archivos existen en registry)
     if (pendingEdges.length > 0) {
-      console.log(`🕸️ Saving ${pendingEdges.length} dependency relations...`);
+      this.log(`🕸️ Saving ${pendingEdges.length} dependency relations...`);
       this.saveGraph(pendingEdges);
     }
 
@@ -74,13 +171,12 @@ export class IndexerService {
       await this.embedAndSaveBatches(pendingChunks);
     }
 
-    console.log('✅ Indexing Complete.');
+    // 4. Flush the ANN index next to memory.db
+    this.vectorStore.persist();
+    this.updateManifest();
+    this.onProgress?.({ phase: 'done', processed: filesToProcess.length, total: filesToProcess.length });
   }
 
-  // ==========================================
-  // ⚙️ INTERNAL LOGIC
-  // ==========================================
-
   /**
    * Processes a single file: Reads content, Calculates Hash, Parses AST,
    * Updates Registry, and Accumulates Chunks.
@@ -99,14 +195,26 @@ export class IndexerService {
         .update(content)
         .digest('hex');
 
-      // B. Analyze
-      const analysis = this.chunker.analyze(filePath, content, hash);
+      // B. Analyze (TypeScript AST, or the chunker of the document type)
+      const chunker = this.chunkerFor(filePath);
+      if (!chunker) {
+        console.warn(`⚠️ No chunker for ${filePath}, skipped.`);
+        return;
+      }
+      const analysis = chunker.analyze(filePath, content, hash);
 
       // --- CAMBIO CLAVE: ORDEN DE OPERACIONES ---
 
+      // 0. Purge stale chunks/edges from the previous version of this file
+      this.vectorStore.forgetFile(filePath);
+      this.lexicalStore.forgetFile(filePath);
+      this.registry.clearIndexedData(filePath);
+
       // 1. PRIMERO: Registrar el archivo en DB.
       // Si no hacemos esto, el foreign key de 'source' fallará si intentáramos guardar algo.
       this.registry.updateFile(filePath, analysis.skeleton);
+      this.moduleRegistry.saveModules(filePath, analysis.modules);
+      this.routeRegistry.saveRoutes(filePath, analysis.routes);
 
       // 2. SEGUNDO: Acumular relaciones para guardarlas DESPUÉS
       // No llamamos a this.saveGraph() aquí.
@@ -125,10 +233,10 @@ export class IndexerService {
   }
 
   /**
-   * Generates embeddings using Vertex AI and saves them to SQLite in transactions.
+   * Generates embeddings using the configured provider and saves them to SQLite in transactions.
    */
   private async embedAndSaveBatches(allChunks: ProcessedChunk[]) {
-    console.log(`🧠 Generating Embeddings for ${allChunks.length} chunks...`);
+    this.log(`🧠 Generating Embeddings for ${allChunks.length} chunks...`);
 
     for (let i = 0; i < allChunks.length; i += this.BATCH_SIZE) {
       const batch = allChunks.slice(i, i + this.BATCH_SIZE);
@@ -136,47 +244,98 @@ export class IndexerService {
       // 1. Prepare Text for Embedding
       // CRITICAL: We embed "metadata + content" for better semantic search results.
       // This allows the LLM to find "UsersService method" even if the code doesn't say "User".
-      const textsToEmbed = batch.map((c) => {
-        const metaStr = c.metadata.methodName
-          ? `Method: ${c.metadata.methodName}`
-          : `Class: ${c.metadata.className}`;
-        return `${metaStr}\n${c.content}`;
-      });
+      const textsToEmbed = batch.map((c) => buildEmbeddingDocument(c));
 
       try {
-        // 2. Call Vertex AI (Embeddings API)
-        const embeddingsModel = LLMProvider.getEmbeddingsModel();
-        const vectors = await embeddingsModel.embedDocuments(textsToEmbed);
-
-        // 3. Save to DB (Transaction for performance)
-        const insertChunk = this.db.prepare(`
-          INSERT OR REPLACE INTO code_chunks (id, file_path, chunk_type, content, vector_json, metadata)
-          VALUES (?, ?, ?, ?, ?, ?)
-        `);
-
-        // Explicitly typed transaction callback to fix TS7006
-        const insertMany = this.db.transaction(
-          (chunks: ProcessedChunk[], vectors: number[][]) => {
-            chunks.forEach((chunk, idx) => {
-              insertChunk.run(
-                chunk.id,
-                (chunk as any).filePath, // filePath added in processSingleFile
-                chunk.type,
-                chunk.content,
-                JSON.stringify(vectors[idx]), // Serialize vector to string for storage
-                JSON.stringify(chunk.metadata),
-              );
-            });
-          },
-        );
-
-        insertMany(batch, vectors);
-        process.stdout.write('.'); // Visual feedback
+        // 2. Call the Embeddings API (resolved through the provider registry)
+        const vectors = await this.embeddingsModel().embedDocuments(textsToEmbed);
+        this.dimensions = vectors[0]?.length ?? this.dimensions;
+
+        // 3. Save to DB as binary BLOBs + update the ANN and full-text indexes
+        this.vectorStore.saveChunks(batch, vectors, {
+          model: embeddingsModelId(this.embeddingsModel()),
+          enrichmentVersion: ENRICHMENT_VERSION,
+        });
+        this.lexicalStore.saveChunks(batch);
+        if (this.verbose) process.stdout.write('.'); // Visual feedback
+        this.onProgress?.({
+          phase: 'embedding',
+          processed: Math.min(i + this.BATCH_SIZE, allChunks.length),
+          total: allChunks.length,
+        });
       } catch (err) {
         console.error('❌ Embedding Error:', err);
+        // Force a retry on the next run instead of leaving the files half-indexed
+        new Set(batch.map((c) => c.filePath as string)).forEach((file) =>
+          this.registry.invalidate(file),
+        );
       }
     }
-    console.log('\n💾 Vectors Saved.');
+    this.log('\n💾 Vectors Saved.');
+  }
+
+  /**
+   * Detects vectors that are not comparable with the current model (another model, dimensionality
+   * or document format) and marks their files as changed, so they are re-embedded in this run.
+   */
+  private async invalidateStaleEmbeddings() {
+    let stamp: EmbeddingStamp | null;
+    try {
+      stamp = await this.currentStamp();
+    } catch (error) {
+      console.error('⚠️ Could not check the embeddings model, skipping the compatibility check:', error);
+      return;
+    }
+    if (!stamp) return;
+
+    const stale = this.vectorStore.filesWithStaleEmbeddings(stamp);
+    if (stale.files.length === 0) return;
+
+    const manifest = readIndexManifest(this.dbDir());
+    const changes = manifest ? describeStampChanges(manifest, stamp) : [];
+    this.log(
+      `♻️ Embeddings out of date${changes.length > 0 ? ` (${changes.join(', ')})` : ''}: ` +
+        `re-embedding ${stale.chunks} chunks from ${stale.files.length} files.`,
+    );
+    stale.files.forEach((file) => this.registry.invalidate(file));
+  }
+
+  /**
+   * The stamp new vectors will carry, or null while the index is empty (nothing to compare).
+   * See `resolveEmbeddingDimensions`: the model is only probed when its dimensionality is unknown.
+   */
+  private async currentStamp(): Promise<EmbeddingStamp | null> {
+    if (this.vectorStore.countVectors() === 0) return null;
+
+    this.dimensions = await resolveEmbeddingDimensions(this.embeddingsModel(), this.db);
+    return {
+      model: embeddingsModelId(this.embeddingsModel()),
+      dimensions: this.dimensions,
+      enrichmentVersion: ENRICHMENT_VERSION,
+    };
+  }
+
+  /**
+   * Rewrites `.agent/index-manifest.json` once the index is in sync.
+   */
+  private updateManifest() {
+    const chunkCount = this.vectorStore.countVectors();
+    if (chunkCount === 0 || this.dimensions === null) return;
+    writeIndexManifest(this.dbDir(), {
+      model: embeddingsModelId(this.embeddingsModel()),
+      dimensions: this.dimensions,
+      enrichmentVersion: ENRICHMENT_VERSION,
+      chunkCount,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  private embeddingsModel(): EmbeddingsInterface {
+    return this.embeddings ?? LLMProvider.getEmbeddingsModel();
+  }
+
+  private dbDir(): string {
+    return path.dirname(this.db.name);
   }
 
   /**
@@ -202,28 +361,61 @@ export class IndexerService {
   }
 
   /**
-   * Recursively gets all .ts files in a directory.
+   * Removes registry entries (and their chunks/edges) for files under the scanned
+   * roots that are no longer present on disk or fell out of the index scope.
+   * * @param roots - Relative source roots (folders or single files) that were scanned.
+   * @param currentFiles - Relative paths found on disk during this scan.
+   * @returns The number of pruned files.
+   */
+  private pruneDeletedFiles(roots: string[], currentFiles: string[]): number {
+    const inScope = new Set(currentFiles);
+    const prefixes = roots.map((root) => path.normalize(root) + path.sep);
+
+    const stale = this.registry
+      .getAllPaths()
+      .filter(
+        (p) =>
+          ((prefixes.some((prefix) => path.normalize(p).startsWith(prefix)) ||
+            roots.some((root) => path.normalize(root) === path.normalize(p))) &&
+            !inScope.has(p)) ||
+          !fs.existsSync(p),
+      );
+
+    stale.forEach((p) => this.forgetFile(p));
+    if (stale.length > 0) {
+      this.log(`🧹 Pruned ${stale.length} deleted files from the index.`);
+    }
+    return stale.length;
+  }
+
+  /**
+   * Drops a file and everything derived from it (chunks, edges, modules, routes).
+   */
+  private forgetFile(filePath: string) {
+    this.vectorStore.forgetFile(filePath);
+    this.lexicalStore.forgetFile(filePath);
+    this.registry.removeFile(filePath);
+  }
+
+  /**
+   * The chunker registered for the file type (see `ChunkerRegistry`), created once per run.
+   */
+  private chunkerFor(filePath: string): FileChunker | null {
+    const name = ChunkerRegistry.chunkerFor(filePath);
+    if (!name) return null;
+    if (!this.chunkers.has(name)) this.chunkers.set(name, ChunkerRegistry.create(name));
+    return this.chunkers.get(name)!;
+  }
+
+  /**
+   * Lists the files in scope under the given roots (see `ProjectScanner`).
    * Returns RELATIVE paths (e.g., 'src/users/users.service.ts') to ensure consistency in DB.
    */
-  private getAllFiles(dir: string, fileList: string[] = []): string[] {
-    const files = fs.readdirSync(dir);
-
-    files.forEach((file) => {
-      const absolutePath = path.join(dir, file);
-      const stat = fs.statSync(absolutePath);
-
-      if (stat.isDirectory()) {
-        this.getAllFiles(absolutePath, fileList);
-      } else {
-        // Filter: Only TS files, ignore tests (.spec.ts)
-        if (file.endsWith('.ts') && !file.endsWith('.spec.ts')) {
-          // KEY FIX: Normalize to relative path before adding to list
-          const relativePath = path.relative(process.cwd(), absolutePath);
-          fileList.push(relativePath);
-        }
-      }
-    });
+  private getAllFiles(scope: IndexScopeConfig, roots: string[]): string[] {
+    return new ProjectScanner(scope).scan(roots);
+  }
 
-    return fileList;
+  private log(message: string) {
+    if (this.verbose) console.log(message);
   }
 }
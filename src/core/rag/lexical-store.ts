@@ -0,0 +1,127 @@
+import Database from 'better-sqlite3';
+import { AgentDB } from '../state/db';
+import { ProcessedChunk } from '../types';
+import { tokenizeCode } from '../llm/local-embeddings';
+
+/**
+ * The Lexical Store 🔤
+ * Full-text index (SQLite FTS5) over the code chunks, ranked with BM25.
+ * Complements the vector search for exact identifiers (`createPaymentIntent`)
+ * and literal strings (error codes, routes) that embeddings tend to blur.
+ *
+ * Each chunk is indexed twice: the raw code (`content`) and its identifiers
+ * split into words (`identifiers`), so both `createPaymentIntent` and
+ * "payment intent" find the same method.
+ */
+export class LexicalStore {
+  private static instance: LexicalStore;
+
+  private db: Database.Database;
+
+  private constructor() {
+    this.db = AgentDB.getInstance();
+    this.backfill();
+  }
+
+  public static getInstance(): LexicalStore {
+    if (!this.instance) {
+      this.instance = new LexicalStore();
+    }
+    return this.instance;
+  }
+
+  /**
+   * Adds (or replaces) chunks in the full-text index.
+   * Chunks must carry their `filePath`.
+   */
+  public saveChunks(chunks: ProcessedChunk[]) {
+    const remove = this.db.prepare('DELETE FROM code_chunks_fts WHERE chunk_id = ?');
+    const insert = this.db.prepare(
+      'INSERT INTO code_chunks_fts (chunk_id, file_path, content, identifiers) VALUES (?, ?, ?, ?)',
+    );
+
+    const insertMany = this.db.transaction((chunks: ProcessedChunk[]) => {
+      chunks.forEach((chunk) => {
+        remove.run(chunk.id);
+        insert.run(chunk.id, chunk.filePath, chunk.content, this.identifiersOf(chunk));
+      });
+    });
+    insertMany(chunks);
+  }
+
+  /**
+   * Removes every indexed chunk of a file.
+   */
+  public forgetFile(filePath: string) {
+    this.db.prepare('DELETE FROM code_chunks_fts WHERE file_path = ?').run(filePath);
+  }
+
+  /**
+   * BM25 search. Returns chunk ids ordered by relevance (best first).
+   * The score is the positive BM25 relevance (higher is better).
+   */
+  public search(query: string, limit: number): { id: string; score: number }[] {
+    const matchExpression = this.toMatchExpression(query);
+    if (!matchExpression) return [];
+
+    const rows = this.db
+      .prepare(
+        `SELECT chunk_id, bm25(code_chunks_fts, 0, 0, 1.0, 0.5) AS rank
+         FROM code_chunks_fts
+         WHERE code_chunks_fts MATCH ?
+         ORDER BY rank
+         LIMIT ?`,
+      )
+      .all(matchExpression, limit) as { chunk_id: string; rank: number }[];
+
+    // SQLite's bm25() is negative: lower means more relevant
+    return rows.map((row) => ({ id: row.chunk_id, score: -row.rank }));
+  }
+
+  /**
+   * Populates the FTS table from `code_chunks` when it is empty (indexes created before
+   * lexical search existed, imported snapshots). Runs once per process on creation.
+   */
+  public backfill() {
+    if (this.db.prepare('SELECT 1 FROM code_chunks_fts LIMIT 1').get()) return;
+
+    const rows = this.db
+      .prepare('SELECT id, file_path, chunk_type, content, metadata FROM code_chunks')
+      .all() as any[];
+    if (rows.length === 0) return;
+
+    console.log(`🔤 [LexicalStore] Building full-text index for ${rows.length} chunks...`);
+    this.saveChunks(
+      rows.map((row) => ({
+        id: row.id,
+        filePath: row.file_path,
+        type: row.chunk_type,
+        content: row.content,
+        metadata: JSON.parse(row.metadata || '{}'),
+      })),
+    );
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  /**
+   * Builds a safe FTS5 query: every raw word and every camelCase part
+   * becomes a quoted term, OR-ed together (BM25 rewards chunks matching more).
+   */
+  private toMatchExpression(query: string): string {
+    const rawWords = query.match(/[A-Za-z0-9_]{2,}/g) || [];
+    const terms = new Set([...rawWords, ...tokenizeCode(query)]);
+    return Array.from(terms)
+      .map((term) => `"${term}"`)
+      .join(' OR ');
+  }
+
+  private identifiersOf(chunk: ProcessedChunk): string {
+    const names = [chunk.metadata.className, chunk.metadata.methodName, chunk.metadata.symbolName]
+      .filter(Boolean)
+      .join(' ');
+    return Array.from(new Set(tokenizeCode(`${names} ${chunk.content}`))).join(' ');
+  }
+}
@@ -9,7 +9,10 @@
  * * @param vecA - The query vector
  * @param vecB - The database vector
  */
-export function cosineSimilarity(vecA: number[], vecB: number[]): number {
+export function cosineSimilarity(
+  vecA: ArrayLike<number>,
+  vecB: ArrayLike<number>,
+): number {
   if (vecA.length !== vecB.length) {
     throw new Error('Vectors must have the same dimensionality');
   }
@@ -27,3 +30,29 @@ export function cosineSimilarity(vecA: number[], vecB: number[]): number {
   if (normA === 0 || normB === 0) return 0;
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
+
+/**
+ * Reciprocal Rank Fusion (RRF).
+ * Merges several rankings (best first) into one, using only the positions:
+ * score(d) = Σ 1 / (k + rank(d)). Robust to rankings with incomparable scores
+ * (e.g. BM25 vs cosine similarity).
+ * Scores are normalised so that a document ranked first everywhere scores 1.0.
+ * * @param rankings - Lists of ids, each ordered from most to least relevant.
+ * @param k - Damping constant (60 is the value from the original paper).
+ */
+export function reciprocalRankFusion(
+  rankings: { id: string }[][],
+  k: number = 60,
+): { id: string; score: number }[] {
+  const scores = new Map<string, number>();
+  rankings.forEach((ranking) =>
+    ranking.forEach((item, position) => {
+      scores.set(item.id, (scores.get(item.id) || 0) + 1 / (k + position + 1));
+    }),
+  );
+
+  const maxScore = rankings.length / (k + 1);
+  return Array.from(scores.entries())
+    .map(([id, score]) => ({ id, score: score / maxScore }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexerService } from './indexer';
+import { RetrieverService } from './retriever';
+import { reciprocalRankFusion } from './math';
+import { LocalHashEmbeddings } from '../llm/local-embeddings';
+
+describe('RetrieverService', () => {
+  const originalCwd = process.cwd();
+  const embeddings = new LocalHashEmbeddings({ dimensions: 128 });
+  let projectDir: string;
+  let retriever: RetrieverService;
+
+  const write = (relativePath: string, content: string) => {
+    const target = path.join(projectDir, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+
+  beforeAll(async () => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retriever-'));
+    process.chdir(projectDir);
+
+    write(
+      'src/payments/payments.service.ts',
+      `export class PaymentsService {
+  createPaymentIntent(amount: number) {
+    if (amount <= 0) throw new Error('ERR_PAYMENT_42');
+    return { amount };
+  }
+  refund(paymentId: string) { return paymentId; }
+}
+`,
+    );
+    write(
+      'src/orders/orders.service.ts',
+      `export class OrdersService {
+  createOrder(items: string[]) { return { items, status: 'created' }; }
+  createInvoice(orderId: string) { return { orderId, status: 'created' }; }
+}
+`,
+    );
+    write(
+      'src/refunds/refunds.service.ts',
+      `@Injectable()
+export class RefundsService {
+  constructor(private readonly ledger: LedgerClient) {}
+  settleChargeback(disputeId: string) { return this.ledger.post(disputeId); }
+}
+`,
+    );
+    write(
+      'src/common/utils/slug.utils.ts',
+      `export const slugify = (title: string) => title.toLowerCase().replace(/\\s+/g, '-');
+`,
+    );
+
+    write(
+      'docs/adr/001-order-numbers.md',
+      `# ADR 001: Order numbers
+
+## Context
+
+Order numbers must be gapless per tenant.
+
+## Decision
+
+We serialize numbering with Postgres advisory locks.
+`,
+    );
+    write(
+      'prisma/schema.prisma',
+      `/// A customer order
+model Order {
+  id     Int         @id @default(autoincrement())
+  status OrderStatus
+}
+
+enum OrderStatus {
+  CREATED
+  PAID
+}
+`,
+    );
+
+    await new IndexerService(embeddings).indexProject();
+    retriever = new RetrieverService(embeddings);
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should find literal error codes with lexical search', async () => {
+    const [best] = await retriever.query('ERR_PAYMENT_42', 3, 'lexical');
+    expect(best.chunk.metadata.methodName).toBe('createPaymentIntent');
+  });
+
+  it('should rank the exact identifier first in hybrid mode', async () => {
+    const [best] = await retriever.query('createPaymentIntent', 3, 'hybrid');
+    expect(best.chunk.metadata.methodName).toBe('createPaymentIntent');
+    expect(best.score).toBeCloseTo(1, 5);
+  });
+
+  it('should return nothing lexically for words absent from the code', async () => {
+    expect(await retriever.query('kubernetes', 3, 'lexical')).toEqual([]);
+  });
+
+  it('should find top-level helper functions declared outside classes', async () => {
+    const [best] = await retriever.query('slugify title', 3, 'hybrid');
+    expect(best.chunk.type).toBe('function');
+    expect(best.chunk.metadata.symbolName).toBe('slugify');
+
+    const report = await retriever.getContextForLLM('slugify', 'lexical');
+    expect(report).toContain('--- [arrow_function slugify] ---');
+  });
+
+  it('should expand a method hit with the context of its parent class', async () => {
+    const report = await retriever.getContextForLLM('settleChargeback', 'lexical');
+    expect(report).toContain('🏛️ **CLASS CONTEXT (RefundsService):**');
+    expect(report).toContain('constructor(private readonly ledger: LedgerClient) {}');
+    expect(report).toContain('--- [settleChargeback] ---');
+  });
+
+  it('should label the search mode in the RAG report', async () => {
+    const report = await retriever.getContextForLLM('refund payment', 'semantic');
+    expect(report).toContain('(mode: semantic)');
+    expect(report).toContain('src/payments/payments.service.ts');
+  });
+
+  it('should search docs and the Prisma schema alongside the code', async () => {
+    const [best] = await retriever.query('advisory locks', 3, 'lexical');
+    expect(best.chunk.type).toBe('doc_section');
+    expect(best.chunk.metadata).toMatchObject({ symbolName: 'Decision', outline: 'ADR 001: Order numbers' });
+
+    const report = await retriever.getContextForLLM('advisory locks', 'lexical', { include: ['docs'] });
+    expect(report).toContain('(mode: lexical; include: docs)');
+    expect(report).toContain('--- [doc_section ADR 001: Order numbers > Decision] ---');
+    expect(report).toContain('```md\n# ADR 001: Order numbers\n## Context\n## Decision\n```');
+  });
+
+  it('should include or exclude kinds of content', async () => {
+    const prismaOnly = await retriever.query('order status created', 5, 'hybrid', { include: ['prisma'] });
+    expect(prismaOnly.length).toBeGreaterThan(0);
+    expect(prismaOnly.every((r) => r.chunk.type === 'prisma_model')).toBe(true);
+
+    const codeOnly = await retriever.query('order status created', 10, 'lexical', { exclude: ['prisma', 'docs'] });
+    expect(codeOnly.map((r) => r.chunk.metadata.methodName)).toContain('createOrder');
+    expect(codeOnly.some((r) => ['prisma_model', 'doc_section'].includes(r.chunk.type))).toBe(false);
+  });
+
+  it('should not return more than the limit for a filtered lexical search', async () => {
+    const results = await retriever.query('status', 1, 'lexical', { include: ['code', 'prisma'] });
+    expect(results).toHaveLength(1);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('should favour items ranked well in every list', () => {
+    const fused = reciprocalRankFusion([
+      [{ id: 'a' }, { id: 'b' }, { id: 'c' }],
+      [{ id: 'b' }, { id: 'c' }, { id: 'a' }],
+    ]);
+    expect(fused.map((f) => f.id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0].score).toBeLessThan(1);
+  });
+});
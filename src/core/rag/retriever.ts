@@ -1,11 +1,46 @@
 import { AgentDB } from '../state/db';
 import { LLMProvider } from '../llm/provider';
-import { cosineSimilarity } from './math';
-import { ProcessedChunk } from '../types';
+import { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { VectorStore, VectorSearchResult } from './vector-store';
+import { LexicalStore } from './lexical-store';
+import { reciprocalRankFusion } from './math';
+import { isExternalNode } from '../tools/ast/module-resolver';
+import { ChunkType, ProcessedChunk } from '../types';
 import * as path from 'path';
-interface SearchResult {
-  chunk: ProcessedChunk;
-  score: number;
+type SearchResult = VectorSearchResult;
+
+/**
+ * Retrieval strategy:
+ * - 'semantic': vector similarity only.
+ * - 'lexical': BM25 full-text only (exact identifiers, error codes). No embedding call.
+ * - 'hybrid': both, merged with Reciprocal Rank Fusion.
+ */
+export type SearchMode = 'semantic' | 'lexical' | 'hybrid';
+
+/**
+ * Kinds of indexed content, to narrow a search:
+ * - 'code': TypeScript classes, methods, functions, declarations and modules.
+ * - 'tests': spec files.
+ * - 'docs': Markdown sections (README, ADRs, docs).
+ * - 'prisma': Prisma schema blocks.
+ * - 'config': JSON/YAML entries and `.env.example` variables.
+ */
+export type ContentKind = 'code' | 'tests' | 'docs' | 'prisma' | 'config';
+
+export const CONTENT_KINDS: Record<ContentKind, ChunkType[]> = {
+  code: ['file', 'method', 'class_signature', 'config', 'function', 'declaration'],
+  tests: ['test'],
+  docs: ['doc_section'],
+  prisma: ['prisma_model'],
+  config: ['config_entry'],
+};
+
+/**
+ * Restricts a search to some kinds of content. Without `include`, every kind is searched.
+ */
+export interface SearchFilter {
+  include?: ContentKind[];
+  exclude?: ContentKind[];
 }
 
 interface FileContext {
@@ -14,47 +49,80 @@ interface FileContext {
   chunks: ProcessedChunk[];
   imports: string[];
   skeleton?: string; // <--- ADDED
+  parents: ProcessedChunk[]; // Class context of the matched methods
 }
 
 export class RetrieverService {
   private db = AgentDB.getInstance();
 
   /**
-   * Searches the codebase using Vector Embeddings (Cosine Similarity).
+   * @param embeddings - Optional embeddings model. Must match the one used at indexing time.
+   * Defaults to the model configured in `LLMProvider`.
+   * @param verbose - Log each query embedding (default).
+   */
+  constructor(
+    private readonly embeddings?: EmbeddingsInterface,
+    private readonly verbose: boolean = true,
+  ) {}
+
+  /**
+   * Searches the codebase using Vector Embeddings (Cosine Similarity),
+   * BM25 full-text search, or a fusion of both.
    * @param query - The natural language query.
    * @param limit - Max chunks to retrieve.
+   * @param mode - Retrieval strategy (default: 'hybrid').
+   * @param filter - Kinds of content to include or exclude (default: everything).
    */
   public async query(
     query: string,
     limit: number = 5,
+    mode: SearchMode = 'hybrid',
+    filter: SearchFilter = {},
   ): Promise<SearchResult[]> {
-    console.log(`🔍 [RAG] Embedding Query: "${query}"...`);
-
-    const embeddingModel = LLMProvider.getEmbeddingsModel();
-    const queryVector = await embeddingModel.embedQuery(query);
-
-    const stmt = this.db.prepare('SELECT * FROM code_chunks');
-    const rows = stmt.all() as any[];
-
-    const scoredChunks: SearchResult[] = rows.map((row) => {
-      const vector = JSON.parse(row.vector_json);
-      const score = cosineSimilarity(queryVector, vector);
-      const metadata = JSON.parse(row.metadata);
-
-      return {
-        score,
-        chunk: {
-          id: row.id,
-          type: row.chunk_type,
-          content: row.content,
-          metadata: metadata,
-          // Ensure filePath is recovered from the DB row or metadata
-          filePath: row.file_path || metadata.filePath,
-        } as ProcessedChunk,
-      };
-    });
+    const vectorStore = VectorStore.getInstance();
+    const allowedTypes = chunkTypesOf(filter);
+    // Fetch deeper candidate lists so fusion can promote items ranked well in both
+    let depth = mode === 'hybrid' ? Math.max(limit * 4, 20) : limit;
+    // Filtered out candidates leave room for the next ones
+    if (allowedTypes) depth = Math.max(depth * 5, 100);
+
+    let lexicalHits =
+      mode === 'semantic' ? [] : LexicalStore.getInstance().search(query, depth);
 
-    return scoredChunks.sort((a, b) => b.score - a.score).slice(0, limit);
+    let semanticHits: { id: string; score: number }[] = [];
+    if (mode !== 'lexical') {
+      if (this.verbose) console.log(`🔍 [RAG] Embedding Query: "${query}"...`);
+      const embeddingModel = this.embeddings ?? LLMProvider.getEmbeddingsModel();
+      const queryVector = await embeddingModel.embedQuery(query);
+      semanticHits = vectorStore.nearest(queryVector, depth);
+    }
+
+    if (allowedTypes) {
+      lexicalHits = this.keepChunkTypes(lexicalHits, allowedTypes);
+      semanticHits = this.keepChunkTypes(semanticHits, allowedTypes);
+    }
+
+    if (mode === 'semantic') return vectorStore.loadChunks(semanticHits.slice(0, limit));
+    if (mode === 'lexical') {
+      return vectorStore.loadChunks(reciprocalRankFusion([lexicalHits]).slice(0, limit));
+    }
+
+    const fused = reciprocalRankFusion([semanticHits, lexicalHits]);
+    return vectorStore.loadChunks(fused.slice(0, limit));
+  }
+
+  /**
+   * Drops the hits whose chunk type is not allowed, keeping the ranking.
+   */
+  private keepChunkTypes(hits: { id: string; score: number }[], types: ChunkType[]) {
+    if (hits.length === 0 || types.length === 0) return [];
+    const rows = this.db
+      .prepare(
+        `SELECT id FROM code_chunks WHERE id IN (${hits.map(() => '?').join(', ')}) AND chunk_type IN (${types.map(() => '?').join(', ')})`,
+      )
+      .all(...hits.map((hit) => hit.id), ...types) as { id: string }[];
+    const allowed = new Set(rows.map((row) => row.id));
+    return hits.filter((hit) => allowed.has(hit.id));
   }
 
   /**
@@ -97,22 +165,44 @@ export class RetrieverService {
       }[];
 
       // 3. Devolver solo los strings de los targets
-      return results.map((row) => row.target);
+      // Project files first: the report only lists the top imports (DTOs, entities...)
+      return results
+        .map((row) => row.target)
+        .sort((a, b) => Number(isExternalNode(a)) - Number(isExternalNode(b)));
     } catch (error) {
       console.error(`Error fetching dependencies for ${sourcePath}:`, error);
       return [];
     }
   }
 
+  /**
+   * Parent-child retrieval: loads the 'class_signature' chunks (decorators, properties,
+   * injected dependencies) of the matched methods, unless the class itself was matched.
+   */
+  private getParentChunks(chunks: ProcessedChunk[]): ProcessedChunk[] {
+    const matchedIds = new Set(chunks.map((c) => c.id));
+    const parentIds = Array.from(
+      new Set(chunks.map((c) => c.parentId).filter((id): id is string => !!id && !matchedIds.has(id))),
+    );
+    return VectorStore.getInstance()
+      .loadChunks(parentIds.map((id) => ({ id, score: 0 })))
+      .map((res) => res.chunk);
+  }
+
   /**
    * Generates a Rich Context Report for the LLM.
    * It combines:
    * 1. The matched code snippets (Vector Search).
-   * 2. The file's dependencies (Graph Search).
-   * 3. Explicit File Paths to encourage using 'read_file'.
+   * 2. The class context of matched methods (Parent-Child).
+   * 3. The file's dependencies (Graph Search).
+   * 4. Explicit File Paths to encourage using 'read_file'.
    */
-  public async getContextForLLM(query: string): Promise<string> {
-    const results = await this.query(query, 4);
+  public async getContextForLLM(
+    query: string,
+    mode: SearchMode = 'hybrid',
+    filter: SearchFilter = {},
+  ): Promise<string> {
+    const results = await this.query(query, 4, mode, filter);
 
     // Group chunks by File to provide a structured view
     const filesMap = new Map<string, FileContext>();
@@ -129,14 +219,16 @@ export class RetrieverService {
           chunks: [],
           imports: this.getDependencies(path), // <--- GRAPH MAGIC 🕸️
           skeleton: this.getFileSkeleton(path), // <--- STRUCTURAL MAGIC 🏗️
+          parents: [],
         });
       }
       filesMap.get(path)?.chunks.push(res.chunk);
     }
+    filesMap.forEach((fileCtx) => (fileCtx.parents = this.getParentChunks(fileCtx.chunks)));
 
     // Build the formatted string
     let output = `🔎 **RAG ANALYSIS REPORT**\n`;
-    output += `Query: "${query}"\n`;
+    output += `Query: "${query}" (mode: ${mode}${describeFilter(filter)})\n`;
     output += `Found ${filesMap.size} relevant files.\n\n`;
 
     filesMap.forEach((fileCtx) => {
@@ -157,12 +249,21 @@ export class RetrieverService {
       }
 
       if (fileCtx.skeleton) {
-        output += `🏗️ **FILE SKELETON (MAP):**\n${fileCtx.skeleton}\n\n`;
+        output += `🏗️ **FILE SKELETON (MAP):**\n\`\`\`${fenceLanguage(fileCtx.filePath)}\n${fileCtx.skeleton}\n\`\`\`\n\n`;
       }
 
+      fileCtx.parents.forEach((parent) => {
+        output += `🏛️ **CLASS CONTEXT (${parent.metadata.className}):**\n\`\`\`ts\n${parent.content.trim()}\n\`\`\`\n\n`;
+      });
+
       output += `📝 **CODE SNIPPETS:**\n`;
       fileCtx.chunks.forEach((chunk) => {
-        output += `   --- [${chunk.metadata.methodName || 'Class Structure'}] ---\n`;
+        const label =
+          chunk.metadata.methodName ||
+          (chunk.metadata.symbolName &&
+            `${chunk.metadata.symbolKind ?? chunk.type} ${chunk.metadata.outline ? `${chunk.metadata.outline} > ` : ''}${chunk.metadata.symbolName}`) ||
+          'Class Structure';
+        output += `   --- [${label}] ---\n`;
         output += `${chunk.content.trim()}\n\n`;
       });
 
@@ -174,3 +275,34 @@ export class RetrieverService {
     return output;
   }
 }
+
+// ==========================================
+// 🛠️ HELPERS
+// ==========================================
+
+/**
+ * Chunk types allowed by a filter, or null when it allows everything.
+ */
+function chunkTypesOf(filter: SearchFilter): ChunkType[] | null {
+  if (!filter.include?.length && !filter.exclude?.length) return null;
+  const included = filter.include?.length ? filter.include : (Object.keys(CONTENT_KINDS) as ContentKind[]);
+  return included
+    .filter((kind) => !filter.exclude?.includes(kind))
+    .flatMap((kind) => CONTENT_KINDS[kind]);
+}
+
+function describeFilter(filter: SearchFilter): string {
+  return [
+    filter.include?.length ? `; include: ${filter.include.join(', ')}` : '',
+    filter.exclude?.length ? `; exclude: ${filter.exclude.join(', ')}` : '',
+  ].join('');
+}
+
+/**
+ * Code fence language of a file skeleton (TypeScript signatures or a document outline).
+ */
+function fenceLanguage(filePath: string): string {
+  if (path.basename(filePath).startsWith('.env')) return 'dotenv';
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  return ['md', 'prisma', 'json', 'yaml', 'yml'].includes(extension) ? extension : 'ts';
+}
@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitignoreMatcher, globToRegExp, ProjectScanner } from './scanner';
+import { DEFAULT_AGENT_CONFIG, IndexScopeConfig, loadAgentConfig } from '../config/agent-config';
+
+describe('globToRegExp', () => {
+  it.each([
+    ['**/*.ts', 'main.ts', true],
+    ['**/*.ts', 'apps/api/src/main.ts', true],
+    ['**/*.spec.ts', 'src/users/users.service.ts', false],
+    ['apps/*/src/**', 'apps/api/src/users/users.service.ts', true],
+    ['apps/*/src/**', 'apps/api/test/app.e2e.ts', false],
+    ['src/**/*.{service,controller}.ts', 'src/users/users.controller.ts', true],
+    ['src/?.ts', 'src/a.ts', true],
+    ['**/dist/**', 'libs/common/dist/index.ts', true],
+  ])('%s should match %s: %s', (glob, file, expected) => {
+    expect(globToRegExp(glob).test(file)).toBe(expected);
+  });
+});
+
+describe('GitignoreMatcher', () => {
+  const matcher = new GitignoreMatcher('', 'generated/\n*.gen.ts\n/tmp\n!keep.gen.ts\n# comment\n');
+
+  it('should apply git semantics (unanchored, anchored, dir-only, negation)', () => {
+    expect(matcher.matches('src/generated', true)).toBe(true);
+    expect(matcher.matches('src/generated', false)).toBeUndefined();
+    expect(matcher.matches('src/a/b.gen.ts', false)).toBe(true);
+    expect(matcher.matches('src/keep.gen.ts', false)).toBe(false);
+    expect(matcher.matches('tmp', true)).toBe(true);
+    expect(matcher.matches('src/tmp', true)).toBeUndefined();
+  });
+
+  it('should scope nested .gitignore rules to their directory', () => {
+    const nested = new GitignoreMatcher('apps/api', 'fixtures/');
+    expect(nested.matches('apps/api/fixtures', true)).toBe(true);
+    expect(nested.matches('apps/web/fixtures', true)).toBeUndefined();
+  });
+});
+
+describe('ProjectScanner', () => {
+  let projectDir: string;
+
+  const write = (relativePath: string, content = '') => {
+    const target = path.join(projectDir, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+
+  beforeAll(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scanner-'));
+    write('.gitignore', 'generated/\n');
+    write('apps/api/src/main.ts');
+    write('apps/api/src/app.service.spec.ts');
+    write('apps/api/src/generated/client.ts');
+    write('apps/api/.gitignore', 'legacy/\n');
+    write('apps/api/src/legacy/old.ts');
+    write('libs/common/src/index.ts');
+    write('libs/common/README.md');
+    write('tools/script.ts');
+    write('README.md');
+    write('prisma/schema.prisma');
+    write('.env.example');
+    write('.env');
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  const scan = (scope: Partial<IndexScopeConfig> = {}) =>
+    new ProjectScanner({ ...DEFAULT_AGENT_CONFIG.index, ...scope }, projectDir)
+      .scan()
+      .map((p) => p.split(path.sep).join('/'))
+      .sort();
+
+  it('should scan monorepo roots (specs included) honouring root and nested .gitignore files', () => {
+    expect(scan({ roots: ['apps', 'libs'] })).toEqual([
+      'apps/api/src/app.service.spec.ts',
+      'apps/api/src/main.ts',
+      'libs/common/README.md',
+      'libs/common/src/index.ts',
+    ]);
+  });
+
+  it('should scan single-file roots and project documents by default', () => {
+    expect(scan().filter((p) => !p.startsWith('apps/') && !p.startsWith('libs/'))).toEqual([
+      '.env.example',
+      'README.md',
+      'prisma/schema.prisma',
+    ]);
+    expect(scan({ roots: ['README.md', '.env', 'missing.md'] })).toEqual(['README.md']);
+  });
+
+  it('should apply custom roots and exclude globs', () => {
+    expect(scan({ roots: ['apps', 'tools'], exclude: ['apps/**/legacy/**', '**/*.spec.ts'], respectGitignore: false })).toEqual([
+      'apps/api/src/generated/client.ts',
+      'apps/api/src/main.ts',
+      'tools/script.ts',
+    ]);
+  });
+
+  it('should tell whether a single path would be scanned', () => {
+    const scanner = new ProjectScanner(DEFAULT_AGENT_CONFIG.index, projectDir);
+    expect(scanner.isIndexable('apps/api/src/main.ts')).toBe(true);
+    expect(scanner.isIndexable(path.join('apps', 'api', 'src', 'renamed.ts'))).toBe(true); // Need not exist
+    expect(scanner.isIndexable('apps/api/src/generated/client.ts')).toBe(false);
+    expect(scanner.isIndexable('apps/api/src/legacy/old.ts')).toBe(false);
+    expect(scanner.isIndexable('libs/common/README.md')).toBe(true);
+    expect(scanner.isIndexable('README.md')).toBe(true);
+    expect(scanner.isIndexable('.env')).toBe(false);
+    expect(scanner.isIndexable('libs/common/logo.png')).toBe(false);
+    expect(scanner.isIndexable('tools/script.ts')).toBe(false);
+    expect(scanner.isIndexable('libs/common/node_modules/pkg/index.ts')).toBe(false);
+  });
+
+  it('should load nestjs-agent.config.json over the defaults', () => {
+    write('nestjs-agent.config.json', JSON.stringify({ index: { roots: ['libs'] } }));
+    const config = loadAgentConfig(projectDir);
+    expect(config.index.roots).toEqual(['libs']);
+    expect(config.index.include).toEqual(DEFAULT_AGENT_CONFIG.index.include);
+  });
+});
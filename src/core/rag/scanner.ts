@@ -0,0 +1,244 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { IndexScopeConfig } from '../config/agent-config';
+
+/**
+ * Directories that are never worth walking, regardless of configuration.
+ */
+export const ALWAYS_SKIPPED_DIRS = new Set(['node_modules', '.git', '.agent']);
+
+/**
+ * Converts a glob into an anchored regular expression.
+ * Supports `**` (any depth), `*` (within a segment), `?` and `{a,b}` alternatives.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let regex = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        if (glob[i + 2] === '/' && atSegmentStart) {
+          regex += '(?:.*/)?'; // '**/' -> zero or more directories
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        regex += '\\{';
+      } else {
+        const options = glob.slice(i + 1, end).split(',');
+        regex += `(?:${options.map((o) => globToRegExp(o).source.slice(1, -1)).join('|')})`;
+        i = end;
+      }
+    } else {
+      regex += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regex}$`);
+}
+
+interface GitignoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * The rules of one `.gitignore` file, scoped to the directory that contains it.
+ */
+export class GitignoreMatcher {
+  private rules: GitignoreRule[] = [];
+
+  /**
+   * @param baseDir - POSIX directory of the .gitignore, relative to the project root ('' for root).
+   * @param content - Raw file content.
+   */
+  constructor(
+    private readonly baseDir: string,
+    content: string,
+  ) {
+    for (const rawLine of content.split(/\r?\n/)) {
+      let line = rawLine.replace(/\s+$/, '');
+      if (!line || line.startsWith('#')) continue;
+
+      const negate = line.startsWith('!');
+      if (negate) line = line.slice(1);
+      const dirOnly = line.endsWith('/');
+      if (dirOnly) line = line.slice(0, -1);
+
+      // A slash anywhere but at the end anchors the pattern to baseDir
+      const anchored = line.includes('/');
+      if (line.startsWith('/')) line = line.slice(1);
+
+      const pattern = anchored ? line : `**/${line}`;
+      this.rules.push({ regex: globToRegExp(pattern), negate, dirOnly });
+    }
+  }
+
+  /**
+   * Returns true/false when a rule decides, or undefined when no rule matches.
+   * Later rules override earlier ones (git semantics).
+   */
+  public matches(relativePath: string, isDirectory: boolean): boolean | undefined {
+    if (this.baseDir && !relativePath.startsWith(`${this.baseDir}/`)) return undefined;
+    const local = this.baseDir ? relativePath.slice(this.baseDir.length + 1) : relativePath;
+
+    let decision: boolean | undefined;
+    for (const rule of this.rules) {
+      if (rule.dirOnly && !isDirectory) continue;
+      if (rule.regex.test(local)) decision = !rule.negate;
+    }
+    return decision;
+  }
+}
+
+/**
+ * The Project Scanner 🗂️
+ * Lists the files the indexer should process according to the index scope:
+ * multiple roots, include/exclude globs and `.gitignore` rules.
+ * Returns paths relative to the project root (OS separators), as stored in the registry.
+ */
+export class ProjectScanner {
+  private readonly includes: RegExp[];
+  private readonly excludes: RegExp[];
+  private gitignoreCache = new Map<string, GitignoreMatcher | null>();
+
+  constructor(
+    private readonly scope: IndexScopeConfig,
+    private readonly rootDir: string = process.cwd(),
+  ) {
+    this.includes = scope.include.map(globToRegExp);
+    this.excludes = scope.exclude.map(globToRegExp);
+  }
+
+  /**
+   * Scans every configured root that exists on disk. A root may be a directory or a single file.
+   * @param roots - Optional override of the configured roots.
+   */
+  public scan(roots: string[] = this.scope.roots): string[] {
+    const files: string[] = [];
+    for (const root of roots) {
+      const absoluteRoot = path.resolve(this.rootDir, root);
+      if (!fs.existsSync(absoluteRoot)) continue;
+      if (fs.statSync(absoluteRoot).isFile()) {
+        // A single-file root (README.md, nest-cli.json) follows the same rules as a walked file
+        if (this.isIndexable(root, [root])) files.push(path.relative(this.rootDir, absoluteRoot));
+        continue;
+      }
+      if (!fs.statSync(absoluteRoot).isDirectory()) continue;
+
+      const rootRelative = this.toPosix(path.relative(this.rootDir, absoluteRoot));
+      this.walk(absoluteRoot, this.ancestorMatchers(rootRelative), files);
+    }
+    return Array.from(new Set(files));
+  }
+
+  /**
+   * Checks a single relative path against include/exclude globs (not .gitignore).
+   */
+  public isInScope(relativePath: string): boolean {
+    const posixPath = this.toPosix(relativePath);
+    return (
+      this.includes.some((r) => r.test(posixPath)) &&
+      !this.excludes.some((r) => r.test(posixPath))
+    );
+  }
+
+  /**
+   * Checks whether `scan` would list a single file: under one of the roots, matching the
+   * include/exclude globs, and neither the file nor one of its directories skipped or gitignored.
+   * Used to re-index individual paths without walking the project.
+   */
+  public isIndexable(relativePath: string, roots: string[] = this.scope.roots): boolean {
+    const posixPath = this.toPosix(path.relative(this.rootDir, path.resolve(this.rootDir, relativePath)));
+    const underRoot = roots.some((root) => {
+      const rootPath = this.toPosix(path.normalize(root)).replace(/\/$/, '');
+      return posixPath === rootPath || posixPath.startsWith(`${rootPath}/`);
+    });
+    if (!underRoot || !this.isInScope(posixPath)) return false;
+
+    const segments = posixPath.split('/');
+    if (segments.slice(0, -1).some((segment) => ALWAYS_SKIPPED_DIRS.has(segment))) return false;
+
+    // Same order as walk(): each level is checked against the .gitignore files above it
+    const matchers: GitignoreMatcher[] = [];
+    for (let i = 0; i < segments.length; i++) {
+      const matcher = this.loadGitignore(segments.slice(0, i).join('/'));
+      if (matcher) matchers.push(matcher);
+      if (this.isGitignored(matchers, segments.slice(0, i + 1).join('/'), i < segments.length - 1)) return false;
+    }
+    return true;
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  private walk(dir: string, matchers: GitignoreMatcher[], fileList: string[]) {
+    const relativeDir = this.toPosix(path.relative(this.rootDir, dir));
+    const local = this.loadGitignore(relativeDir);
+    const active = local ? [...matchers, local] : matchers;
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const absolutePath = path.join(dir, entry.name);
+      const relativePath = path.relative(this.rootDir, absolutePath);
+      const posixPath = this.toPosix(relativePath);
+
+      if (entry.isDirectory()) {
+        if (ALWAYS_SKIPPED_DIRS.has(entry.name)) continue;
+        if (this.isGitignored(active, posixPath, true)) continue;
+        this.walk(absolutePath, active, fileList);
+      } else if (entry.isFile()) {
+        if (this.isGitignored(active, posixPath, false)) continue;
+        if (this.isInScope(relativePath)) fileList.push(relativePath);
+      }
+    }
+  }
+
+  /**
+   * .gitignore files of the directories above a root also apply inside it.
+   */
+  private ancestorMatchers(rootRelative: string): GitignoreMatcher[] {
+    const matchers: GitignoreMatcher[] = [];
+    const segments = rootRelative ? rootRelative.split('/') : [];
+    for (let i = 0; i < segments.length; i++) {
+      const matcher = this.loadGitignore(segments.slice(0, i).join('/'));
+      if (matcher) matchers.push(matcher);
+    }
+    return matchers;
+  }
+
+  private loadGitignore(relativeDir: string): GitignoreMatcher | null {
+    if (!this.scope.respectGitignore) return null;
+    if (!this.gitignoreCache.has(relativeDir)) {
+      const file = path.join(this.rootDir, relativeDir, '.gitignore');
+      this.gitignoreCache.set(
+        relativeDir,
+        fs.existsSync(file) ? new GitignoreMatcher(relativeDir, fs.readFileSync(file, 'utf-8')) : null,
+      );
+    }
+    return this.gitignoreCache.get(relativeDir)!;
+  }
+
+  private isGitignored(matchers: GitignoreMatcher[], posixPath: string, isDirectory: boolean) {
+    let ignored = false;
+    for (const matcher of matchers) {
+      const decision = matcher.matches(posixPath, isDirectory);
+      if (decision !== undefined) ignored = decision;
+    }
+    return ignored;
+  }
+
+  private toPosix(p: string): string {
+    return p.split(path.sep).join('/');
+  }
+}
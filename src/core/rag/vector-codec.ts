@@ -0,0 +1,54 @@
+/**
+ * Binary encodings for embedding vectors stored in SQLite BLOBs.
+ * - 'f32': raw little-endian Float32 values (4 bytes per dimension).
+ * - 'i8': symmetric int8 quantization (1 byte per dimension) prefixed by
+ *   a Float32 scale factor. ~4x smaller, with negligible ranking loss.
+ */
+export type VectorEncoding = 'f32' | 'i8';
+
+/**
+ * Serializes a vector into a BLOB using the given encoding.
+ */
+export function encodeVector(
+  vector: ArrayLike<number>,
+  encoding: VectorEncoding = 'f32',
+): Buffer {
+  if (encoding === 'i8') {
+    let maxAbs = 0;
+    for (let i = 0; i < vector.length; i++) {
+      maxAbs = Math.max(maxAbs, Math.abs(vector[i]));
+    }
+    const scale = maxAbs === 0 ? 1 : maxAbs / 127;
+
+    const buffer = Buffer.alloc(4 + vector.length);
+    buffer.writeFloatLE(scale, 0);
+    for (let i = 0; i < vector.length; i++) {
+      buffer.writeInt8(Math.round(vector[i] / scale), 4 + i);
+    }
+    return buffer;
+  }
+
+  const floats = Float32Array.from(vector);
+  return Buffer.from(floats.buffer, floats.byteOffset, floats.byteLength);
+}
+
+/**
+ * Restores a vector from a BLOB produced by `encodeVector`.
+ */
+export function decodeVector(
+  blob: Buffer,
+  encoding: VectorEncoding = 'f32',
+): Float32Array {
+  if (encoding === 'i8') {
+    const scale = blob.readFloatLE(0);
+    const out = new Float32Array(blob.length - 4);
+    for (let i = 0; i < out.length; i++) {
+      out[i] = blob.readInt8(4 + i) * scale;
+    }
+    return out;
+  }
+
+  // Copy to guarantee 4-byte alignment (SQLite buffers may start at any offset)
+  const copy = Uint8Array.prototype.slice.call(blob);
+  return new Float32Array(copy.buffer, copy.byteOffset, copy.byteLength / 4);
+}
@@ -0,0 +1,316 @@
+import Database from 'better-sqlite3';
+import * as path from 'path';
+import * as fs from 'fs';
+import { AgentDB } from '../state/db';
+import { ProcessedChunk } from '../types';
+import { HnswIndex } from './hnsw';
+import { cosineSimilarity } from './math';
+import { decodeVector, encodeVector, VectorEncoding } from './vector-codec';
+import { EmbeddingStamp } from './index-manifest';
+
+/**
+ * A chunk returned by a similarity search.
+ */
+export interface VectorSearchResult {
+  chunk: ProcessedChunk;
+  score: number;
+}
+
+/**
+ * The Vector Store 🧲
+ * Owns the embeddings stored in `code_chunks.vector` (binary BLOBs) and the
+ * in-process HNSW index persisted next to `memory.db` (`memory.hnsw`).
+ *
+ * - Small projects are searched exactly (brute force over BLOBs, no JSON parsing).
+ * - Above `BRUTE_FORCE_THRESHOLD` chunks, searches go through the ANN index.
+ *
+ * The index is updated incrementally by the `IndexerService` and rebuilt from the
+ * database whenever it is missing or out of sync.
+ */
+export class VectorStore {
+  private static instance: VectorStore;
+
+  /** Below this number of vectors an exact scan is as fast as the ANN index. */
+  public static BRUTE_FORCE_THRESHOLD = 2000;
+
+  private db: Database.Database;
+  private index: HnswIndex | null = null;
+  private dirty = false;
+  private readonly indexPath: string;
+  private readonly encoding: VectorEncoding;
+
+  private constructor() {
+    this.db = AgentDB.getInstance();
+    this.indexPath = path.join(path.dirname(this.db.name), 'memory.hnsw');
+    // AGENT_VECTOR_QUANTIZATION=int8 stores vectors at 1 byte per dimension
+    this.encoding = process.env.AGENT_VECTOR_QUANTIZATION === 'int8' ? 'i8' : 'f32';
+    this.migrateLegacyVectors();
+  }
+
+  public static getInstance(): VectorStore {
+    if (!this.instance) {
+      this.instance = new VectorStore();
+    }
+    return this.instance;
+  }
+
+  /**
+   * Stores chunks with their embeddings and adds them to the ANN index.
+   * Chunks must carry their `filePath`.
+   * * @param stamp - The model and document format that produced the vectors.
+   */
+  public saveChunks(
+    chunks: ProcessedChunk[],
+    vectors: number[][],
+    stamp: Omit<EmbeddingStamp, 'dimensions'>,
+  ) {
+    const index = this.indexToUpdate(vectors[0]?.length);
+
+    const insertChunk = this.db.prepare(`
+      INSERT OR REPLACE INTO code_chunks (
+        id, file_path, chunk_type, content, vector, vector_encoding, metadata, parent_id,
+        enrichment_version, embedding_model, embedding_dimensions
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const insertMany = this.db.transaction(
+      (chunks: ProcessedChunk[], vectors: number[][]) => {
+        chunks.forEach((chunk, idx) => {
+          insertChunk.run(
+            chunk.id,
+            chunk.filePath,
+            chunk.type,
+            chunk.content,
+            encodeVector(vectors[idx], this.encoding),
+            this.encoding,
+            JSON.stringify(chunk.metadata),
+            chunk.parentId ?? null,
+            stamp.enrichmentVersion,
+            stamp.model,
+            vectors[idx].length,
+          );
+        });
+      },
+    );
+    insertMany(chunks, vectors);
+
+    chunks.forEach((chunk, idx) => index?.add(chunk.id, vectors[idx]));
+    this.dirty = true;
+  }
+
+  /**
+   * Removes the vectors of a file from the ANN index.
+   * Must be called BEFORE its rows are deleted from `code_chunks`.
+   */
+  public forgetFile(filePath: string) {
+    const index = this.indexToUpdate();
+    if (!index) return;
+
+    const rows = this.db
+      .prepare('SELECT id FROM code_chunks WHERE file_path = ?')
+      .all(filePath) as { id: string }[];
+    rows.forEach((r) => {
+      if (index.remove(r.id)) this.dirty = true;
+    });
+  }
+
+  /**
+   * Lists the files with chunks embedded by another model, with another dimensionality or from
+   * another document format (unstamped chunks predate versioning and count as stale).
+   */
+  public filesWithStaleEmbeddings(stamp: EmbeddingStamp): { files: string[]; chunks: number } {
+    const rows = this.db
+      .prepare(
+        `SELECT file_path, COUNT(*) AS n FROM code_chunks
+         WHERE embedding_model IS NOT ? OR embedding_dimensions IS NOT ? OR enrichment_version IS NOT ?
+         GROUP BY file_path`,
+      )
+      .all(stamp.model, stamp.dimensions, stamp.enrichmentVersion) as { file_path: string; n: number }[];
+    return { files: rows.map((r) => r.file_path), chunks: rows.reduce((sum, r) => sum + r.n, 0) };
+  }
+
+  /**
+   * Number of chunks holding a vector.
+   */
+  public countVectors(): number {
+    return (
+      this.db
+        .prepare('SELECT COUNT(*) AS n FROM code_chunks WHERE vector IS NOT NULL')
+        .get() as { n: number }
+    ).n;
+  }
+
+  /**
+   * Finds the chunks most similar to the query vector.
+   * @throws Error if the query vector does not match the stored dimensionality.
+   */
+  public search(queryVector: number[], limit: number): VectorSearchResult[] {
+    return this.loadChunks(this.nearest(queryVector, limit));
+  }
+
+  /**
+   * Same as `search` but returns only chunk ids and scores (best first).
+   */
+  public nearest(queryVector: number[], limit: number): { id: string; score: number }[] {
+    return this.countVectors() < VectorStore.BRUTE_FORCE_THRESHOLD
+      ? this.exactSearch(queryVector, limit)
+      : (this.ensureIndex(queryVector.length)?.search(queryVector, limit) ?? []);
+  }
+
+  /**
+   * Loads the chunk rows for a list of hits, preserving the hit order.
+   * Hits whose chunk no longer exists are dropped.
+   */
+  public loadChunks(hits: { id: string; score: number }[]): VectorSearchResult[] {
+    if (hits.length === 0) return [];
+
+    const placeholders = hits.map(() => '?').join(', ');
+    const rows = this.db
+      .prepare(
+        `SELECT id, file_path, chunk_type, content, metadata, parent_id FROM code_chunks WHERE id IN (${placeholders})`,
+      )
+      .all(...hits.map((h) => h.id)) as any[];
+    const byId = new Map(rows.map((row) => [row.id, row]));
+
+    return hits
+      .filter((hit) => byId.has(hit.id))
+      .map((hit) => {
+        const row = byId.get(hit.id);
+        const metadata = JSON.parse(row.metadata);
+        return {
+          score: hit.score,
+          chunk: {
+            id: row.id,
+            type: row.chunk_type,
+            content: row.content,
+            metadata: metadata,
+            // Ensure filePath is recovered from the DB row or metadata
+            filePath: row.file_path || metadata.filePath,
+            parentId: row.parent_id ?? undefined,
+          } as ProcessedChunk,
+        };
+      });
+  }
+
+  /**
+   * Writes the ANN index to disk if it changed. Compacts it first when
+   * deletions have piled up.
+   */
+  public persist() {
+    if (!this.index || !this.dirty) return;
+    if (this.index.needsCompaction) this.index.compact();
+
+    const tmpPath = `${this.indexPath}.tmp`;
+    fs.writeFileSync(tmpPath, this.index.serialize());
+    fs.renameSync(tmpPath, this.indexPath);
+    this.dirty = false;
+  }
+
+  /**
+   * Throws the ANN index away and rebuilds it from the database (after a bulk import).
+   */
+  public rebuildIndex() {
+    this.index = null;
+    fs.rmSync(this.indexPath, { force: true });
+    this.ensureIndex();
+    this.persist();
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  /**
+   * Loads the ANN index from disk, or rebuilds it from the database when the
+   * file is missing, corrupt or out of sync. Returns null while the store is empty
+   * and no dimensionality is known yet.
+   */
+  private ensureIndex(dimensions?: number): HnswIndex | null {
+    // A different dimensionality means the embeddings model changed: rebuild for the new one
+    if (this.index && (!dimensions || this.index.dimensions === dimensions)) return this.index;
+    this.index = null;
+
+    const total = this.countVectors();
+
+    if (fs.existsSync(this.indexPath)) {
+      try {
+        const loaded = HnswIndex.deserialize(fs.readFileSync(this.indexPath));
+        if (loaded.size === total && (!dimensions || loaded.dimensions === dimensions)) {
+          this.index = loaded;
+          return this.index;
+        }
+        console.log('🔁 [VectorStore] ANN index out of sync, rebuilding...');
+      } catch (error) {
+        console.error('⚠️ [VectorStore] Could not load ANN index, rebuilding:', error);
+      }
+    }
+
+    const rows = this.db
+      .prepare('SELECT id, vector, vector_encoding FROM code_chunks WHERE vector IS NOT NULL')
+      .iterate() as IterableIterator<{ id: string; vector: Buffer; vector_encoding: VectorEncoding }>;
+
+    let index: HnswIndex | null = dimensions ? new HnswIndex(dimensions) : null;
+    for (const row of rows) {
+      const vector = decodeVector(row.vector, row.vector_encoding);
+      if (!index) index = new HnswIndex(vector.length);
+      if (vector.length !== index.dimensions) continue; // Stale vectors from another model
+      index.add(row.id, vector);
+    }
+
+    this.index = index;
+    this.dirty = total > 0;
+    return this.index;
+  }
+
+  /**
+   * The ANN index to keep in sync with a write, or null when it can wait: below
+   * `BRUTE_FORCE_THRESHOLD` searches scan the vectors, so an index that is not loaded is not
+   * worth a rebuild. Its file is dropped instead, and rebuilt from the database once needed.
+   */
+  private indexToUpdate(dimensions?: number): HnswIndex | null {
+    if (!this.index && this.countVectors() < VectorStore.BRUTE_FORCE_THRESHOLD) {
+      fs.rmSync(this.indexPath, { force: true });
+      return null;
+    }
+    return this.ensureIndex(dimensions);
+  }
+
+  /**
+   * Exact cosine similarity over every stored BLOB.
+   */
+  private exactSearch(queryVector: number[], limit: number) {
+    const rows = this.db
+      .prepare('SELECT id, vector, vector_encoding FROM code_chunks WHERE vector IS NOT NULL')
+      .iterate() as IterableIterator<{ id: string; vector: Buffer; vector_encoding: VectorEncoding }>;
+
+    const scored: { id: string; score: number }[] = [];
+    for (const row of rows) {
+      const vector = decodeVector(row.vector, row.vector_encoding);
+      if (vector.length !== queryVector.length) continue; // Not re-embedded yet after a model change
+      scored.push({ id: row.id, score: cosineSimilarity(queryVector, vector) });
+    }
+    return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * One-time migration of rows indexed before BLOB storage existed.
+   */
+  private migrateLegacyVectors() {
+    const legacy = this.db
+      .prepare('SELECT id, vector_json FROM code_chunks WHERE vector IS NULL AND vector_json IS NOT NULL')
+      .all() as { id: string; vector_json: string }[];
+    if (legacy.length === 0) return;
+
+    console.log(`📦 [VectorStore] Migrating ${legacy.length} JSON vectors to binary storage...`);
+    const update = this.db.prepare(
+      'UPDATE code_chunks SET vector = ?, vector_encoding = ?, vector_json = NULL WHERE id = ?',
+    );
+    const migrate = this.db.transaction(() => {
+      legacy.forEach((row) =>
+        update.run(encodeVector(JSON.parse(row.vector_json), this.encoding), this.encoding, row.id),
+      );
+    });
+    migrate();
+  }
+}
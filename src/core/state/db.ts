@@ -54,48 +54,203 @@ export class AgentDB {
         path TEXT PRIMARY KEY,           -- Absolute or relative path (Unique ID)
         hash TEXT NOT NULL,              -- MD5 checksum of the full content
         last_indexed INTEGER NOT NULL,   -- Timestamp (Date.now())
-        skeleton_signature TEXT          -- JSON String of the file structure (Class/Methods signatures)
+        skeleton_signature TEXT          -- .d.ts-like skeleton (decorators, injections, signatures)
       )
     `,
     ).run();
 
     // 2. Dependency Graph (Knowledge Graph)
-    // Maps how files relate to each other (imports, inheritance).
+    // Maps how files relate to each other (imports, inheritance, injection).
+    // A pair of files can be linked by several relations (import + injects).
     db.prepare(
       `
       CREATE TABLE IF NOT EXISTS dependency_graph (
         source TEXT NOT NULL,
         target TEXT NOT NULL,
         relation TEXT NOT NULL,
-        PRIMARY KEY (source, target),
+        PRIMARY KEY (source, target, relation),
         FOREIGN KEY(source) REFERENCES file_registry(path) ON DELETE CASCADE
       )
     `,
     ).run();
+    this.migrateGraphPrimaryKey();
 
     // 3. Code Chunks (Vector Store)
     // Stores the actual code fragments and their vector embeddings.
-    // 'vector_json' stores the float array as a JSON string for simplicity in SQLite.
+    // 'vector' stores the embedding as a binary BLOB (see rag/vector-codec.ts).
+    // 'vector_json' is legacy (pre-BLOB indexes) and is migrated by the VectorStore.
     db.prepare(
       `
       CREATE TABLE IF NOT EXISTS code_chunks (
-        id TEXT PRIMARY KEY,        -- UUID
+        id TEXT PRIMARY KEY,        -- Content-derived hash (see NestChunker)
         file_path TEXT NOT NULL,    -- Parent File
         chunk_type TEXT NOT NULL,   -- 'method' | 'file' | 'class'
         content TEXT NOT NULL,      -- The actual code text
-        vector_json TEXT,           -- The Embedding [0.1, -0.5, ...]
+        vector_json TEXT,           -- Legacy: The Embedding as JSON [0.1, -0.5, ...]
         metadata TEXT,              -- JSON extra info (decorators, lines)
+        vector BLOB,                -- The Embedding (Float32 or int8-quantized)
+        vector_encoding TEXT,       -- 'f32' | 'i8'
+        parent_id TEXT,             -- Methods: the 'class_signature' chunk of their class
+        enrichment_version INTEGER, -- Format of the embedded text (see rag/embedding-document.ts)
+        embedding_model TEXT,       -- Model that produced the vector
+        embedding_dimensions INTEGER,
         FOREIGN KEY(file_path) REFERENCES file_registry(path) ON DELETE CASCADE
       )
     `,
     ).run();
+    this.addColumnIfMissing('code_chunks', 'vector', 'BLOB');
+    this.addColumnIfMissing('code_chunks', 'vector_encoding', 'TEXT');
+    this.addColumnIfMissing('code_chunks', 'parent_id', 'TEXT');
+    this.addColumnIfMissing('code_chunks', 'enrichment_version', 'INTEGER');
+    this.addColumnIfMissing('code_chunks', 'embedding_model', 'TEXT');
+    this.addColumnIfMissing('code_chunks', 'embedding_dimensions', 'INTEGER');
+
+    // 4. Full-Text Index (Lexical Search)
+    // FTS5 mirror of code_chunks ranked with BM25. 'identifiers' holds camelCase-split words.
+    db.prepare(
+      `
+      CREATE VIRTUAL TABLE IF NOT EXISTS code_chunks_fts USING fts5(
+        chunk_id UNINDEXED,
+        file_path UNINDEXED,
+        content,
+        identifiers
+      )
+    `,
+    ).run();
+
+    // 5. Module Graph (NestJS DI topology)
+    // One row per @Module class, plus one row per entry of its imports/providers/controllers/exports.
+    db.prepare(
+      `
+      CREATE TABLE IF NOT EXISTS nest_modules (
+        file_path TEXT NOT NULL,         -- File declaring the module
+        name TEXT NOT NULL,              -- Module class name (e.g. 'UsersModule')
+        is_global INTEGER NOT NULL,      -- 1 if decorated with @Global()
+        PRIMARY KEY (file_path, name),
+        FOREIGN KEY(file_path) REFERENCES file_registry(path) ON DELETE CASCADE
+      )
+    `,
+    ).run();
+    db.prepare(
+      `
+      CREATE TABLE IF NOT EXISTS nest_module_members (
+        file_path TEXT NOT NULL,
+        module_name TEXT NOT NULL,
+        kind TEXT NOT NULL,              -- 'import' | 'provider' | 'controller' | 'export'
+        name TEXT NOT NULL,              -- Class name or injection token
+        source TEXT,                     -- Defining file / package node
+        call TEXT,                       -- 'forRoot' | 'forFeature' | 'useClass' | ...
+        args TEXT,                       -- JSON array of identifiers passed to the call
+        FOREIGN KEY(file_path) REFERENCES file_registry(path) ON DELETE CASCADE
+      )
+    `,
+    ).run();
+
+    // 6. HTTP Route Catalog
+    // One row per endpoint declared by a @Controller handler.
+    db.prepare(
+      `
+      CREATE TABLE IF NOT EXISTS http_routes (
+        file_path TEXT NOT NULL,         -- Controller file
+        method TEXT NOT NULL,            -- 'GET' | 'POST' | ...
+        path TEXT NOT NULL,              -- Full path (controller prefix + handler path)
+        controller TEXT NOT NULL,
+        handler TEXT NOT NULL,
+        guards TEXT,                     -- JSON array
+        pipes TEXT,                      -- JSON array
+        params TEXT,                     -- JSON array of decorated parameters
+        line INTEGER,
+        FOREIGN KEY(file_path) REFERENCES file_registry(path) ON DELETE CASCADE
+      )
+    `,
+    ).run();
+
+    // 7. Indexing Queue
+    // Paths written since the last indexing run. Persisted so a crash or an early exit
+    // never loses a change: the next run (or the next process) picks them up.
+    db.prepare(
+      `
+      CREATE TABLE IF NOT EXISTS index_queue (
+        path TEXT PRIMARY KEY,           -- Relative path (the file may have been deleted)
+        enqueued_at INTEGER NOT NULL     -- Timestamp (Date.now()) of the latest change
+      )
+    `,
+    ).run();
+
+    // 8. Indexing Runs
+    // History of the runs made by the IndexCoordinator (most recent ones only).
+    db.prepare(
+      `
+      CREATE TABLE IF NOT EXISTS index_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        kind TEXT NOT NULL,              -- 'full' | 'paths' | 'import'
+        started_at INTEGER NOT NULL,
+        finished_at INTEGER NOT NULL,
+        indexed INTEGER NOT NULL,        -- Files (re)indexed
+        removed INTEGER NOT NULL,        -- Files dropped from the index
+        error TEXT                       -- Set when the run failed
+      )
+    `,
+    ).run();
 
     // Create indexes for faster retrieval
     db.prepare(
       `CREATE INDEX IF NOT EXISTS idx_graph_source ON dependency_graph(source)`,
     ).run();
+    db.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_graph_target ON dependency_graph(target)`,
+    ).run();
     db.prepare(
       `CREATE INDEX IF NOT EXISTS idx_chunks_file ON code_chunks(file_path)`,
     ).run();
+    db.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_module_members_name ON nest_module_members(name)`,
+    ).run();
+  }
+
+  /**
+   * Lightweight migration helper for databases created by older versions.
+   */
+  private static addColumnIfMissing(table: string, column: string, type: string) {
+    const columns = this.instance
+      .prepare(`PRAGMA table_info(${table})`)
+      .all() as { name: string }[];
+    if (!columns.some((c) => c.name === column)) {
+      this.instance.prepare(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`).run();
+    }
+  }
+
+  /**
+   * Graphs created by older versions keyed edges by (source, target) only, which
+   * silently dropped every relation after the first. SQLite cannot alter a primary
+   * key, so the table is rebuilt (existing edges are kept).
+   */
+  private static migrateGraphPrimaryKey() {
+    const columns = this.instance
+      .prepare('PRAGMA table_info(dependency_graph)')
+      .all() as { name: string; pk: number }[];
+    if (columns.find((c) => c.name === 'relation')?.pk) return;
+
+    const rebuild = this.instance.transaction(() => {
+      this.instance.prepare('ALTER TABLE dependency_graph RENAME TO dependency_graph_legacy').run();
+      this.instance
+        .prepare(
+          `
+          CREATE TABLE dependency_graph (
+            source TEXT NOT NULL,
+            target TEXT NOT NULL,
+            relation TEXT NOT NULL,
+            PRIMARY KEY (source, target, relation),
+            FOREIGN KEY(source) REFERENCES file_registry(path) ON DELETE CASCADE
+          )
+        `,
+        )
+        .run();
+      this.instance
+        .prepare('INSERT OR IGNORE INTO dependency_graph SELECT source, target, relation FROM dependency_graph_legacy')
+        .run();
+      this.instance.prepare('DROP TABLE dependency_graph_legacy').run();
+    });
+    rebuild();
   }
 }
@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexerService } from '../rag/indexer';
+import { LocalHashEmbeddings } from '../llm/local-embeddings';
+import { DependencyGraph } from './dependency-graph';
+import { analyzeImpactTool } from '../tools/analysis-tools';
+
+describe('DependencyGraph', () => {
+  const originalCwd = process.cwd();
+  let projectDir: string;
+  let graph: DependencyGraph;
+
+  const write = (relativePath: string, content: string) => {
+    const target = path.join(projectDir, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+
+  beforeAll(async () => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'impact-'));
+    process.chdir(projectDir);
+
+    write('src/users/user.entity.ts', 'export class User { id: string; }\n');
+    write(
+      'src/users/users.service.ts',
+      `import { User } from './user.entity';
+export class UsersService { find(): User[] { return []; } }
+`,
+    );
+    write(
+      'src/users/users.controller.ts',
+      `import { UsersService } from './users.service';
+export class UsersController { constructor(private readonly users: UsersService) {} }
+`,
+    );
+    write(
+      'src/users/users.module.ts',
+      `import { UsersController } from './users.controller';
+import { UsersService } from './users.service';
+export class UsersModule {}
+`,
+    );
+    write('src/app.module.ts', "import { UsersModule } from './users/users.module';\nexport class AppModule {}\n");
+    write(
+      'src/users/users.service.spec.ts',
+      `import { UsersService } from './users.service';
+describe('UsersService', () => { it('works', () => expect(new UsersService().find()).toEqual([])); });
+`,
+    );
+
+    await new IndexerService(new LocalHashEmbeddings({ dimensions: 32 })).indexProject();
+    graph = new DependencyGraph();
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should walk reverse dependencies transitively up to the depth limit', () => {
+    const dependents = graph.findDependents('src/users/user.entity.ts', 2);
+    expect(dependents.map((d) => [d.filePath, d.layer, d.depth])).toEqual([
+      ['src/users/users.service.ts', 'service', 1],
+      ['src/users/users.controller.ts', 'controller', 2],
+      ['src/users/users.module.ts', 'module', 2],
+      ['src/users/users.service.spec.ts', 'spec', 2],
+    ]);
+    expect(dependents[1].relations.sort()).toEqual(['import', 'injects']);
+
+    expect(graph.findDependents('src/users/user.entity.ts', 3).map((d) => d.filePath)).toContain('src/app.module.ts');
+    expect(graph.findCoveringSpecs(['src/users/users.controller.ts'])).toEqual([]);
+  });
+
+  it('should group the blast radius by layer and suggest the minimal test targets', async () => {
+    const report = await analyzeImpactTool.invoke({ filePath: 'src/users/user.entity.ts', maxDepth: 2 });
+    expect(report).toContain('🎮 Controllers:\n- src/users/users.controller.ts (depth 2, via src/users/users.service.ts');
+    expect(report).toContain('⚠️ Affected files without any spec:\n- src/users/user.entity.ts\n- src/users/users.controller.ts\n');
+    expect(report).toContain('- run_tests({ filePath: "src/users/users.service.spec.ts" })');
+  });
+});
@@ -0,0 +1,111 @@
+import * as path from 'path';
+import { AgentDB } from './db';
+import { isSpecFile } from '../tools/ast/spec-files';
+
+/**
+ * Architectural layer of a file, inferred from the Nest naming conventions.
+ */
+export type ImpactLayer = 'controller' | 'service' | 'module' | 'spec' | 'other';
+
+/**
+ * A file reached by walking the reverse dependencies of a changed file.
+ */
+export interface ImpactedFile {
+  filePath: string;
+  layer: ImpactLayer;
+  depth: number; // 1 = depends directly on the changed file
+  via: string; // The file it depends on along the shortest path
+  relations: string[]; // Relations of that edge ('import', 'injects', ...)
+}
+
+/**
+ * Upper bound of `findDependents`, to keep the walk cheap on large graphs.
+ */
+export const MAX_IMPACT_DEPTH = 10;
+
+/**
+ * Read-side queries over the dependency graph that need more than one hop.
+ */
+export class DependencyGraph {
+  private db = AgentDB.getInstance();
+
+  /**
+   * Walks the reverse dependencies of a file breadth-first (shortest path wins).
+   * 'tests' edges are not followed: specs are reached through their imports and
+   * reported by `findCoveringSpecs`.
+   * * @param filePath - Relative path of the changed file.
+   * @param maxDepth - Number of hops to follow (capped at `MAX_IMPACT_DEPTH`).
+   * @returns The affected files, closest first. The changed file itself is excluded.
+   */
+  public findDependents(filePath: string, maxDepth = 3): ImpactedFile[] {
+    const origin = this.toPosix(filePath);
+    const depthLimit = Math.min(Math.max(maxDepth, 1), MAX_IMPACT_DEPTH);
+    const inbound = this.db.prepare(
+      "SELECT source, relation FROM dependency_graph WHERE target = ? AND relation != 'tests'",
+    );
+
+    const visited = new Map<string, ImpactedFile>();
+    let frontier = [origin];
+    for (let depth = 1; depth <= depthLimit && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const target of frontier) {
+        const rows = inbound.all(target) as { source: string; relation: string }[];
+        for (const row of rows) {
+          const source = this.toPosix(row.source);
+          if (source === origin) continue;
+
+          const known = visited.get(source);
+          if (known) {
+            // Same hop through the same file: record every relation of the edge
+            if (known.depth === depth && known.via === target && !known.relations.includes(row.relation)) {
+              known.relations.push(row.relation);
+            }
+            continue;
+          }
+
+          visited.set(source, { filePath: source, layer: this.layerOf(source), depth, via: target, relations: [row.relation] });
+          // Nothing depends on a spec
+          if (!isSpecFile(source)) next.push(source);
+        }
+      }
+      frontier = next;
+    }
+
+    return Array.from(visited.values()).sort(
+      (a, b) => a.depth - b.depth || a.filePath.localeCompare(b.filePath),
+    );
+  }
+
+  /**
+   * Lists the specs covering any of the given files ('tests' edges), sorted by path.
+   */
+  public findCoveringSpecs(filePaths: string[]): string[] {
+    if (filePaths.length === 0) return [];
+    const placeholders = filePaths.map(() => '?').join(', ');
+    const rows = this.db
+      .prepare(
+        `SELECT DISTINCT source FROM dependency_graph WHERE relation = 'tests' AND target IN (${placeholders})`,
+      )
+      .all(...filePaths.map((p) => this.toPosix(p))) as { source: string }[];
+    return rows.map((r) => this.toPosix(r.source)).sort();
+  }
+
+  /**
+   * Infers the layer of a file from its name (`*.controller.ts`, `*.service.ts`, ...).
+   */
+  public layerOf(filePath: string): ImpactLayer {
+    if (isSpecFile(filePath)) return 'spec';
+    if (filePath.endsWith('.controller.ts')) return 'controller';
+    if (filePath.endsWith('.service.ts')) return 'service';
+    if (filePath.endsWith('.module.ts')) return 'module';
+    return 'other';
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  private toPosix(filePath: string): string {
+    return filePath.split(path.sep).join('/');
+  }
+}
@@ -1,5 +1,6 @@
 import * as crypto from 'crypto';
 import * as fs from 'fs';
+import * as path from 'path';
 import { AgentDB } from './db';
 
 /**
@@ -54,15 +55,14 @@ export class FileRegistry {
    * Updates the registry with the new file state.
    * This should be called AFTER the vector indexing and skeleton generation is done.
    * * @param filePath - The path of the file
-   * @param skeleton - The JSON string representing the AST Skeleton (Class/Method signatures)
+   * @param skeleton - The .d.ts-like skeleton of the file (decorators, injections, signatures)
    */
-  public updateFile(filePath: string, skeleton: object | null) {
+  public updateFile(filePath: string, skeleton: string | null) {
     if (!fs.existsSync(filePath)) return;
 
     const content = fs.readFileSync(filePath, 'utf-8');
     const hash = this.computeHash(content);
     const now = Date.now();
-    const skeletonStr = skeleton ? JSON.stringify(skeleton) : null;
 
     // UPSERT: Insert or Update if exists
     const stmt = this.db.prepare(`
@@ -70,14 +70,71 @@ export class FileRegistry {
       VALUES (?, ?, ?, ?)
     `);
 
-    stmt.run(filePath, hash, now, skeletonStr);
+    stmt.run(filePath, hash, now, skeleton);
+  }
+
+  /**
+   * Deletes everything derived from a previous indexing of the file:
+   * its code chunks, the dependency edges it declares (outbound), its @Module declarations
+   * and its HTTP routes.
+   * Called before re-processing a changed file so no ghost chunks survive.
+   * * @param filePath - The path of the file
+   */
+  public clearIndexedData(filePath: string) {
+    const purge = this.db.transaction((target: string) => {
+      this.db.prepare('DELETE FROM code_chunks WHERE file_path = ?').run(target);
+      this.db.prepare('DELETE FROM dependency_graph WHERE source = ?').run(target);
+      this.db.prepare('DELETE FROM nest_module_members WHERE file_path = ?').run(target);
+      this.db.prepare('DELETE FROM nest_modules WHERE file_path = ?').run(target);
+      this.db.prepare('DELETE FROM http_routes WHERE file_path = ?').run(target);
+    });
+    purge(filePath);
+  }
+
+  /**
+   * Removes a file from the registry together with its chunks and every
+   * graph edge pointing to or from it. Used when the file no longer exists on disk.
+   * * @param filePath - The path of the deleted file
+   */
+  public removeFile(filePath: string) {
+    const remove = this.db.transaction((target: string) => {
+      this.db.prepare('DELETE FROM code_chunks WHERE file_path = ?').run(target);
+      this.db
+        .prepare('DELETE FROM dependency_graph WHERE source = ? OR target = ?')
+        .run(target, target.split(path.sep).join('/'));
+      this.db.prepare('DELETE FROM nest_module_members WHERE file_path = ?').run(target);
+      this.db.prepare('DELETE FROM nest_modules WHERE file_path = ?').run(target);
+      this.db.prepare('DELETE FROM http_routes WHERE file_path = ?').run(target);
+      this.db.prepare('DELETE FROM file_registry WHERE path = ?').run(target);
+    });
+    remove(filePath);
+  }
+
+  /**
+   * Forgets the stored hash so the file is picked up again on the next run.
+   * Used when indexing a file failed half-way (e.g. embedding API error).
+   */
+  public invalidate(filePath: string) {
+    this.db
+      .prepare("UPDATE file_registry SET hash = '' WHERE path = ?")
+      .run(filePath);
+  }
+
+  /**
+   * Lists every path currently tracked in the registry.
+   */
+  public getAllPaths(): string[] {
+    const rows = this.db.prepare('SELECT path FROM file_registry').all() as {
+      path: string;
+    }[];
+    return rows.map((r) => r.path);
   }
 
   /**
    * Retrieves the cached skeleton for a file.
    * Used by the LLM Provider to build context without reading the full disk.
    */
-  public getSkeleton(filePath: string): object | null {
+  public getSkeleton(filePath: string): string | null {
     const stmt = this.db.prepare(
       'SELECT skeleton_signature FROM file_registry WHERE path = ?',
     );
@@ -85,7 +142,7 @@ export class FileRegistry {
     const row: FileRecord = stmt.get(filePath) as FileRecord;
 
     if (row && row.skeleton_signature) {
-      return JSON.parse(row.skeleton_signature);
+      return row.skeleton_signature;
     }
     return null;
   }
@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexerService } from '../rag/indexer';
+import { LocalHashEmbeddings } from '../llm/local-embeddings';
+import { ModuleRegistry } from './module-registry';
+import { AgentDB } from './db';
+import { queryModuleGraphTool } from '../tools/analysis-tools';
+
+describe('ModuleRegistry', () => {
+  const originalCwd = process.cwd();
+  let projectDir: string;
+  let registry: ModuleRegistry;
+
+  const write = (relativePath: string, content: string) => {
+    const target = path.join(projectDir, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+
+  beforeAll(async () => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'modules-'));
+    process.chdir(projectDir);
+
+    write('src/users/user.entity.ts', 'export class User { id: string; }\n');
+    write('src/users/users.service.ts', 'export class UsersService {}\n');
+    write('src/users/users.controller.ts', 'export class UsersController {}\n');
+    write('src/users/cache.ts', "export const USERS_CACHE = 'USERS_CACHE';\nexport class RedisCache {}\n");
+    write(
+      'src/users/users.module.ts',
+      `import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { User } from './user.entity';
+import { UsersService } from './users.service';
+import { UsersController } from './users.controller';
+import { USERS_CACHE, RedisCache } from './cache';
+
+const cacheProviders = [{ provide: USERS_CACHE, useClass: RedisCache }];
+
+@Module({
+  imports: [TypeOrmModule.forFeature([User])],
+  providers: [UsersService, ...cacheProviders],
+  controllers: [UsersController],
+  exports: [UsersService],
+})
+export class UsersModule {}
+`,
+    );
+    write('src/orders/orders.service.ts', 'export class OrdersService {}\n');
+    write(
+      'src/orders/orders.module.ts',
+      `import { Module, forwardRef } from '@nestjs/common';
+import { UsersModule } from '../users/users.module';
+import { OrdersService } from './orders.service';
+
+@Module({
+  imports: [forwardRef(() => UsersModule)],
+  providers: [OrdersService],
+})
+export class OrdersModule {}
+`,
+    );
+    write(
+      'src/app.module.ts',
+      `import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { UsersModule } from './users/users.module';
+import { OrdersModule } from './orders/orders.module';
+
+@Global()
+@Module({ imports: [ConfigModule.forRoot({ isGlobal: true }), UsersModule, OrdersModule] })
+export class AppModule {}
+`,
+    );
+
+    await new IndexerService(new LocalHashEmbeddings({ dimensions: 32 })).indexProject();
+    registry = new ModuleRegistry();
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should persist the @Module topology with forRoot/forFeature calls and custom providers', () => {
+    const users = registry.getModule('UsersModule')!;
+    expect(users.filePath).toBe(path.join('src', 'users', 'users.module.ts'));
+    expect(users.imports).toEqual([
+      { name: 'TypeOrmModule', source: 'npm:@nestjs/typeorm', call: 'forFeature', args: ['User'] },
+    ]);
+    expect(users.providers).toEqual([
+      { name: 'UsersService', source: 'src/users/users.service.ts' },
+      { name: 'USERS_CACHE', source: 'src/users/cache.ts', call: 'useClass', args: ['RedisCache'] },
+    ]);
+    expect(users.controllers.map((c) => c.name)).toEqual(['UsersController']);
+    expect(users.exports.map((e) => e.name)).toEqual(['UsersService']);
+
+    const app = registry.getModule('AppModule')!;
+    expect(app.isGlobal).toBe(true);
+    expect(app.imports.map((i) => `${i.name}${i.call ? `.${i.call}` : ''}`)).toEqual([
+      'ConfigModule.forRoot',
+      'UsersModule',
+      'OrdersModule',
+    ]);
+  });
+
+  it('should store module classes as config chunks', () => {
+    const row = AgentDB.getInstance()
+      .prepare('SELECT chunk_type, content FROM code_chunks WHERE file_path = ?')
+      .get(path.join('src', 'users', 'users.module.ts')) as { chunk_type: string; content: string };
+    expect(row.chunk_type).toBe('config');
+    expect(row.content).toContain('@Module({');
+  });
+
+  it('should answer which module provides a symbol and who imports a module', () => {
+    expect(registry.findProviders('RedisCache').map((m) => m.module.name)).toEqual(['UsersModule']);
+    expect(registry.findProviders('src/orders/orders.service.ts').map((m) => m.module.name)).toEqual(['OrdersModule']);
+    expect(registry.findImporters('UsersModule').map((m) => m.name).sort()).toEqual(['AppModule', 'OrdersModule']);
+    expect(registry.findNearestModule('src/orders/dto/create-order.dto.ts')?.name).toBe('OrdersModule');
+    expect(registry.findNearestModule('src/health/health.service.ts')?.name).toBe('AppModule');
+  });
+
+  it('should expose the topology through the query_module_graph tool', async () => {
+    const provides = await queryModuleGraphTool.invoke({ action: 'who_provides', target: 'OrdersService' });
+    expect(provides).toContain('OrdersModule');
+    expect(provides).toContain('Not exported');
+
+    const placement = await queryModuleGraphTool.invoke({
+      action: 'where_to_register',
+      target: 'src/users/users-audit.service.ts',
+    });
+    expect(placement).toContain("'providers' array of UsersModule");
+    expect(placement).toContain('imported by: AppModule, OrdersModule');
+  });
+
+  it('should drop the modules of a file when it is re-indexed without them', async () => {
+    write('src/orders/orders.module.ts', 'export const ORDERS = 1;\n');
+    await new IndexerService(new LocalHashEmbeddings({ dimensions: 32 })).indexProject();
+    expect(registry.getModule('OrdersModule')).toBeUndefined();
+  });
+});
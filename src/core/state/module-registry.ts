@@ -0,0 +1,195 @@
+import * as path from 'path';
+import { AgentDB } from './db';
+import { ModuleMemberKind, ModuleMemberRef, NestModuleDefinition } from '../types';
+
+/**
+ * A stored `@Module` declaration together with the file that declares it.
+ */
+export interface ModuleRecord extends NestModuleDefinition {
+  filePath: string;
+}
+
+/**
+ * A module member matched by a lookup, with the module that declares it.
+ */
+export interface ModuleMemberMatch {
+  module: ModuleRecord;
+  kind: ModuleMemberKind;
+  member: ModuleMemberRef;
+}
+
+interface MemberRow {
+  file_path: string;
+  module_name: string;
+  kind: ModuleMemberKind;
+  name: string;
+  source: string | null;
+  call: string | null;
+  args: string | null;
+}
+
+type ModuleSection = 'imports' | 'providers' | 'controllers' | 'exports';
+
+const SECTION_BY_KIND: Record<ModuleMemberKind, ModuleSection> = {
+  import: 'imports',
+  provider: 'providers',
+  controller: 'controllers',
+  export: 'exports',
+};
+
+const SECTIONS = Object.entries(SECTION_BY_KIND) as [ModuleMemberKind, ModuleSection][];
+
+/**
+ * Stores and queries the NestJS module graph (the DI topology extracted from `@Module`).
+ * Answers "which module provides X", "what does module Y export" and
+ * "which module should register a new provider".
+ */
+export class ModuleRegistry {
+  private db = AgentDB.getInstance();
+
+  /**
+   * Replaces the @Module declarations of a file.
+   * * @param filePath - Relative path of the file (registry key)
+   * @param modules - The modules found by the chunker (may be empty)
+   */
+  public saveModules(filePath: string, modules: NestModuleDefinition[]) {
+    const insertModule = this.db.prepare(
+      'INSERT OR REPLACE INTO nest_modules (file_path, name, is_global) VALUES (?, ?, ?)',
+    );
+    const insertMember = this.db.prepare(`
+      INSERT INTO nest_module_members (file_path, module_name, kind, name, source, call, args)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const save = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM nest_module_members WHERE file_path = ?').run(filePath);
+      this.db.prepare('DELETE FROM nest_modules WHERE file_path = ?').run(filePath);
+
+      for (const mod of modules) {
+        insertModule.run(filePath, mod.name, mod.isGlobal ? 1 : 0);
+        for (const [kind, section] of SECTIONS) {
+          mod[section].forEach((member) =>
+            insertMember.run(
+              filePath,
+              mod.name,
+              kind,
+              member.name,
+              member.source ?? null,
+              member.call ?? null,
+              member.args && member.args.length > 0 ? JSON.stringify(member.args) : null,
+            ),
+          );
+        }
+      }
+    });
+    save();
+  }
+
+  /**
+   * Lists every module of the project, sorted by name.
+   */
+  public listModules(): ModuleRecord[] {
+    const modules = this.db
+      .prepare('SELECT file_path, name, is_global FROM nest_modules ORDER BY name')
+      .all() as { file_path: string; name: string; is_global: number }[];
+    const members = this.db
+      .prepare('SELECT * FROM nest_module_members ORDER BY rowid')
+      .all() as MemberRow[];
+
+    return modules.map((row) => {
+      const record: ModuleRecord = {
+        filePath: row.file_path,
+        name: row.name,
+        isGlobal: row.is_global === 1,
+        imports: [],
+        providers: [],
+        controllers: [],
+        exports: [],
+      };
+      members
+        .filter((m) => m.file_path === row.file_path && m.module_name === row.name)
+        .forEach((m) => record[SECTION_BY_KIND[m.kind]].push(this.toMember(m)));
+      return record;
+    });
+  }
+
+  /**
+   * Finds a module by class name (e.g. 'UsersModule').
+   */
+  public getModule(name: string): ModuleRecord | undefined {
+    return this.listModules().find((m) => m.name === name);
+  }
+
+  /**
+   * Finds the modules that register a provider (or controller), matched by class name,
+   * injection token, implementing class (`useClass`) or defining file.
+   */
+  public findProviders(nameOrPath: string): ModuleMemberMatch[] {
+    const posixPath = nameOrPath.split(path.sep).join('/');
+    return this.findMembers(
+      (kind, member) =>
+        (kind === 'provider' || kind === 'controller') &&
+        (member.name === nameOrPath ||
+          member.source === posixPath ||
+          (member.args ?? []).includes(nameOrPath)),
+    );
+  }
+
+  /**
+   * Lists the modules whose `imports` reference the given module
+   * (directly, via `forRoot`/`forFeature`, or through `forwardRef`).
+   */
+  public findImporters(moduleName: string): ModuleRecord[] {
+    const importers = this.findMembers(
+      (kind, member) => kind === 'import' && member.name === moduleName,
+    ).map((match) => match.module);
+    return importers.filter(
+      (mod, idx) => importers.findIndex((m) => m.name === mod.name && m.filePath === mod.filePath) === idx,
+    );
+  }
+
+  /**
+   * Finds the module closest to a file in the folder hierarchy: a module declared in the
+   * same directory wins, then the nearest ancestor directory (feature-folder convention).
+   */
+  public findNearestModule(filePath: string): ModuleRecord | undefined {
+    let dir = path.posix.dirname(filePath.split(path.sep).join('/'));
+    const modules = this.listModules();
+
+    while (true) {
+      const candidates = modules.filter(
+        (m) => path.posix.dirname(m.filePath.split(path.sep).join('/')) === dir,
+      );
+      if (candidates.length > 0) return candidates[0];
+      if (dir === '.' || dir === '/' || dir === '') return undefined;
+      dir = path.posix.dirname(dir);
+    }
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  private findMembers(
+    predicate: (kind: ModuleMemberKind, member: ModuleMemberRef) => boolean,
+  ): ModuleMemberMatch[] {
+    const matches: ModuleMemberMatch[] = [];
+    for (const mod of this.listModules()) {
+      for (const [kind, section] of SECTIONS) {
+        mod[section]
+          .filter((member) => predicate(kind, member))
+          .forEach((member) => matches.push({ module: mod, kind, member }));
+      }
+    }
+    return matches;
+  }
+
+  private toMember(row: MemberRow): ModuleMemberRef {
+    return {
+      name: row.name,
+      source: row.source ?? undefined,
+      call: row.call ?? undefined,
+      args: row.args ? JSON.parse(row.args) : undefined,
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexerService } from '../rag/indexer';
+import { LocalHashEmbeddings } from '../llm/local-embeddings';
+import { RouteRegistry } from './route-registry';
+import { AgentDB } from './db';
+import { listHttpRoutesTool } from '../tools/analysis-tools';
+
+describe('RouteRegistry', () => {
+  const originalCwd = process.cwd();
+  let projectDir: string;
+  let registry: RouteRegistry;
+
+  const write = (relativePath: string, content: string) => {
+    const target = path.join(projectDir, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+
+  beforeAll(async () => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'routes-'));
+    process.chdir(projectDir);
+
+    write('src/payments/dto/create-payment.dto.ts', 'export class CreatePaymentDto { amount: number; }\n');
+    write(
+      'src/payments/payments.controller.ts',
+      `import { Body, Controller, Get, Param, ParseIntPipe, Post, UseGuards, UsePipes, ValidationPipe } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { CreatePaymentDto } from './dto/create-payment.dto';
+import { RolesGuard } from '../auth/roles.guard';
+
+@Controller('payments')
+@UseGuards(AuthGuard('jwt'))
+export class PaymentsController {
+  @Post()
+  @UseGuards(RolesGuard)
+  @UsePipes(new ValidationPipe({ whitelist: true }))
+  create(@Body() dto: CreatePaymentDto) {
+    return dto;
+  }
+
+  @Get(':id')
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return id;
+  }
+
+  @Get(['recent', 'latest'])
+  recent() {
+    return [];
+  }
+
+  private helper() {}
+}
+`,
+    );
+    write(
+      'src/legacy/legacy-payments.controller.ts',
+      `import { Controller, Get } from '@nestjs/common';
+
+@Controller({ path: '/payments/', version: '1' })
+export class LegacyPaymentsController {
+  @Get('/:paymentId')
+  find() {}
+}
+`,
+    );
+
+    await new IndexerService(new LocalHashEmbeddings({ dimensions: 32 })).indexProject();
+    registry = new RouteRegistry();
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should catalog every endpoint with full path, guards, pipes and parameter DTOs', () => {
+    const routes = registry.listRoutes({ controller: 'PaymentsController' });
+    expect(routes.map((r) => `${r.method} ${r.path} ${r.handler}`)).toEqual([
+      'POST /payments create',
+      'GET /payments/:id findOne',
+      'GET /payments/latest recent',
+      'GET /payments/recent recent',
+    ]);
+
+    const create = routes[0];
+    expect(create.guards).toEqual(["AuthGuard('jwt')", 'RolesGuard']);
+    expect(create.pipes).toEqual(['ValidationPipe']);
+    expect(create.params).toEqual([
+      { decorator: 'Body', type: 'CreatePaymentDto', source: 'src/payments/dto/create-payment.dto.ts' },
+    ]);
+    expect(routes[1].params).toEqual([
+      { decorator: 'Param', name: 'id', type: 'number', pipes: ['ParseIntPipe'] },
+    ]);
+  });
+
+  it('should tag handler chunks with their route', () => {
+    const rows = AgentDB.getInstance()
+      .prepare("SELECT metadata FROM code_chunks WHERE chunk_type = 'method' AND file_path = ?")
+      .all(path.join('src', 'payments', 'payments.controller.ts')) as { metadata: string }[];
+    const routes = rows.map((r) => JSON.parse(r.metadata).httpRoute).filter(Boolean).sort();
+    expect(routes).toEqual(['GET /payments/:id', 'GET /payments/recent, GET /payments/latest', 'POST /payments']);
+  });
+
+  it('should detect conflicting routes regardless of parameter names', () => {
+    expect(registry.findConflicts('GET', '/payments/:paymentId').map((r) => r.controller).sort()).toEqual([
+      'LegacyPaymentsController',
+      'PaymentsController',
+    ]);
+    expect(registry.findConflicts('POST', '/payments/refund')).toEqual([]);
+    expect(registry.findDuplicates()).toHaveLength(1);
+  });
+
+  it('should expose the catalog through the list_http_routes tool', async () => {
+    const listing = await listHttpRoutesTool.invoke({ pathPrefix: '/payments', method: 'GET' });
+    expect(listing).toContain('GET /payments/:id → PaymentsController.findOne()');
+    expect(listing).toContain('Conflicting routes');
+
+    const check = await listHttpRoutesTool.invoke({ check: 'post /payments' });
+    expect(check).toContain('CONFLICTS');
+    expect(check).toContain('PaymentsController.create()');
+  });
+});
@@ -0,0 +1,130 @@
+import { AgentDB } from './db';
+import { HttpMethod, HttpRouteDefinition } from '../types';
+
+/**
+ * A stored endpoint together with the controller file that declares it.
+ */
+export interface RouteRecord extends HttpRouteDefinition {
+  filePath: string;
+}
+
+/**
+ * Filters for `RouteRegistry.listRoutes`.
+ */
+export interface RouteFilter {
+  method?: HttpMethod;
+  pathPrefix?: string; // e.g. '/payments'
+  controller?: string;
+}
+
+/**
+ * Stores and queries the HTTP route catalog extracted from `@Controller` classes.
+ * Used to place new endpoints next to related ones without duplicating or shadowing routes.
+ */
+export class RouteRegistry {
+  private db = AgentDB.getInstance();
+
+  /**
+   * Replaces the routes of a file.
+   * * @param filePath - Relative path of the controller file (registry key)
+   * @param routes - The routes found by the chunker (may be empty)
+   */
+  public saveRoutes(filePath: string, routes: HttpRouteDefinition[]) {
+    const insert = this.db.prepare(`
+      INSERT INTO http_routes (file_path, method, path, controller, handler, guards, pipes, params, line)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const save = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM http_routes WHERE file_path = ?').run(filePath);
+      routes.forEach((route) =>
+        insert.run(
+          filePath,
+          route.method,
+          route.path,
+          route.controller,
+          route.handler,
+          JSON.stringify(route.guards),
+          JSON.stringify(route.pipes),
+          JSON.stringify(route.params),
+          route.line,
+        ),
+      );
+    });
+    save();
+  }
+
+  /**
+   * Lists the catalog sorted by path then method.
+   */
+  public listRoutes(filter: RouteFilter = {}): RouteRecord[] {
+    const prefix = filter.pathPrefix ? this.normalizePath(filter.pathPrefix) : undefined;
+    return this.loadAll().filter(
+      (route) =>
+        (!filter.method || route.method === filter.method) &&
+        (!filter.controller || route.controller === filter.controller) &&
+        (!prefix || prefix === '/' || route.path === prefix || route.path.startsWith(`${prefix}/`)),
+    );
+  }
+
+  /**
+   * Finds the existing routes that would collide with `method path`.
+   * Path parameters match each other whatever their name (`/users/:id` == `/users/:userId`),
+   * and `ALL` handlers collide with every verb.
+   */
+  public findConflicts(method: HttpMethod, routePath: string): RouteRecord[] {
+    const shape = this.routeShape(routePath);
+    return this.loadAll().filter(
+      (route) =>
+        (route.method === method || route.method === 'ALL' || method === 'ALL') &&
+        this.routeShape(route.path) === shape,
+    );
+  }
+
+  /**
+   * Groups of routes that already collide with each other (same verb and shape).
+   */
+  public findDuplicates(): RouteRecord[][] {
+    const groups = new Map<string, RouteRecord[]>();
+    for (const route of this.loadAll()) {
+      const key = `${route.method} ${this.routeShape(route.path)}`;
+      groups.set(key, [...(groups.get(key) || []), route]);
+    }
+    return Array.from(groups.values()).filter((group) => group.length > 1);
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  private loadAll(): RouteRecord[] {
+    const rows = this.db
+      .prepare('SELECT * FROM http_routes ORDER BY path, method, rowid')
+      .all() as any[];
+    return rows.map((row) => ({
+      filePath: row.file_path,
+      method: row.method,
+      path: row.path,
+      controller: row.controller,
+      handler: row.handler,
+      guards: JSON.parse(row.guards || '[]'),
+      pipes: JSON.parse(row.pipes || '[]'),
+      params: JSON.parse(row.params || '[]'),
+      line: row.line,
+    }));
+  }
+
+  private normalizePath(routePath: string): string {
+    return `/${routePath.split('/').filter(Boolean).join('/')}`;
+  }
+
+  /**
+   * '/users/:id/orders' -> '/users/:/orders'
+   */
+  private routeShape(routePath: string): string {
+    return this.normalizePath(routePath)
+      .split('/')
+      .map((segment) => (segment.startsWith(':') ? ':' : segment))
+      .join('/');
+  }
+}
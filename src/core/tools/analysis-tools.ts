@@ -3,7 +3,12 @@ import { z } from "zod";
 import * as fs from "fs";
 import * as path from "path";
 import { NestChunker } from "./ast/chunker";
+import { isExternalNode } from "./ast/module-resolver";
 import { AgentDB } from "../state/db";
+import { DependencyGraph, ImpactLayer, MAX_IMPACT_DEPTH } from "../state/dependency-graph";
+import { ModuleRecord, ModuleRegistry } from "../state/module-registry";
+import { RouteRecord, RouteRegistry } from "../state/route-registry";
+import { HttpMethod, ModuleMemberRef } from "../types";
 import { log } from "./utils/logger";
 
 export const analyzeCodeStructureTool = tool(
@@ -16,7 +21,7 @@ export const analyzeCodeStructureTool = tool(
       const content = fs.readFileSync(targetPath, "utf-8");
       const chunker = new NestChunker();
       const analysis = chunker.analyze(filePath, content, "dummy-hash");
-      return `✅ STRUCTURE FOR ${filePath}:\n\n${analysis.skeleton}\n\n[TIP: Use this to create accurate mocks or understand service signatures.]`;
+      return `✅ STRUCTURE FOR ${filePath}:\n\n\`\`\`ts\n${analysis.skeleton}\n\`\`\`\n\n[TIP: Use this to create accurate mocks or understand service signatures.]`;
     } catch (error: any) {
       log.error(`Failed to analyze structure: ${error.message}`);
       return `❌ Error analyzing code structure: ${error.message}`;
@@ -24,7 +29,7 @@ export const analyzeCodeStructureTool = tool(
   },
   {
     name: "analyze_code_structure",
-    description: "Analyzes the SKELETON of a file (classes, methods, signatures). Use this to understand how to MOCK services or call them correctly.",
+    description: "Returns the .d.ts-like SKELETON of a file: decorators, constructor injections, properties (real DTO/entity shapes), visibility and method/function signatures, without implementations. Use this to understand how to MOCK services or call them correctly.",
     schema: z.object({
       filePath: z.string().describe("Relative path to the .ts file."),
     }),
@@ -32,21 +37,29 @@ export const analyzeCodeStructureTool = tool(
 );
 
 export const queryDependencyGraphTool = tool(
-  async ({ filePath, direction }) => {
-    log.debug(`query_dependency_graph called for: ${filePath} [${direction}]`);
+  async ({ filePath, direction, relation }) => {
+    log.debug(`query_dependency_graph called for: ${filePath} [${direction}${relation ? `, ${relation}` : ""}]`);
     try {
       const db = AgentDB.getInstance();
       const normalizedPath = filePath.split(path.sep).join('/');
+      const relationFilter = relation ? " AND relation = ?" : "";
       let stmt;
       if (direction === "inbound") {
-        stmt = db.prepare("SELECT source, relation FROM dependency_graph WHERE target = ? OR target = ?");
+        stmt = db.prepare(`SELECT source, relation FROM dependency_graph WHERE (target = ? OR target = ?)${relationFilter}`);
       } else {
-        stmt = db.prepare("SELECT target, relation FROM dependency_graph WHERE source = ? OR source = ?");
+        stmt = db.prepare(`SELECT target, relation FROM dependency_graph WHERE (source = ? OR source = ?)${relationFilter}`);
+      }
+      const params = relation ? [normalizedPath, filePath, relation] : [normalizedPath, filePath];
+      const results = stmt.all(...params) as any[];
+      if (results.length === 0) return `ℹ️ No ${direction} ${relation ? `'${relation}' ` : ""}dependencies found for ${filePath}.`;
+      let output = `🕸️ DEPENDENCY GRAPH (${direction.toUpperCase()}${relation ? `, ${relation}` : ""}) for ${filePath}:\n\n`;
+      const nodes = results.map((row) => ({ relation: row.relation, node: direction === "inbound" ? row.source : row.target }));
+      nodes.filter((n) => !isExternalNode(n.node)).forEach((n) => output += `- [${n.relation}] ${n.node}\n`);
+      const external = nodes.filter((n) => isExternalNode(n.node));
+      if (external.length > 0) {
+        output += `\n📦 External packages:\n`;
+        external.forEach((n) => output += `- [${n.relation}] ${n.node}\n`);
       }
-      const results = stmt.all(normalizedPath, filePath) as any[];
-      if (results.length === 0) return `ℹ️ No ${direction} dependencies found for ${filePath}.`;
-      let output = `🕸️ DEPENDENCY GRAPH (${direction.toUpperCase()}) for ${filePath}:\n\n`;
-      results.forEach((row) => output += `- [${row.relation}] ${direction === "inbound" ? row.source : row.target}\n`);
       return output;
     } catch (error: any) {
       log.error(`Failed to query dependency graph: ${error.message}`);
@@ -55,10 +68,218 @@ export const queryDependencyGraphTool = tool(
   },
   {
     name: "query_dependency_graph",
-    description: "Queries the dependency graph (inbound/outbound).",
+    description: "Queries the dependency graph (inbound/outbound). Path aliases (tsconfig paths, Nest CLI libraries) are resolved to files; external packages appear as 'npm:<package>' / 'node:<builtin>' nodes, so you can also ask which files use a package (e.g. filePath 'npm:@nestjs/typeorm', direction 'inbound'). Relations: 'import', 'extends', 'implements' and 'injects' (constructor injection, @Inject(TOKEN), @InjectRepository(Entity)) and 'tests' (spec -> covered file). Example: \"who injects UsersService?\" -> filePath of users.service.ts, direction 'inbound', relation 'injects'.",
     schema: z.object({
-      filePath: z.string().describe("Relative path to the .ts file."),
+      filePath: z.string().describe("Relative path to the .ts file, or an external node like 'npm:@nestjs/common'."),
       direction: z.enum(["inbound", "outbound"]),
+      relation: z
+        .enum(["import", "extends", "implements", "injects", "tests"])
+        .optional()
+        .describe("Only return edges of this relation. Omit to get all relations."),
+    }),
+  },
+);
+
+const formatModuleMember = (member: ModuleMemberRef): string => {
+  let text = member.name;
+  if (member.call?.startsWith("use")) text += ` (${member.call}${member.args?.length ? `: ${member.args.join(", ")}` : ""})`;
+  else if (member.call) text += `.${member.call}(${(member.args || []).join(", ")})`;
+  return member.source ? `${text} ← ${member.source}` : text;
+};
+
+const describeModule = (registry: ModuleRegistry, mod: ModuleRecord): string => {
+  let output = `📦 ${mod.name}${mod.isGlobal ? " [@Global]" : ""} — ${mod.filePath}\n`;
+  const sections: [string, ModuleMemberRef[]][] = [
+    ["imports", mod.imports],
+    ["providers", mod.providers],
+    ["controllers", mod.controllers],
+    ["exports", mod.exports],
+  ];
+  sections.forEach(([label, members]) => {
+    output += `  ${label}: ${members.length === 0 ? "(none)" : ""}\n`;
+    members.forEach((m) => output += `    - ${formatModuleMember(m)}\n`);
+  });
+  const importers = registry.findImporters(mod.name).map((m) => m.name);
+  output += `  imported by: ${importers.length > 0 ? importers.join(", ") : "(none)"}\n`;
+  return output;
+};
+
+export const queryModuleGraphTool = tool(
+  async ({ action, target }) => {
+    log.debug(`query_module_graph called: ${action} ${target ?? ""}`);
+    try {
+      const registry = new ModuleRegistry();
+      const modules = registry.listModules();
+      if (modules.length === 0) return "ℹ️ No @Module declarations indexed yet. Run refresh_project_index first.";
+
+      if (action === "list_modules") {
+        let output = `🧩 NEST MODULES (${modules.length}):\n\n`;
+        modules.forEach((m) => output += `- ${m.name}${m.isGlobal ? " [@Global]" : ""} (${m.filePath}) — providers: ${m.providers.length}, exports: ${m.exports.map((e) => e.name).join(", ") || "(none)"}\n`);
+        return output;
+      }
+
+      if (!target) return `❌ Error: 'target' is required for action '${action}'.`;
+
+      if (action === "describe_module") {
+        const mod = registry.getModule(target);
+        if (!mod) return `❌ Module ${target} not found. Known modules: ${modules.map((m) => m.name).join(", ")}`;
+        return describeModule(registry, mod);
+      }
+
+      if (action === "who_provides") {
+        const matches = registry.findProviders(target);
+        if (matches.length === 0) return `ℹ️ No module registers ${target}. It cannot be injected until it is added to the 'providers' of a module.`;
+        let output = `🧩 PROVIDERS OF ${target}:\n\n`;
+        matches.forEach(({ module: mod, kind, member }) => {
+          const exported = mod.exports.some((e) => e.name === member.name);
+          const importers = registry.findImporters(mod.name).map((m) => m.name);
+          output += `- ${mod.name} (${mod.filePath}) registers it as ${kind}: ${formatModuleMember(member)}\n`;
+          if (kind === "provider") {
+            output += exported
+              ? `  ✅ Exported → injectable in ${mod.isGlobal ? "every module (@Global)" : `${mod.name} and modules importing it: ${importers.join(", ") || "(none yet)"}`}\n`
+              : `  ⚠️ Not exported → only injectable inside ${mod.name}. Add it to 'exports' to use it elsewhere.\n`;
+          }
+        });
+        return output;
+      }
+
+      // where_to_register: target is the path of the provider file
+      const existing = registry.findProviders(target);
+      if (existing.length > 0) {
+        return `ℹ️ ${target} is already registered in: ${existing.map((e) => `${e.module.name} (${e.module.filePath})`).join(", ")}. Do NOT register it twice; export it from that module and import the module where needed.`;
+      }
+      const nearest = registry.findNearestModule(target);
+      const rootModule = modules.find((m) => m.name === "AppModule");
+      if (!nearest) {
+        return `ℹ️ No feature module found above ${target}. ${rootModule ? `Register it in 'providers' of AppModule (${rootModule.filePath}) or create a dedicated feature module.` : "Create a feature module for it and import that module where it is needed."}`;
+      }
+      const importers = registry.findImporters(nearest.name).map((m) => m.name);
+      return `🧭 Register ${target} in the 'providers' array of ${nearest.name} (${nearest.filePath}).\n` +
+        `- If other modules inject it, also add it to 'exports' of ${nearest.name} (currently imported by: ${importers.join(", ") || "(none)"}).\n` +
+        `- Consumers must import ${nearest.name}${nearest.isGlobal ? " (not needed: it is @Global)" : ""}.\n\n` +
+        describeModule(registry, nearest);
+    } catch (error: any) {
+      log.error(`Failed to query module graph: ${error.message}`);
+      return `❌ Error querying module graph: ${error.message}`;
+    }
+  },
+  {
+    name: "query_module_graph",
+    description: "Queries the NestJS module topology extracted from @Module decorators (imports, providers, controllers, exports, forRoot/forFeature). Actions: 'list_modules'; 'describe_module' (target: module class name, e.g. 'UsersModule') to see what it imports/provides/exports; 'who_provides' (target: class name, injection token or file path) to find which module registers a provider and whether it is exported; 'where_to_register' (target: path of a new provider file) to find the module where it must be added. Use this BEFORE wiring new providers to avoid DI errors.",
+    schema: z.object({
+      action: z.enum(["list_modules", "describe_module", "who_provides", "where_to_register"]),
+      target: z.string().optional().describe("Module name, provider name/token, or provider file path depending on the action."),
+    }),
+  },
+);
+
+const formatRoute = (route: RouteRecord): string => {
+  let output = `- ${route.method} ${route.path} → ${route.controller}.${route.handler}() (${route.filePath}:${route.line})\n`;
+  if (route.guards.length > 0) output += `    guards: ${route.guards.join(", ")}\n`;
+  if (route.pipes.length > 0) output += `    pipes: ${route.pipes.join(", ")}\n`;
+  route.params.forEach((p) => {
+    output += `    @${p.decorator}(${p.name !== undefined ? `'${p.name}'` : ""})${p.type ? ` ${p.type}` : ""}${p.source ? ` ← ${p.source}` : ""}${p.pipes?.length ? ` [pipes: ${p.pipes.join(", ")}]` : ""}\n`;
+  });
+  return output;
+};
+
+export const listHttpRoutesTool = tool(
+  async ({ pathPrefix, method, controller, check }) => {
+    log.debug(`list_http_routes called: ${JSON.stringify({ pathPrefix, method, controller, check })}`);
+    try {
+      const registry = new RouteRegistry();
+
+      if (check) {
+        const match = check.trim().match(/^([A-Za-z]+)\s+(\S+)$/);
+        if (!match) return `❌ Error: 'check' must look like "POST /payments/refund".`;
+        const conflicts = registry.findConflicts(match[1].toUpperCase() as HttpMethod, match[2]);
+        if (conflicts.length === 0) return `✅ No existing route conflicts with ${match[1].toUpperCase()} ${match[2]}.`;
+        return `⚠️ ${match[1].toUpperCase()} ${match[2]} CONFLICTS with existing routes:\n\n${conflicts.map(formatRoute).join("")}`;
+      }
+
+      const routes = registry.listRoutes({ pathPrefix, method, controller });
+      if (routes.length === 0) return "ℹ️ No HTTP routes found for this filter. Run refresh_project_index if controllers were added recently.";
+
+      let output = `🌐 HTTP ROUTES (${routes.length}):\n\n`;
+      routes.forEach((route) => output += formatRoute(route));
+
+      const listed = new Set(routes.map((r) => `${r.method} ${r.path}`));
+      const duplicates = registry.findDuplicates().filter((group) => group.some((r) => listed.has(`${r.method} ${r.path}`)));
+      if (duplicates.length > 0) {
+        output += `\n⚠️ Conflicting routes already in the project:\n`;
+        duplicates.forEach((group) => output += `- ${group.map((r) => `${r.method} ${r.path} (${r.controller}.${r.handler})`).join(" vs ")}\n`);
+      }
+      return output;
+    } catch (error: any) {
+      log.error(`Failed to list HTTP routes: ${error.message}`);
+      return `❌ Error listing HTTP routes: ${error.message}`;
+    }
+  },
+  {
+    name: "list_http_routes",
+    description: "Lists the HTTP endpoints of the project (method, full path = @Controller prefix + handler path, controller/handler, guards, pipes and parameter DTOs). Filter by pathPrefix (e.g. '/payments'), method or controller. Use 'check' (e.g. \"POST /payments/refund\") BEFORE adding an endpoint to detect duplicate or conflicting routes.",
+    schema: z.object({
+      pathPrefix: z.string().optional().describe("Only routes under this path, e.g. '/payments'."),
+      method: z.enum(["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS", "HEAD", "ALL"]).optional(),
+      controller: z.string().optional().describe("Controller class name, e.g. 'PaymentsController'."),
+      check: z.string().optional().describe("A proposed route like \"POST /payments/:id/refund\" to check for conflicts."),
+    }),
+  },
+);
+
+const IMPACT_LAYERS: [ImpactLayer, string][] = [
+  ["controller", "🎮 Controllers"],
+  ["service", "⚙️ Services"],
+  ["module", "🧩 Modules"],
+  ["other", "📄 Other files"],
+  ["spec", "🧪 Specs"],
+];
+
+export const analyzeImpactTool = tool(
+  async ({ filePath, maxDepth }) => {
+    log.debug(`analyze_impact called for: ${filePath} [depth ${maxDepth}]`);
+    try {
+      const graph = new DependencyGraph();
+      const origin = filePath.split(path.sep).join("/");
+      const dependents = graph.findDependents(origin, maxDepth);
+
+      let output = `💥 IMPACT OF CHANGING ${origin} (depth ≤ ${Math.min(maxDepth, MAX_IMPACT_DEPTH)}): ${dependents.length} dependent files\n`;
+      IMPACT_LAYERS.forEach(([layer, label]) => {
+        const files = dependents.filter((d) => d.layer === layer);
+        if (files.length === 0) return;
+        output += `\n${label}:\n`;
+        files.forEach((d) => output += `- ${d.filePath} (depth ${d.depth}, via ${d.via} [${d.relations.join(", ")}])\n`);
+      });
+
+      // Specs named after / importing an affected file, plus the specs reached by the walk
+      const affected = [origin, ...dependents.filter((d) => d.layer !== "spec").map((d) => d.filePath)];
+      const specs = Array.from(
+        new Set([...graph.findCoveringSpecs(affected), ...dependents.filter((d) => d.layer === "spec").map((d) => d.filePath)]),
+      ).sort();
+      const uncovered = affected.filter((f) => graph.layerOf(f) !== "module" && graph.findCoveringSpecs([f]).length === 0);
+
+      if (specs.length === 0) {
+        output += `\n⚠️ No spec covers the affected files. Verify with run_integrity_check, and consider adding tests.\n`;
+        return output;
+      }
+      if (uncovered.length > 0) {
+        output += `\n⚠️ Affected files without any spec:\n`;
+        uncovered.forEach((f) => output += `- ${f}\n`);
+      }
+      output += `\n▶️ Suggested run_tests targets (instead of the whole suite):\n`;
+      specs.forEach((spec) => output += `- run_tests({ filePath: "${spec}" })\n`);
+      return output;
+    } catch (error: any) {
+      log.error(`Failed to analyze impact: ${error.message}`);
+      return `❌ Error analyzing impact: ${error.message}`;
+    }
+  },
+  {
+    name: "analyze_impact",
+    description: "Computes the blast radius of changing a file: walks its reverse dependencies (imports, injections, inheritance) transitively up to 'maxDepth' hops, groups the affected files by layer (controllers, services, modules, specs), lists the specs covering them and suggests the minimal 'run_tests' targets. Use it BEFORE changing a DTO, entity or shared service, and to verify the change without running the whole suite.",
+    schema: z.object({
+      filePath: z.string().describe("Relative path of the file you plan to change."),
+      maxDepth: z.number().int().min(1).max(MAX_IMPACT_DEPTH).default(3).describe("How many hops of reverse dependencies to follow."),
     }),
   },
 );
@@ -0,0 +1,69 @@
+import { NestChunker } from './chunker';
+import { FileChunker } from './file-chunker';
+import { MarkdownChunker } from './markdown-chunker';
+import { PrismaChunker } from './prisma-chunker';
+import { ConfigChunker } from './config-chunker';
+
+export type FileChunkerFactory = () => FileChunker;
+
+interface ChunkerRegistration {
+  pattern: RegExp; // Tested against the POSIX relative path
+  factory: FileChunkerFactory;
+}
+
+/**
+ * Chunker Registry 🧩
+ * Maps file types to chunkers. Built-in chunkers: 'typescript' (`NestChunker`), 'markdown',
+ * 'prisma' and 'config' (JSON, YAML, `.env.example`).
+ * Custom file types can be added at runtime with `register`; which files are indexed at all is
+ * still decided by the index scope (`include` globs in `nestjs-agent.config.json`).
+ */
+export class ChunkerRegistry {
+  private static registrations = new Map<string, ChunkerRegistration>();
+
+  /**
+   * Registers (or overrides) a chunker. When several patterns match a file, the chunker
+   * registered last wins.
+   */
+  public static register(name: string, pattern: RegExp, factory: FileChunkerFactory) {
+    this.registrations.delete(name);
+    this.registrations.set(name, { pattern, factory });
+  }
+
+  /**
+   * Lists the registered chunker names.
+   */
+  public static list(): string[] {
+    return Array.from(this.registrations.keys());
+  }
+
+  /**
+   * Name of the chunker handling a file, or null when no chunker supports it.
+   */
+  public static chunkerFor(filePath: string): string | null {
+    const posixPath = filePath.split('\\').join('/');
+    const matches = Array.from(this.registrations.entries()).filter(([, r]) => r.pattern.test(posixPath));
+    return matches.length > 0 ? matches[matches.length - 1][0] : null;
+  }
+
+  /**
+   * Instantiates a registered chunker.
+   * @throws Error if the chunker is not registered.
+   */
+  public static create(name: string): FileChunker {
+    const registration = this.registrations.get(name);
+    if (!registration) {
+      throw new Error(`❌ Unknown chunker "${name}". Available: ${this.list().join(', ')}`);
+    }
+    return registration.factory();
+  }
+}
+
+// ==========================================
+// 🧩 BUILT-IN CHUNKERS
+// ==========================================
+
+ChunkerRegistry.register('typescript', /\.(ts|tsx|mts|cts)$/, () => new NestChunker());
+ChunkerRegistry.register('markdown', /\.(md|mdx)$/i, () => new MarkdownChunker());
+ChunkerRegistry.register('prisma', /\.prisma$/, () => new PrismaChunker());
+ChunkerRegistry.register('config', /\.(json|ya?ml)$|(^|\/)\.env(\.[\w.-]+)?$/i, () => new ConfigChunker());
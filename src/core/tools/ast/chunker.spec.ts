@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NestChunker } from './chunker';
+import { ModuleResolver } from './module-resolver';
+
+describe('NestChunker relations', () => {
+  const originalCwd = process.cwd();
+  let projectDir: string;
+  let chunker: NestChunker;
+
+  const write = (relativePath: string, content = '') => {
+    const target = path.join(projectDir, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+
+  beforeAll(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chunker-'));
+    write('src/common/base.repository.ts');
+    write('src/common/auditable.interface.ts');
+    write('src/common/tokens.ts');
+    write('src/users/users.service.ts');
+    write('src/users/user.entity.ts');
+    write('src/mail/mail.service.ts');
+    process.chdir(projectDir);
+    chunker = new NestChunker(new ModuleResolver(projectDir));
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  const relationsOf = (filePath: string, content: string) =>
+    chunker
+      .analyze(filePath, content, 'hash')
+      .dependencies.filter((d) => d.relation !== 'import')
+      .map((d) => `${d.relation} ${d.targetPath}`)
+      .sort();
+
+  it('should emit extends, implements and injects edges resolved to the defining files', () => {
+    const relations = relationsOf(
+      'src/orders/orders.service.ts',
+      `import { Inject, Injectable, OnModuleInit, forwardRef } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BaseRepository } from '../common/base.repository';
+import { Auditable } from '../common/auditable.interface';
+import { CACHE_TOKEN } from '../common/tokens';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/user.entity';
+import { MailService } from '../mail/mail.service';
+
+@Injectable()
+export class OrdersService extends BaseRepository implements Auditable, OnModuleInit {
+  @Inject(CACHE_TOKEN) private readonly cache: unknown;
+
+  constructor(
+    private readonly users: UsersService,
+    @InjectRepository(User) private readonly repo: Repository<User>,
+    @Inject(forwardRef(() => MailService)) private readonly mail: MailService,
+    @Inject('CONFIG') private readonly config: Record<string, string>,
+    private readonly name: string,
+  ) {
+    super();
+  }
+
+  onModuleInit() {}
+}
+`,
+    );
+
+    expect(relations).toEqual([
+      'extends src/common/base.repository.ts',
+      'implements npm:@nestjs/common',
+      'implements src/common/auditable.interface.ts',
+      'injects src/common/tokens.ts',
+      'injects src/mail/mail.service.ts',
+      'injects src/users/user.entity.ts',
+      'injects src/users/users.service.ts',
+    ]);
+  });
+
+  it('should emit extends edges for interfaces and skip locally declared symbols', () => {
+    const relations = relationsOf(
+      'src/orders/order.interface.ts',
+      `import { Auditable } from '../common/auditable.interface';
+interface Base { id: string; }
+export interface Order extends Base, Auditable { total: number; }
+`,
+    );
+
+    expect(relations).toEqual(['extends src/common/auditable.interface.ts']);
+  });
+
+  it('should chunk specs per describe block and link them to the files they test', () => {
+    const analysis = chunker.analyze(
+      'src/users/users.service.spec.ts',
+      `import { Test } from '@nestjs/testing';
+import { UsersService } from './users.service';
+import { MailService } from '../mail/mail.service';
+jest.mock('../mail/mail.service');
+
+describe(UsersService.name, () => {
+  it('works', () => {});
+});
+
+describe.each([1, 2])('pagination %i', () => {});
+`,
+      'hash',
+    );
+
+    expect(analysis.chunks.map((c) => [c.type, c.metadata.symbolName])).toEqual([
+      ['test', 'UsersService'],
+      ['test', 'pagination %i'],
+    ]);
+    expect(analysis.chunks[0].content).toContain("jest.mock('../mail/mail.service');");
+    expect(analysis.modules).toEqual([]);
+    expect(relationsOf('src/users/users.service.spec.ts', analysis.chunks[0].content)).toEqual([
+      'tests src/mail/mail.service.ts',
+      'tests src/users/users.service.ts',
+    ]);
+  });
+});
+
+describe('NestChunker top-level declarations', () => {
+  const chunker = new NestChunker(new ModuleResolver(os.tmpdir()));
+
+  const summarize = (filePath: string, content: string) =>
+    chunker
+      .analyze(filePath, content, 'hash')
+      .chunks.map((c) => `${c.type} ${c.metadata.symbolKind ?? '-'} ${c.metadata.symbolName ?? c.metadata.className}`);
+
+  it('should chunk functions, arrow functions, interfaces, type aliases, enums and variables', () => {
+    const chunks = summarize(
+      'src/common/utils/money.utils.ts',
+      `export enum Currency { EUR = 'EUR', USD = 'USD' }
+export interface Money { amount: number; currency: Currency; }
+export type Cents = number;
+export const DEFAULT_CURRENCY = Currency.EUR;
+export const toCents = (money: Money): Cents => Math.round(money.amount * 100);
+export function format(money: Money): string;
+export function format(money: Money, locale?: string): string {
+  return money.amount.toLocaleString(locale);
+}
+`,
+    );
+
+    expect(chunks.sort()).toEqual([
+      'declaration enum Currency',
+      'declaration interface Money',
+      'declaration type_alias Cents',
+      'declaration variable DEFAULT_CURRENCY',
+      'function arrow_function toCents',
+      'function function format',
+    ]);
+  });
+
+  it('should keep classes and add the helpers declared next to them', () => {
+    const chunks = summarize(
+      'src/auth/roles.guard.ts',
+      `export const ROLES_KEY = 'roles';
+export class RolesGuard {
+  canActivate() { return true; }
+}
+`,
+    );
+
+    expect(chunks).toEqual([
+      'class_signature - RolesGuard',
+      'method - RolesGuard',
+      'declaration variable ROLES_KEY',
+    ]);
+  });
+
+  it('should derive chunk IDs from the content and link methods to their class chunk', () => {
+    const source = 'export class A {\n  run() { return 1; }\n}\n';
+    const first = chunker.analyze('src/a.ts', source, 'hash').chunks;
+    const again = chunker.analyze('src/a.ts', source, 'hash').chunks;
+    const edited = chunker.analyze('src/a.ts', source.replace('return 1', 'return 2'), 'hash').chunks;
+
+    expect(again.map((c) => c.id)).toEqual(first.map((c) => c.id));
+    expect(first[1].parentId).toBe(first[0].id);
+    expect(edited[0].id).toBe(first[0].id);
+    expect(edited[1].id).not.toBe(first[1].id);
+  });
+
+  it('should fall back to a file chunk when nothing is declared', () => {
+    const analysis = chunker.analyze('src/polyfills.ts', "import 'reflect-metadata';\nconsole.log('ready');\n", 'hash');
+    expect(analysis.chunks.map((c) => c.type)).toEqual(['file']);
+  });
+});
@@ -4,26 +4,47 @@ import {
   SyntaxKind,
   MethodDeclaration,
   ClassDeclaration,
+  Decorator,
+  Node,
 } from 'ts-morph';
-import { v4 as uuidv4 } from 'uuid';
+import { createHash } from 'crypto';
 import {
   ProcessedChunk,
   ChunkMetadata,
+  ChunkType,
   GraphEdge,
   DependencyRelation,
   FileAnalysisResult,
+  ModuleMemberRef,
+  NestModuleDefinition,
+  DeclarationKind,
+  HttpMethod,
+  HttpRouteDefinition,
+  RouteParamDefinition,
 } from '../../types';
 import * as path from 'path';
-import * as fs from 'fs'; // Necesario para verificar si existe el archivo .ts o index.ts
+import * as fs from 'fs';
+import { ModuleResolver, isExternalNode } from './module-resolver';
+import { jsDocSummary, renderSkeleton } from './skeleton';
+import { conventionalSubjectOf, isSpecFile } from './spec-files';
+import { FileChunker } from './file-chunker';
+
+/**
+ * Route decorators of `@nestjs/common`.
+ */
+const HTTP_METHOD_DECORATORS = new Set(['Get', 'Post', 'Put', 'Patch', 'Delete', 'Options', 'Head', 'All']);
 /**
  * The Brain Surgeon 🩺
  * Analyzes TypeScript files using AST to extract intelligent code chunks and dependency graphs.
  * Optimized for NestJS architecture patterns.
  */
-export class NestChunker {
+export class NestChunker implements FileChunker {
   private project: Project;
 
-  constructor() {
+  /**
+   * @param resolver - Resolves import specifiers (tsconfig paths, Nest CLI libraries, packages).
+   */
+  constructor(private readonly resolver: ModuleResolver = new ModuleResolver()) {
     // Initialize ts-morph project.
     // We skip loading the whole tsconfig for speed, processing files individually.
     this.project = new Project({
@@ -49,31 +70,49 @@ export class NestChunker {
     });
 
     // 2. Determine Strategy based on file extension/name
+    const isSpec = isSpecFile(filePath);
     const isAtomic = this.isAtomicFile(filePath);
 
     // 3. Extract Dependencies (Imports) -> For the Knowledge Graph
-    const dependencies = this.extractDependencies(sourceFile, filePath);
+    const symbolOrigins = new Map<string, string>();
+    const dependencies = this.extractDependencies(sourceFile, filePath, symbolOrigins);
+    if (isSpec) {
+      dependencies.push(...this.extractTestSubjects(filePath, dependencies));
+    }
+
+    // 3b. Extract the DI topology of @Module classes -> For the Module Graph
+    // (test files declare testing modules, not the app topology)
+    const originOf = this.symbolLocator(sourceFile, filePath, symbolOrigins);
+    const modules = isSpec ? [] : this.extractModules(sourceFile, originOf);
+
+    // 3c. Extract the HTTP endpoints of @Controller classes -> For the Route Catalog
+    const routes = isSpec ? [] : this.extractRoutes(sourceFile, originOf);
 
     // 4. Generate Chunks
     let chunks: ProcessedChunk[] = [];
 
-    if (isAtomic) {
+    if (isSpec) {
+      chunks = this.processSpecFile(sourceFile);
+    } else if (isAtomic) {
       chunks = this.processAtomicFile(sourceFile);
     } else {
-      chunks = this.processLogicFile(sourceFile);
+      chunks = this.processLogicFile(sourceFile, routes);
     }
 
-    // 5. Generate Skeleton (Simplified view for caching)
-    // We reuse the logic: if it's atomic, skeleton is full file. If logic, it's signatures.
-    const skeleton = isAtomic
-      ? { type: 'full', content: '...' }
-      : this.generateSkeleton(sourceFile);
+    // Identical declarations hash to the same ID: keep one
+    chunks = chunks.filter((chunk, idx) => chunks.findIndex((c) => c.id === chunk.id) === idx);
+
+    // 5. Generate Skeleton (Simplified .d.ts-like view for caching)
+    // Atomic files (DTOs, entities) get their real shape: decorated properties included.
+    const skeleton = renderSkeleton(sourceFile);
 
     return {
       filePath,
       fileHash,
       chunks,
       dependencies,
+      modules,
+      routes,
       skeleton,
     };
   }
@@ -101,11 +140,12 @@ export class NestChunker {
    * Stores the whole file as one chunk. Essential for DTOs/Entities context.
    */
   private processAtomicFile(sourceFile: SourceFile): ProcessedChunk[] {
+    const content = sourceFile.getFullText();
     return [
       {
-        id: uuidv4(),
+        id: this.chunkId(sourceFile, 'file', this.getClassName(sourceFile), content),
         type: 'file',
-        content: sourceFile.getFullText(),
+        content,
         metadata: {
           startLine: 1,
           endLine: sourceFile.getEndLineNumber(),
@@ -119,15 +159,26 @@ export class NestChunker {
    * Strategy B: Logic Processing (Parent-Child)
    * Splits Services/Controllers into Class Context (Parent) and Methods (Children).
    */
-  private processLogicFile(sourceFile: SourceFile): ProcessedChunk[] {
+  private processLogicFile(
+    sourceFile: SourceFile,
+    routes: HttpRouteDefinition[] = [],
+  ): ProcessedChunk[] {
     const chunks: ProcessedChunk[] = [];
     const classes = sourceFile.getClasses();
 
     for (const cls of classes) {
+      // 0. @Module classes are wiring, not logic: keep them whole as a 'config' chunk
+      if (cls.getDecorator('Module')) {
+        chunks.push(this.createModuleChunk(cls));
+        continue;
+      }
+
       // 1. Create Parent Chunk (The Class Context)
       // Includes: Decorators, Properties, Constructor. Excludes: Method Bodies.
-      const parentId = uuidv4();
       const classContext = this.extractClassContext(cls);
+      const parentId = this.chunkId(sourceFile, 'class_signature', cls.getName(), classContext);
+      const classDecorators = this.decoratorTexts(cls);
+      const injects = this.injectedDependencies(cls);
 
       chunks.push({
         id: parentId,
@@ -137,32 +188,170 @@ export class NestChunker {
           startLine: cls.getStartLineNumber(),
           endLine: cls.getEndLineNumber(),
           className: cls.getName(),
-          decorators: cls.getDecorators().map((d) => d.getName()),
+          decorators: classDecorators,
+          injects,
+          summary: jsDocSummary(cls) || undefined,
         },
       });
 
       // 2. Create Child Chunks (The Methods)
       const methods = cls.getMethods();
       for (const method of methods) {
+        const handlerRoutes = routes
+          .filter((r) => r.controller === cls.getName() && r.handler === method.getName())
+          .map((r) => `${r.method} ${r.path}`);
+        const content = method.getFullText(); // Method logic
         chunks.push({
-          id: uuidv4(),
+          id: this.chunkId(sourceFile, 'method', `${cls.getName()}.${method.getName()}`, content),
           parentId: parentId, // Link to Parent!
           type: 'method',
-          content: method.getFullText(), // Method logic
+          content,
           metadata: {
             startLine: method.getStartLineNumber(),
             endLine: method.getEndLineNumber(),
             className: cls.getName(),
+            classDecorators,
+            injects,
             methodName: method.getName(),
-            decorators: method.getDecorators().map((d) => d.getName()),
+            decorators: this.decoratorTexts(method),
+            summary: jsDocSummary(method) || undefined,
+            ...(handlerRoutes.length > 0 && { httpRoute: handlerRoutes.join(', ') }),
           },
         });
       }
     }
 
+    // 3. Top-level functions, interfaces, types, enums and variables
+    chunks.push(...this.processTopLevelDeclarations(sourceFile));
+
+    // 4. Nothing declared (e.g. a script of plain statements): keep the file searchable
+    if (chunks.length === 0 && sourceFile.getFullText().trim()) {
+      return this.processAtomicFile(sourceFile);
+    }
+
     return chunks;
   }
 
+  /**
+   * Strategy D: Top-Level Declarations
+   * One chunk per standalone function, arrow function, interface, type alias, enum or
+   * variable statement, so functional helpers, guards and `main.ts` are embedded too.
+   */
+  private processTopLevelDeclarations(sourceFile: SourceFile): ProcessedChunk[] {
+    const chunks: ProcessedChunk[] = [];
+    const push = (
+      node: Node,
+      content: string,
+      symbolName: string,
+      symbolKind: DeclarationKind,
+    ) => {
+      const type = symbolKind === 'function' || symbolKind === 'arrow_function' ? 'function' : 'declaration';
+      chunks.push({
+        id: this.chunkId(sourceFile, type, symbolName, content),
+        type,
+        content,
+        metadata: {
+          startLine: node.getStartLineNumber(),
+          endLine: node.getEndLineNumber(),
+          symbolName,
+          symbolKind,
+          // The JSDoc of `export const x = ...` belongs to the statement
+          summary:
+            jsDocSummary(Node.isVariableDeclaration(node) ? (node.getVariableStatement() ?? node) : node) ||
+            undefined,
+        },
+      });
+    };
+
+    sourceFile
+      .getFunctions()
+      .filter((fn) => !fn.isOverload())
+      .forEach((fn) => push(fn, fn.getFullText(), fn.getName() || 'default', 'function'));
+    sourceFile
+      .getInterfaces()
+      .forEach((i) => push(i, i.getFullText(), i.getName(), 'interface'));
+    sourceFile
+      .getTypeAliases()
+      .forEach((t) => push(t, t.getFullText(), t.getName(), 'type_alias'));
+    sourceFile
+      .getEnums()
+      .forEach((e) => push(e, e.getFullText(), e.getName(), 'enum'));
+
+    for (const statement of sourceFile.getVariableStatements()) {
+      const declarations = statement.getDeclarations();
+      for (const declaration of declarations) {
+        const initializer = declaration.getInitializer();
+        const isFunction =
+          Node.isArrowFunction(initializer) || Node.isFunctionExpression(initializer);
+        // Keep the `export const` keywords when the statement holds a single declaration
+        const content =
+          declarations.length === 1
+            ? statement.getFullText()
+            : `${statement.getDeclarationKind()} ${declaration.getText()};`;
+        push(declaration, content, declaration.getName(), isFunction ? 'arrow_function' : 'variable');
+      }
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Strategy C: Module Processing
+   * A `@Module` class is indexed whole (imports + decorator + body) so the LLM sees the full DI wiring.
+   */
+  private createModuleChunk(cls: ClassDeclaration): ProcessedChunk {
+    const imports = cls
+      .getSourceFile()
+      .getImportDeclarations()
+      .map((i) => i.getText())
+      .join('\n');
+
+    const content = `${imports}\n\n${cls.getText()}`;
+    return {
+      id: this.chunkId(cls.getSourceFile(), 'config', cls.getName(), content),
+      type: 'config',
+      content,
+      metadata: {
+        startLine: cls.getStartLineNumber(),
+        endLine: cls.getEndLineNumber(),
+        className: cls.getName(),
+        decorators: this.decoratorTexts(cls),
+      },
+    };
+  }
+
+  /**
+   * Strategy E: Spec Processing
+   * One 'test' chunk per top-level `describe` block, prefixed with the imports and the
+   * top-level `jest.mock(...)` calls so the mocking conventions travel with each suite.
+   */
+  private processSpecFile(sourceFile: SourceFile): ProcessedChunk[] {
+    const preamble = [
+      ...sourceFile.getImportDeclarations().map((i) => i.getText()),
+      ...sourceFile
+        .getStatements()
+        .filter((st) => Node.isExpressionStatement(st) && st.getText().startsWith('jest.mock('))
+        .map((st) => st.getText()),
+    ].join('\n');
+
+    const chunks: ProcessedChunk[] = this.topLevelDescribes(sourceFile).map(({ statement, title }) => {
+      const content = `${preamble}\n\n${statement.getText()}`;
+      return {
+        id: this.chunkId(sourceFile, 'test', title, content),
+        type: 'test',
+        content,
+        metadata: {
+          startLine: statement.getStartLineNumber(),
+          endLine: statement.getEndLineNumber(),
+          symbolName: title,
+        },
+      };
+    });
+
+    if (chunks.length > 0) return chunks;
+    return this.processAtomicFile(sourceFile).map((chunk) => ({ ...chunk, type: 'test' }));
+  }
+
   // ==========================================
   // 🛠️ HELPERS
   // ==========================================
@@ -204,118 +393,438 @@ export class NestChunker {
   }
 
   /**
-   * Extracts static import relationships to build the Dependency Graph.
-   * It parses the AST to find all relative imports and resolves them to physical files.
+   * Extracts the relationships of the file to build the Dependency Graph:
+   * - 'import': `import` and re-export (`export ... from`) declarations, resolved through the
+   *   `ModuleResolver` (relative paths, tsconfig aliases, Nest CLI libraries, external packages).
+   * - 'extends' / 'implements': class and interface heritage clauses.
+   * - 'injects': constructor parameter types, `@Inject(TOKEN)` and `@InjectRepository(Entity)`-style
+   *   decorators on constructor parameters and properties.
+   * Structural relations point to the file that defines the symbol (found through the imports).
    * * @param sourceFile - The AST SourceFile object from ts-morph.
    * @param sourcePath - The relative path of the file currently being analyzed (e.g., 'src/auth/auth.service.ts').
-   * @returns An array of graph edges representing 'import' relationships.
+   * @param symbolOrigins - Filled with the graph node each imported local name comes from.
+   * @returns An array of graph edges, at most one per (target, relation).
    */
   private extractDependencies(
     sourceFile: SourceFile,
     sourcePath: string,
+    symbolOrigins: Map<string, string>,
   ): GraphEdge[] {
     const edges: GraphEdge[] = [];
-    const imports = sourceFile.getImportDeclarations();
+    const seen = new Set<string>();
+    const addEdge = (target: string | null | undefined, relation: DependencyRelation) => {
+      const key = `${relation}:${target}`;
+      if (!target || seen.has(key)) return;
+      seen.add(key);
+      edges.push({ sourcePath: sourcePath, targetPath: target, relation });
+    };
 
-    // Necesitamos el directorio absoluto para resolver, así que combinamos CWD + sourcePath
     // Nota: Asumimos que sourcePath entra como relativa, ej: 'src/users/users.service.ts'
-    const absoluteSourcePath = path.resolve(process.cwd(), sourcePath);
-    const sourceDir = path.dirname(absoluteSourcePath);
-
-    for (const imp of imports) {
-      const moduleSpecifier = imp.getModuleSpecifierValue();
-
-      // 1. Filter: We only care about internal relative imports (starting with '.')
-      if (moduleSpecifier.startsWith('.')) {
-        // 2. Resolution: Find the physical .ts file on disk
-        const resolvedPath = this.resolveModulePath(sourceDir, moduleSpecifier);
-
-        // 3. Validation: Only link if the file actually exists
-        if (resolvedPath) {
-          // 4. Normalization: Convert back to relative path for the Database
-          // We use split/join to force forward slashes (/) even on Windows for DB consistency.
-          const relativeTarget = path
-            .relative(process.cwd(), resolvedPath)
-            .split(path.sep)
-            .join('/');
-
-          edges.push({
-            sourcePath: sourcePath, // Already relative
-            targetPath: relativeTarget,
-            relation: 'import',
-          });
+    const sourceDir = path.dirname(path.resolve(process.cwd(), sourcePath));
+
+    // 1. Imports (and the local names each one brings into scope)
+    for (const imp of sourceFile.getImportDeclarations()) {
+      const target = this.resolver.resolve(imp.getModuleSpecifierValue(), sourceDir);
+      addEdge(target, 'import');
+      if (!target) continue;
+
+      const localNames = [
+        imp.getDefaultImport()?.getText(),
+        imp.getNamespaceImport()?.getText(),
+        ...imp.getNamedImports().map((n) => (n.getAliasNode() ?? n.getNameNode()).getText()),
+      ];
+      localNames.forEach((name) => name && symbolOrigins.set(name, target));
+    }
+    for (const exp of sourceFile.getExportDeclarations()) {
+      const specifier = exp.getModuleSpecifierValue();
+      if (specifier) addEdge(this.resolver.resolve(specifier, sourceDir), 'import');
+    }
+
+    // Symbols declared in this file need no edge (self-reference)
+    const originOf = (typeText: string | undefined) => {
+      const name = this.rootIdentifier(typeText);
+      return name ? symbolOrigins.get(name) : undefined;
+    };
+
+    // 2. Heritage: classes and interfaces
+    for (const cls of sourceFile.getClasses()) {
+      addEdge(originOf(cls.getExtends()?.getExpression().getText()), 'extends');
+      cls.getImplements().forEach((i) => addEdge(originOf(i.getExpression().getText()), 'implements'));
+
+      // 3. Dependency Injection
+      const injectionSites = [
+        ...cls.getConstructors().flatMap((ctor) => ctor.getParameters()),
+        ...cls.getProperties(),
+      ];
+      for (const site of injectionSites) {
+        const token = this.injectionToken(site.getDecorators());
+        if (token !== undefined) {
+          addEdge(originOf(token ?? undefined), 'injects');
+        } else if (Node.isParameterDeclaration(site)) {
+          addEdge(originOf(site.getTypeNode()?.getText()), 'injects');
         }
       }
     }
+    for (const iface of sourceFile.getInterfaces()) {
+      iface.getExtends().forEach((e) => addEdge(originOf(e.getExpression().getText()), 'extends'));
+    }
+
     return edges;
   }
 
-  private getClassName(sourceFile: SourceFile): string | undefined {
-    return sourceFile.getClasses()[0]?.getName();
+  /**
+   * Links a spec to the files it covers with 'tests' edges: the file it is named after
+   * (`users.service.spec.ts` -> `users.service.ts`) and every project file it imports.
+   */
+  private extractTestSubjects(specPath: string, dependencies: GraphEdge[]): GraphEdge[] {
+    const subjects = new Set<string>();
+
+    const sibling = conventionalSubjectOf(specPath);
+    if (sibling && fs.existsSync(path.resolve(process.cwd(), sibling))) subjects.add(sibling);
+
+    dependencies
+      .filter((edge) => edge.relation === 'import' && !isExternalNode(edge.targetPath))
+      .forEach((edge) => subjects.add(edge.targetPath));
+
+    return Array.from(subjects).map((target) => ({
+      sourcePath: specPath,
+      targetPath: target,
+      relation: 'tests' as const,
+    }));
   }
 
-  private generateSkeleton(sourceFile: SourceFile): object {
-    return {
-      // 1. Guardamos imports visuales para que el LLM sepa de dónde vienen los tipos
-      imports: sourceFile.getImportDeclarations().map((i) => i.getText()),
-
-      classes: sourceFile.getClasses().map((c) => ({
-        name: c.getName(),
-        // 2. MEJORA: No guardes solo el nombre "create".
-        // Guarda la firma: "create(dto: CreateUserDto): Promise<User>"
-        // Cortamos justo antes de la llave '{' para quitar el cuerpo.
-        methods: c.getMethods().map((m) => {
-          // Obtiene solo la estructura (nombre, args, retorno)
-          //   const structure = m.getStructure();
-          // O reconstrúyelo simple:
-          return `${m.getName()}(${m
-            .getParameters()
-            .map((p) => p.getText())
-            .join(', ')}): ${m.getReturnType().getText()};`;
-        }),
-      })),
-    };
+  /**
+   * Top-level `describe(...)` calls (`describe.skip`, `describe.only` and `describe.each(...)(...)`
+   * included) with their title: the string, or the identifier for `describe(UsersService.name, ...)`.
+   */
+  private topLevelDescribes(sourceFile: SourceFile): { statement: Node; title: string }[] {
+    const suites: { statement: Node; title: string }[] = [];
+    for (const statement of sourceFile.getStatements()) {
+      if (!Node.isExpressionStatement(statement)) continue;
+      const call = statement.getExpression();
+      if (!Node.isCallExpression(call) || !/^describe\b/.test(call.getExpression().getText())) continue;
+
+      const [titleArg] = call.getArguments();
+      let title = '';
+      if (titleArg && (Node.isStringLiteral(titleArg) || Node.isNoSubstitutionTemplateLiteral(titleArg))) {
+        title = titleArg.getLiteralValue();
+      } else if (titleArg) {
+        title = this.rootIdentifier(titleArg.getText()) ?? titleArg.getText();
+      }
+      suites.push({ statement, title });
+    }
+    return suites;
   }
 
   /**
-   * Resolves the physical filesystem path for a given import string.
-   * Handles TypeScript resolution strategies including file extensions and directory indexes.
-   * * @param sourceDir - The absolute directory path of the file containing the import.
-   * @param importPath - The raw import string (e.g., './users.service' or './dto').
-   * @returns The absolute path to the resolved .ts file, or `null` if not found/external.
-   * * @example
-   * resolveModulePath('/src/users', './dto');
-   * // Returns: '/src/users/dto/index.ts'
+   * Parses `@Module({ imports, providers, controllers, exports })` declarations.
+   * Handles dynamic modules (`TypeOrmModule.forFeature([User])`), custom providers
+   * (`{ provide, useClass }`), `forwardRef`, spreads and arrays declared as local constants.
+   * Each member is linked to the file (or package) that defines it.
    */
-  private resolveModulePath(
-    sourceDir: string,
-    importPath: string,
-  ): string | null {
-    // 1. Construct the potential absolute path
-    const absoluteBase = path.join(sourceDir, importPath);
-
-    // Case A: Explicit file extension (rare in imports, but valid)
-    // import ... from './file.ts'
-    if (fs.existsSync(absoluteBase) && fs.statSync(absoluteBase).isFile()) {
-      return absoluteBase;
+  private extractModules(
+    sourceFile: SourceFile,
+    originOf: (name: string | undefined) => string | undefined,
+  ): NestModuleDefinition[] {
+    return sourceFile
+      .getClasses()
+      .filter((cls) => cls.getDecorator('Module'))
+      .map((cls) => {
+        const definition: NestModuleDefinition = {
+          name: cls.getName() || 'AnonymousModule',
+          isGlobal: !!cls.getDecorator('Global'),
+          imports: [],
+          providers: [],
+          controllers: [],
+          exports: [],
+        };
+
+        const [options] = cls.getDecorator('Module')!.getArguments();
+        if (!Node.isObjectLiteralExpression(options)) return definition;
+
+        for (const section of ['imports', 'providers', 'controllers', 'exports'] as const) {
+          const property = options.getProperty(section);
+          if (Node.isPropertyAssignment(property)) {
+            definition[section] = this.collectModuleMembers(property.getInitializer(), sourceFile, originOf);
+          }
+        }
+        return definition;
+      });
+  }
+
+  /**
+   * Flattens a `@Module` array (spreads and local `const providers = [...]` included).
+   */
+  private collectModuleMembers(
+    expression: Node | undefined,
+    sourceFile: SourceFile,
+    originOf: (name: string | undefined) => string | undefined,
+    depth = 0,
+  ): ModuleMemberRef[] {
+    if (!expression || depth > 5) return [];
+
+    if (Node.isArrayLiteralExpression(expression)) {
+      return expression.getElements().flatMap((element) =>
+        Node.isSpreadElement(element)
+          ? this.collectModuleMembers(element.getExpression(), sourceFile, originOf, depth + 1)
+          : this.toModuleMember(element, originOf),
+      );
     }
 
-    // Case B: Implicit .ts extension (Most common)
-    // import ... from './users.service' -> checks users.service.ts
-    const tsPath = `${absoluteBase}.ts`;
-    if (fs.existsSync(tsPath)) {
-      return tsPath;
+    // `providers: sharedProviders` declared in the same file
+    if (Node.isIdentifier(expression)) {
+      const initializer = sourceFile.getVariableDeclaration(expression.getText())?.getInitializer();
+      if (initializer) return this.collectModuleMembers(initializer, sourceFile, originOf, depth + 1);
     }
 
-    // Case C: Directory Index (Barrel Files)
-    // import ... from './dto' -> checks dto/index.ts
-    const indexPath = path.join(absoluteBase, 'index.ts');
-    if (fs.existsSync(indexPath)) {
-      return indexPath;
+    return this.toModuleMember(expression, originOf);
+  }
+
+  private toModuleMember(
+    element: Node,
+    originOf: (name: string | undefined) => string | undefined,
+  ): ModuleMemberRef[] {
+    // forwardRef(() => UsersModule)
+    if (Node.isCallExpression(element) && element.getExpression().getText() === 'forwardRef') {
+      const factory = element.getArguments()[0];
+      return Node.isArrowFunction(factory) ? this.toModuleMember(factory.getBody(), originOf) : [];
     }
 
-    // Case D: Resolution failed
-    // Could be a node_module, a path alias (@src/...), or a non-existent file.
-    return null;
+    // TypeOrmModule.forFeature([User]), ConfigModule.forRoot({ ... })
+    if (Node.isCallExpression(element)) {
+      const callee = element.getExpression();
+      const name = Node.isPropertyAccessExpression(callee) ? callee.getExpression().getText() : callee.getText();
+      const args = element.getArguments().flatMap((arg) =>
+        Node.isArrayLiteralExpression(arg) ? arg.getElements() : [arg],
+      );
+      return [
+        {
+          name,
+          source: originOf(name),
+          call: Node.isPropertyAccessExpression(callee) ? callee.getName() : undefined,
+          args: args.filter((a) => Node.isIdentifier(a)).map((a) => a.getText()),
+        },
+      ];
+    }
+
+    // { provide: CACHE_TOKEN, useClass: RedisCacheService }
+    if (Node.isObjectLiteralExpression(element)) {
+      const valueOf = (key: string) => {
+        const property = element.getProperty(key);
+        return Node.isPropertyAssignment(property) ? property.getInitializer() : undefined;
+      };
+      const provide = valueOf('provide');
+      if (!provide) return [];
+
+      const token = Node.isStringLiteral(provide) ? provide.getLiteralValue() : provide.getText();
+      const strategy = ['useClass', 'useExisting', 'useFactory', 'useValue'].find((key) => valueOf(key));
+      const implementation = strategy ? valueOf(strategy) : undefined;
+      const implementationName =
+        implementation && (Node.isIdentifier(implementation) || Node.isPropertyAccessExpression(implementation))
+          ? implementation.getText()
+          : undefined;
+
+      return [
+        {
+          name: token,
+          // The token's file for symbols, otherwise the class that implements it
+          source: (Node.isStringLiteral(provide) ? undefined : originOf(token)) ?? originOf(implementationName),
+          call: strategy,
+          args: implementationName ? [implementationName] : [],
+        },
+      ];
+    }
+
+    if (Node.isIdentifier(element) || Node.isPropertyAccessExpression(element)) {
+      const name = element.getText();
+      return [{ name, source: originOf(name) }];
+    }
+
+    return [];
+  }
+
+  /**
+   * Builds the HTTP route catalog of `@Controller` classes: verb, full path (controller prefix +
+   * handler sub-path), guards and pipes (controller + handler level) and the decorated parameters.
+   * A decorator with several paths (`@Get(['a', 'b'])`) yields one route per path.
+   */
+  private extractRoutes(
+    sourceFile: SourceFile,
+    originOf: (name: string | undefined) => string | undefined,
+  ): HttpRouteDefinition[] {
+    const routes: HttpRouteDefinition[] = [];
+
+    for (const cls of sourceFile.getClasses()) {
+      const controller = cls.getDecorator('Controller');
+      if (!controller) continue;
+
+      const prefixes = this.routePaths(controller.getArguments()[0]);
+      const classGuards = this.decoratorArgNames(cls.getDecorator('UseGuards'));
+      const classPipes = this.decoratorArgNames(cls.getDecorator('UsePipes'));
+
+      for (const method of cls.getMethods()) {
+        const verb = method.getDecorators().find((d) => HTTP_METHOD_DECORATORS.has(d.getName()));
+        if (!verb) continue;
+
+        const params = method.getParameters().flatMap((param) => {
+          const decorator = param.getDecorators()[0];
+          if (!decorator) return [];
+          const [first, ...rest] = decorator.getArguments();
+          const name = first && Node.isStringLiteral(first) ? first.getLiteralValue() : undefined;
+          const pipeArgs = name === undefined && first ? [first, ...rest] : rest;
+          const type = param.getTypeNode()?.getText();
+
+          const definition: RouteParamDefinition = { decorator: decorator.getName() };
+          if (name !== undefined) definition.name = name;
+          if (type) definition.type = type;
+          const source = originOf(type);
+          if (source) definition.source = source;
+          if (pipeArgs.length > 0) definition.pipes = pipeArgs.map((a) => this.argName(a));
+          return [definition];
+        });
+
+        for (const prefix of prefixes) {
+          for (const subPath of this.routePaths(verb.getArguments()[0])) {
+            routes.push({
+              method: verb.getName().toUpperCase() as HttpMethod,
+              path: this.joinRoutePath(prefix, subPath),
+              controller: cls.getName() || 'AnonymousController',
+              handler: method.getName(),
+              guards: [...classGuards, ...this.decoratorArgNames(method.getDecorator('UseGuards'))],
+              pipes: [...classPipes, ...this.decoratorArgNames(method.getDecorator('UsePipes'))],
+              params,
+              line: method.getStartLineNumber(),
+            });
+          }
+        }
+      }
+    }
+    return routes;
+  }
+
+  /**
+   * Reads the path(s) of a `@Controller`/`@Get` argument: a string, an array of strings,
+   * or `{ path }` options. Returns [''] when there is no static path.
+   */
+  private routePaths(arg: Node | undefined): string[] {
+    if (!arg) return [''];
+    if (Node.isStringLiteral(arg) || Node.isNoSubstitutionTemplateLiteral(arg)) return [arg.getLiteralValue()];
+    if (Node.isArrayLiteralExpression(arg)) {
+      const paths = arg.getElements().flatMap((e) => this.routePaths(e));
+      return paths.length > 0 ? paths : [''];
+    }
+    if (Node.isObjectLiteralExpression(arg)) {
+      const pathProperty = arg.getProperty('path');
+      return Node.isPropertyAssignment(pathProperty) ? this.routePaths(pathProperty.getInitializer()) : [''];
+    }
+    return [`{${arg.getText()}}`]; // Dynamic path (constant or expression), kept as a hint
+  }
+
+  private joinRoutePath(...segments: string[]): string {
+    const joined = segments
+      .flatMap((segment) => segment.split('/'))
+      .filter(Boolean)
+      .join('/');
+    return `/${joined}`;
+  }
+
+  /**
+   * Names of the classes/instances passed to `@UseGuards(...)` / `@UsePipes(...)`.
+   */
+  private decoratorArgNames(decorator: Decorator | undefined): string[] {
+    return decorator ? decorator.getArguments().map((arg) => this.argName(arg)) : [];
+  }
+
+  /**
+   * `RolesGuard` -> 'RolesGuard', `new ValidationPipe({...})` -> 'ValidationPipe',
+   * `AuthGuard('jwt')` -> "AuthGuard('jwt')".
+   */
+  private argName(arg: Node): string {
+    if (Node.isNewExpression(arg)) return arg.getExpression().getText();
+    return arg.getText();
+  }
+
+  /**
+   * Returns a function mapping a symbol (or a type such as `Repository<User>`) to the graph node
+   * that defines it: the imported file/package, this file for local declarations, or undefined.
+   */
+  private symbolLocator(
+    sourceFile: SourceFile,
+    sourcePath: string,
+    symbolOrigins: Map<string, string>,
+  ): (name: string | undefined) => string | undefined {
+    const localPath = sourcePath.split(path.sep).join('/');
+    return (name: string | undefined) => {
+      const root = this.rootIdentifier(name);
+      if (!root) return undefined;
+      if (symbolOrigins.has(root)) return symbolOrigins.get(root);
+      const declaredHere =
+        sourceFile.getClass(root) ||
+        sourceFile.getInterface(root) ||
+        sourceFile.getVariableDeclaration(root);
+      return declaredHere ? localPath : undefined;
+    };
+  }
+
+  /**
+   * Returns the token of an `@Inject(TOKEN)` / `@InjectRepository(Entity)` / `@InjectModel(Model)`
+   * decorator (unwrapping `forwardRef`), `null` for string tokens, or `undefined` if there is
+   * no such decorator.
+   */
+  private injectionToken(decorators: Decorator[]): string | null | undefined {
+    const inject = decorators.find((d) => d.getName().startsWith('Inject'));
+    if (!inject) return undefined;
+
+    let [firstArg] = inject.getArguments();
+    if (!firstArg) return null; // e.g. @InjectDataSource()
+
+    // @Inject(forwardRef(() => UsersService))
+    if (Node.isCallExpression(firstArg) && firstArg.getExpression().getText() === 'forwardRef') {
+      const factory = firstArg.getArguments()[0];
+      if (!Node.isArrowFunction(factory)) return null;
+      firstArg = factory.getBody();
+    }
+
+    return Node.isIdentifier(firstArg) || Node.isPropertyAccessExpression(firstArg)
+      ? firstArg.getText()
+      : null;
+  }
+
+  /**
+   * What the class gets from the DI container: the type of each constructor parameter
+   * (`Repository<User>`), or its token when it has none (`@Inject(CACHE_MANAGER) cache`).
+   */
+  private injectedDependencies(cls: ClassDeclaration): string[] {
+    return cls
+      .getConstructors()
+      .flatMap((ctor) => ctor.getParameters())
+      .map((param) => param.getTypeNode()?.getText() ?? this.injectionToken(param.getDecorators()))
+      .filter((dependency): dependency is string => !!dependency);
+  }
+
+  private decoratorTexts(node: ClassDeclaration | MethodDeclaration): string[] {
+    return node.getDecorators().map((d) => d.getText().replace(/\s+/g, ' ').trim());
+  }
+
+  /**
+   * Extracts the identifier a type or expression refers to:
+   * 'Repository<User>' -> 'Repository', 'entities.User' -> 'entities' (namespace import).
+   */
+  private rootIdentifier(text: string | undefined): string | undefined {
+    return text?.match(/^[A-Za-z_$][\w$]*/)?.[0];
+  }
+
+  /**
+   * Content-derived chunk ID: an unchanged declaration keeps its ID across re-indexes,
+   * so its vector, full-text row and parent link stay stable.
+   */
+  private chunkId(sourceFile: SourceFile, type: ChunkType, name: string | undefined, content: string): string {
+    return createHash('sha1')
+      .update([sourceFile.getFilePath(), type, name ?? '', content].join('\0'))
+      .digest('hex');
+  }
+
+  private getClassName(sourceFile: SourceFile): string | undefined {
+    return sourceFile.getClasses()[0]?.getName();
   }
 }
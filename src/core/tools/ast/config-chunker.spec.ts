@@ -0,0 +1,76 @@
+import { ConfigChunker } from './config-chunker';
+
+describe('ConfigChunker', () => {
+  const chunker = new ConfigChunker();
+  const entriesOf = (filePath: string, content: string) =>
+    chunker.analyze(filePath, content, 'hash').chunks.map((c) => [c.metadata.symbolName, c.metadata.startLine]);
+
+  it('should chunk JSON (with comments) by top-level key', () => {
+    const tsconfig = `{
+  // Path aliases of the monorepo
+  "compilerOptions": {
+    "baseUrl": "./",
+    "paths": { "@app/payments": ["libs/payments/src"] }, /* trailing comma */
+  },
+  "exclude": ["dist"]
+}
+`;
+    const { chunks, skeleton } = chunker.analyze('tsconfig.json', tsconfig, 'hash');
+
+    expect(chunks.map((c) => [c.type, c.metadata.symbolName, c.metadata.startLine])).toEqual([
+      ['config_entry', 'compilerOptions', 3],
+      ['config_entry', 'exclude', 7],
+    ]);
+    expect(chunks[0].content).toContain('"@app/payments"');
+    expect(skeleton).toBe('compilerOptions\nexclude');
+  });
+
+  it('should chunk YAML by key and split oversized entries', () => {
+    const route = (name: string) =>
+      `  /${name}:\n    get:\n      summary: List ${name}\n      description: ${'x'.repeat(40)}\n`;
+    const openapi = `# Public API
+openapi: 3.0.0
+info:
+  title: Payments
+paths:
+${route('payments')}${route('refunds')}`;
+
+    expect(entriesOf('docs/openapi.yaml', openapi)).toEqual([
+      ['openapi', 1],
+      ['info', 3],
+      ['paths', 5],
+    ]);
+
+    const previous = ConfigChunker.MAX_ENTRY_CHARS;
+    ConfigChunker.MAX_ENTRY_CHARS = 150;
+    try {
+      expect(entriesOf('docs/openapi.yaml', openapi)).toEqual([
+        ['openapi', 1],
+        ['info', 3],
+        ['paths./payments', 6],
+        ['paths./refunds', 10],
+      ]);
+    } finally {
+      ConfigChunker.MAX_ENTRY_CHARS = previous;
+    }
+  });
+
+  it('should chunk .env.example by group of variables, with the comments above', () => {
+    const env = `# --- Database ---
+
+# Postgres connection string
+DATABASE_URL=postgres://localhost/app
+DATABASE_POOL=10
+
+# --- Stripe ---
+STRIPE_KEY=sk_test_xxx
+`;
+    const { chunks } = chunker.analyze('.env.example', env, 'hash');
+
+    expect(chunks.map((c) => [c.metadata.symbolName, c.metadata.startLine, c.metadata.endLine])).toEqual([
+      ['DATABASE_URL, DATABASE_POOL', 1, 5],
+      ['STRIPE_KEY', 7, 8],
+    ]);
+    expect(chunks[0].content.startsWith('# --- Database ---')).toBe(true);
+  });
+});
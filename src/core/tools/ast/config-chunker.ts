@@ -0,0 +1,236 @@
+import * as path from 'path';
+import { FileAnalysisResult, ProcessedChunk } from '../../types';
+import { FileChunker, documentAnalysis, documentChunkId } from './file-chunker';
+
+/**
+ * A slice of a config file. Lines are 0-based and inclusive.
+ */
+interface ConfigEntry {
+  key: string; // Key path, e.g. 'compilerOptions.paths' (.env: the variables of the group)
+  root: string; // Top-level key, for the outline
+  start: number;
+  end: number;
+  text: string;
+}
+
+// `key:` at the start of a YAML line (quoted keys included, list items excluded)
+const YAML_KEY = /^( *)("[^"]*"|'[^']*'|[^\s#'"?:\-][^#]*?)\s*:(?:\s|$)/;
+const ENV_VARIABLE = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=/;
+
+/**
+ * The Config Chunker ⚙️
+ * Splits JSON (comments allowed, e.g. `tsconfig.json`), YAML (e.g. OpenAPI specs) and
+ * `.env.example` files into one chunk per top-level key. Oversized entries (the `paths` of an
+ * OpenAPI spec) are split into their own keys, down to `MAX_DEPTH` levels.
+ * In a `.env.example`, each group of variables (separated by blank lines) is one chunk, with
+ * the comments above it.
+ */
+export class ConfigChunker implements FileChunker {
+  /** Entries longer than this are split into their own keys. */
+  public static MAX_ENTRY_CHARS = 3000;
+  /** How deep oversized entries are split ('paths./users.get' is depth 3). */
+  public static MAX_DEPTH = 3;
+
+  public analyze(filePath: string, content: string, fileHash: string): FileAnalysisResult {
+    const lines = content.split(/\r?\n/);
+    const fileName = path.basename(filePath);
+
+    let entries: ConfigEntry[];
+    if (fileName.startsWith('.env')) entries = this.envEntries(lines);
+    else if (/\.json$/i.test(fileName)) entries = this.jsonEntries(content, lines);
+    else entries = this.yamlEntries(lines, 0, lines.length - 1, 0, []);
+
+    // Lists, scalars or unparsable files: the file is a single entry
+    if (entries.length === 0 && content.trim()) {
+      entries = [{ key: fileName, root: fileName, start: 0, end: lines.length - 1, text: content.trim() }];
+    }
+
+    const chunks: ProcessedChunk[] = entries.map((entry) => ({
+      id: documentChunkId(filePath, 'config_entry', entry.key, entry.text),
+      type: 'config_entry',
+      content: entry.text,
+      metadata: { startLine: entry.start + 1, endLine: entry.end + 1, symbolName: entry.key },
+    }));
+
+    return documentAnalysis(filePath, fileHash, chunks, Array.from(new Set(entries.map((e) => e.root))));
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  private jsonEntries(content: string, lines: string[]): ConfigEntry[] {
+    let value: unknown;
+    try {
+      value = JSON.parse(stripJsonComments(content));
+    } catch {
+      return [];
+    }
+    const entries: ConfigEntry[] = [];
+    if (isPlainObject(value)) this.collectJson(value, [], lines, 0, entries);
+    return entries;
+  }
+
+  /**
+   * JSON values are re-serialized, so line numbers are those of the key (the end is an estimate).
+   */
+  private collectJson(
+    object: Record<string, unknown>,
+    keyPath: string[],
+    lines: string[],
+    fromLine: number,
+    entries: ConfigEntry[],
+  ) {
+    let cursor = fromLine;
+    for (const [key, value] of Object.entries(object)) {
+      const line = this.findJsonKey(lines, key, cursor);
+      if (line !== -1) cursor = line;
+
+      const entryPath = [...keyPath, key];
+      const text = `${JSON.stringify(key)}: ${JSON.stringify(value, null, 2)}`;
+      if (this.isOversized(text, entryPath) && isPlainObject(value) && Object.keys(value).length > 0) {
+        this.collectJson(value, entryPath, lines, cursor, entries);
+        continue;
+      }
+      entries.push({
+        key: entryPath.join('.'),
+        root: entryPath[0],
+        start: cursor,
+        end: Math.min(cursor + text.split('\n').length - 1, lines.length - 1),
+        text,
+      });
+    }
+  }
+
+  private findJsonKey(lines: string[], key: string, fromLine: number): number {
+    const needle = JSON.stringify(key);
+    for (let i = fromLine; i < lines.length; i++) {
+      const at = lines[i].indexOf(needle);
+      if (at !== -1 && /^\s*:/.test(lines[i].slice(at + needle.length))) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Entries are the keys indented by exactly `indent` spaces between `from` and `to`.
+   * Comments right above a key belong to it.
+   */
+  private yamlEntries(lines: string[], from: number, to: number, indent: number, keyPath: string[]): ConfigEntry[] {
+    const keys: { line: number; key: string }[] = [];
+    for (let i = from; i <= to; i++) {
+      const match = lines[i].match(YAML_KEY);
+      if (match && match[1].length === indent) keys.push({ line: i, key: match[2].replace(/^(["'])(.*)\1$/, '$2') });
+    }
+
+    const starts = keys.map(({ line }) => {
+      let start = line;
+      while (start > from && lines[start - 1].trim().startsWith('#')) start--;
+      return start;
+    });
+
+    const entries: ConfigEntry[] = [];
+    keys.forEach(({ line, key }, i) => {
+      const start = i === 0 ? Math.min(starts[i], this.firstContentLine(lines, from, line)) : starts[i];
+      let end = i + 1 < keys.length ? starts[i + 1] - 1 : to;
+      while (end > line && lines[end].trim() === '') end--;
+
+      const entryPath = [...keyPath, key];
+      const text = lines.slice(start, end + 1).join('\n');
+      if (this.isOversized(text, entryPath)) {
+        const childIndent = lines
+          .slice(line + 1, end + 1)
+          .find((l) => l.trim() && !l.trim().startsWith('#'))
+          ?.match(/^ */)![0].length;
+        const children =
+          childIndent !== undefined && childIndent > indent
+            ? this.yamlEntries(lines, line + 1, end, childIndent, entryPath)
+            : [];
+        if (children.length > 0) {
+          entries.push(...children);
+          return;
+        }
+      }
+      entries.push({ key: entryPath.join('.'), root: entryPath[0], start, end, text });
+    });
+    return entries;
+  }
+
+  /**
+   * Groups of variables separated by blank lines. A group of comments only (a section title)
+   * is attached to the next group.
+   */
+  private envEntries(lines: string[]): ConfigEntry[] {
+    const entries: ConfigEntry[] = [];
+    let groupStart: number | null = null;
+
+    for (let i = 0; i <= lines.length; i++) {
+      const blank = i === lines.length || lines[i].trim() === '';
+      if (!blank) {
+        groupStart ??= i;
+        continue;
+      }
+      if (groupStart === null) continue;
+
+      const groupLines = lines.slice(groupStart, i);
+      const variables = groupLines
+        .map((line) => line.match(ENV_VARIABLE)?.[1])
+        .filter((name): name is string => !!name);
+      if (variables.length === 0) continue; // Keep groupStart: the comments lead the next group
+
+      const key = variables.join(', ');
+      entries.push({ key, root: key, start: groupStart, end: i - 1, text: groupLines.join('\n') });
+      groupStart = null;
+    }
+    return entries;
+  }
+
+  private isOversized(text: string, keyPath: string[]): boolean {
+    return text.length > ConfigChunker.MAX_ENTRY_CHARS && keyPath.length < ConfigChunker.MAX_DEPTH;
+  }
+
+  private firstContentLine(lines: string[], from: number, to: number): number {
+    let line = from;
+    while (line < to && (lines[line].trim() === '' || /^(---|%)/.test(lines[line]))) line++;
+    return line;
+  }
+}
+
+// ==========================================
+// 🛠️ HELPERS
+// ==========================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Drops `//` and `/* *\/` comments (outside strings) and trailing commas, as accepted in
+ * `tsconfig.json` and other JSONC files. Line breaks are kept.
+ */
+function stripJsonComments(text: string): string {
+  let output = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      output += char;
+      if (char === '\\') output += text[++i] ?? '';
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      output += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      const comment = text.slice(i, end === -1 ? text.length : end + 2);
+      output += comment.replace(/[^\n]/g, '');
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      output += char;
+    }
+  }
+  return output.replace(/,(\s*[}\]])/g, '$1');
+}
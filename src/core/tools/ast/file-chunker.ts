@@ -0,0 +1,78 @@
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { ChunkType, FileAnalysisResult, ProcessedChunk } from '../../types';
+
+/**
+ * Breaks one kind of file down into chunks for the index.
+ * `NestChunker` handles TypeScript; documents (Markdown, Prisma, JSON/YAML, `.env.example`)
+ * have their own chunkers. See `ChunkerRegistry` for how a file finds its chunker.
+ */
+export interface FileChunker {
+  /**
+   * @param filePath - The relative path of the file.
+   * @param content - The raw string content of the file.
+   * @param fileHash - The MD5 hash for registry tracking.
+   */
+  analyze(filePath: string, content: string, fileHash: string): FileAnalysisResult;
+}
+
+/**
+ * Content-derived chunk ID, same recipe as `NestChunker`: an unchanged section keeps its ID
+ * across re-indexes.
+ */
+export function documentChunkId(filePath: string, type: ChunkType, name: string | undefined, content: string): string {
+  return createHash('sha1')
+    .update([filePath.split(path.sep).join('/'), type, name ?? '', content].join('\0'))
+    .digest('hex');
+}
+
+/**
+ * Analysis of a document: chunks and an outline, but no imports, modules or routes.
+ */
+export function documentAnalysis(
+  filePath: string,
+  fileHash: string,
+  chunks: ProcessedChunk[],
+  outline: string[],
+): FileAnalysisResult {
+  return {
+    filePath,
+    fileHash,
+    chunks,
+    dependencies: [],
+    modules: [],
+    routes: [],
+    skeleton: outline.length > 0 ? outline.join('\n') : null,
+  };
+}
+
+/**
+ * Splits an oversized text on blank lines into parts of at most `maxChars` (a single
+ * paragraph longer than that stays whole). Returns the line ranges (0-based, inclusive).
+ * @param blocked - Lines that must not be split after (e.g. inside a code fence).
+ */
+export function splitOnBlankLines(
+  lines: string[],
+  start: number,
+  end: number,
+  maxChars: number,
+  blocked: (line: number) => boolean = () => false,
+): [number, number][] {
+  const parts: [number, number][] = [];
+  let partStart = start;
+  let size = 0;
+  let lastBreak = -1;
+
+  for (let i = start; i <= end; i++) {
+    size += lines[i].length + 1;
+    if (lines[i].trim() === '' && !blocked(i)) lastBreak = i;
+    if (size > maxChars && lastBreak > partStart) {
+      parts.push([partStart, lastBreak - 1]);
+      partStart = lastBreak + 1;
+      size = lines.slice(partStart, i + 1).reduce((sum, line) => sum + line.length + 1, 0);
+      lastBreak = -1;
+    }
+  }
+  parts.push([partStart, end]);
+  return parts;
+}
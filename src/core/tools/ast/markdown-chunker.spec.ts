@@ -0,0 +1,69 @@
+import { MarkdownChunker } from './markdown-chunker';
+
+describe('MarkdownChunker', () => {
+  const chunker = new MarkdownChunker();
+
+  const readme = `---
+title: Payments
+---
+[![build](https://ci/badge.svg)](https://ci)
+
+# Payments API
+
+Handles captures and refunds.
+
+## Architecture
+
+### Refunds
+
+Refunds go through the \`LedgerClient\`.
+
+\`\`\`bash
+# not a heading
+npm run refund
+\`\`\`
+
+Setup
+=====
+
+Copy \`.env.example\` to \`.env\`.
+`;
+
+  it('should split a document into heading sections with their outline', () => {
+    const { chunks } = chunker.analyze('README.md', readme, 'hash');
+
+    expect(chunks.map((c) => [c.metadata.outline, c.metadata.symbolName])).toEqual([
+      [undefined, 'README.md'],
+      [undefined, 'Payments API'],
+      ['Payments API > Architecture', 'Refunds'],
+      [undefined, 'Setup'],
+    ]);
+    expect(chunks.every((c) => c.type === 'doc_section')).toBe(true);
+
+    const refunds = chunks[2];
+    expect(refunds.content).toContain('# not a heading');
+    expect(refunds.content.startsWith('### Refunds')).toBe(true);
+    expect(refunds.metadata).toMatchObject({ startLine: 12, endLine: 19 });
+  });
+
+  it('should outline the headings as the file skeleton', () => {
+    expect(chunker.analyze('README.md', readme, 'hash').skeleton).toBe(
+      '# Payments API\n## Architecture\n### Refunds\n# Setup',
+    );
+  });
+
+  it('should split oversized sections on blank lines', () => {
+    const paragraph = 'Refunds are idempotent. '.repeat(20);
+    const doc = `# Refunds\n\n${Array(5).fill(paragraph).join('\n\n')}\n`;
+    const previous = MarkdownChunker.MAX_SECTION_CHARS;
+    MarkdownChunker.MAX_SECTION_CHARS = 1000;
+    try {
+      const { chunks } = chunker.analyze('docs/refunds.md', doc, 'hash');
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.every((c) => c.metadata.symbolName === 'Refunds' && c.content.length <= 1000)).toBe(true);
+      expect(new Set(chunks.map((c) => c.id)).size).toBe(chunks.length);
+    } finally {
+      MarkdownChunker.MAX_SECTION_CHARS = previous;
+    }
+  });
+});
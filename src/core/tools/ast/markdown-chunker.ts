@@ -0,0 +1,158 @@
+import * as path from 'path';
+import { FileAnalysisResult, ProcessedChunk } from '../../types';
+import { FileChunker, documentAnalysis, documentChunkId, splitOnBlankLines } from './file-chunker';
+
+interface Heading {
+  level: number;
+  title: string;
+  line: number; // First line of the heading (0-based)
+  bodyStart: number; // First line after it
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * The Markdown Chunker 📝
+ * Splits READMEs, ADRs and docs into heading-based sections: one chunk from a heading to
+ * the next, tagged with the headings above it (e.g. 'Architecture > Payments').
+ * Headings inside code fences and YAML front matter are ignored.
+ */
+export class MarkdownChunker implements FileChunker {
+  /** Sections longer than this are split on blank lines. */
+  public static MAX_SECTION_CHARS = 4000;
+
+  public analyze(filePath: string, content: string, fileHash: string): FileAnalysisResult {
+    const lines = content.split(/\r?\n/);
+    const inFence = this.fencedLines(lines);
+    const headings = this.findHeadings(lines, inFence);
+
+    const chunks: ProcessedChunk[] = [];
+    const stack: Heading[] = [];
+
+    // Text before the first heading (badges, intro) is named after the file
+    const preambleEnd = (headings[0]?.line ?? lines.length) - 1;
+    this.pushSection(chunks, filePath, lines, inFence, this.frontMatterEnd(lines) + 1, preambleEnd, path.basename(filePath));
+
+    headings.forEach((heading, i) => {
+      while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) stack.pop();
+      const outline = stack.map((h) => h.title).join(' > ') || undefined;
+      stack.push(heading);
+
+      const end = (headings[i + 1]?.line ?? lines.length) - 1;
+      // A heading alone is a title, not knowledge: it shows up in the outline of its subsections
+      if (lines.slice(heading.bodyStart, end + 1).every((line) => line.trim() === '')) return;
+      this.pushSection(chunks, filePath, lines, inFence, heading.line, end, heading.title, outline);
+    });
+
+    return documentAnalysis(
+      filePath,
+      fileHash,
+      chunks,
+      headings.map((h) => `${'#'.repeat(h.level)} ${h.title}`),
+    );
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  private pushSection(
+    chunks: ProcessedChunk[],
+    filePath: string,
+    lines: string[],
+    inFence: boolean[],
+    start: number,
+    end: number,
+    title: string,
+    outline?: string,
+  ) {
+    while (start <= end && lines[start].trim() === '') start++;
+    while (end >= start && lines[end].trim() === '') end--;
+    if (start > end) return;
+
+    for (const [partStart, partEnd] of splitOnBlankLines(
+      lines,
+      start,
+      end,
+      MarkdownChunker.MAX_SECTION_CHARS,
+      (line) => inFence[line],
+    )) {
+      const text = lines.slice(partStart, partEnd + 1).join('\n');
+      chunks.push({
+        id: documentChunkId(filePath, 'doc_section', title, text),
+        type: 'doc_section',
+        content: text,
+        metadata: {
+          startLine: partStart + 1,
+          endLine: partEnd + 1,
+          symbolName: title,
+          ...(outline ? { outline } : {}),
+        },
+      });
+    }
+  }
+
+  private findHeadings(lines: string[], inFence: boolean[]): Heading[] {
+    const headings: Heading[] = [];
+    const firstLine = this.frontMatterEnd(lines) + 1;
+
+    for (let i = firstLine; i < lines.length; i++) {
+      if (inFence[i]) continue;
+      const atx = lines[i].match(ATX_HEADING);
+      if (atx) {
+        headings.push({ level: atx[1].length, title: this.cleanTitle(atx[2]), line: i, bodyStart: i + 1 });
+        continue;
+      }
+      // 'Title' underlined with '===' (level 1) or '---' (level 2)
+      const underline = lines[i + 1]?.match(SETEXT_UNDERLINE);
+      const isParagraphStart = i === firstLine || lines[i - 1].trim() === '';
+      if (underline && !inFence[i + 1] && isParagraphStart && lines[i].trim() !== '' && !/^ {0,3}([-*+>]|\d+\.)\s/.test(lines[i])) {
+        headings.push({
+          level: underline[1].startsWith('=') ? 1 : 2,
+          title: this.cleanTitle(lines[i].trim()),
+          line: i,
+          bodyStart: i + 2,
+        });
+        i++;
+      }
+    }
+    return headings;
+  }
+
+  /**
+   * Marks the lines inside (and delimiting) code fences.
+   */
+  private fencedLines(lines: string[]): boolean[] {
+    const inFence = new Array<boolean>(lines.length).fill(false);
+    let fence: string | null = null;
+
+    lines.forEach((line, i) => {
+      const marker = line.match(FENCE)?.[1];
+      if (fence) {
+        inFence[i] = true;
+        if (marker && marker[0] === fence[0] && marker.length >= fence.length) fence = null;
+      } else if (marker) {
+        inFence[i] = true;
+        fence = marker;
+      }
+    });
+    return inFence;
+  }
+
+  /**
+   * Last line of a leading `---` YAML front matter block, or -1 when there is none.
+   */
+  private frontMatterEnd(lines: string[]): number {
+    if (lines[0]?.trim() !== '---') return -1;
+    return lines.findIndex((line, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(line));
+  }
+
+  /**
+   * '`ask_codebase` **tool** ([docs](./tools.md))' -> 'ask_codebase tool (docs)'
+   */
+  private cleanTitle(title: string): string {
+    return title.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/[`*]/g, '').trim();
+  }
+}
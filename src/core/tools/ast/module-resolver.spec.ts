@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ModuleResolver, isExternalNode } from './module-resolver';
+import { NestChunker } from './chunker';
+
+describe('ModuleResolver', () => {
+  let projectDir: string;
+
+  const write = (relativePath: string, content = '') => {
+    const target = path.join(projectDir, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+
+  beforeAll(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'resolver-'));
+    write(
+      'tsconfig.base.json',
+      `{
+  // Comments and trailing commas are valid in tsconfig files
+  "compilerOptions": {
+    "baseUrl": "./",
+    "paths": {
+      "@libs/*": ["libs/*/src"],
+      "@config": ["libs/config/src/config.ts"],
+    },
+  },
+}`,
+    );
+    write('tsconfig.json', '{ "extends": "./tsconfig.base.json" }');
+    write(
+      'nest-cli.json',
+      JSON.stringify({
+        monorepo: true,
+        projects: {
+          api: { type: 'application', root: 'apps/api', sourceRoot: 'apps/api/src' },
+          common: { type: 'library', root: 'libs/common', sourceRoot: 'libs/common/src' },
+        },
+      }),
+    );
+    write('libs/common/src/index.ts', "export * from './logger';\n");
+    write('libs/common/src/logger.ts', 'export class Logger {}\n');
+    write('libs/config/src/config.ts', 'export const config = {};\n');
+    write('libs/mail/src/index.ts', 'export class MailService {}\n');
+    write('apps/api/src/users/users.service.ts', '');
+    write('apps/api/src/users/dto/index.ts', '');
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  const resolve = (specifier: string) =>
+    new ModuleResolver(projectDir).resolve(
+      specifier,
+      path.join(projectDir, 'apps/api/src/users'),
+    );
+
+  it('should resolve relative imports and barrels', () => {
+    expect(resolve('./dto')).toBe('apps/api/src/users/dto/index.ts');
+    expect(resolve('./missing')).toBeNull();
+  });
+
+  it('should resolve tsconfig paths (inherited through extends) and baseUrl imports', () => {
+    expect(resolve('@libs/mail')).toBe('libs/mail/src/index.ts');
+    expect(resolve('@config')).toBe('libs/config/src/config.ts');
+    expect(resolve('apps/api/src/users/users.service')).toBe('apps/api/src/users/users.service.ts');
+    expect(resolve('@libs/unknown')).toBeNull();
+  });
+
+  it('should resolve Nest CLI monorepo libraries', () => {
+    expect(resolve('@app/common')).toBe('libs/common/src/index.ts');
+    expect(resolve('@app/common/logger')).toBe('libs/common/src/logger.ts');
+  });
+
+  it('should record external packages as distinct nodes', () => {
+    expect(resolve('@nestjs/common')).toBe('npm:@nestjs/common');
+    expect(resolve('rxjs/operators')).toBe('npm:rxjs');
+    expect(resolve('fs')).toBe('node:fs');
+    expect(resolve('node:path')).toBe('node:path');
+    expect(isExternalNode('npm:rxjs')).toBe(true);
+    expect(isExternalNode('libs/common/src/index.ts')).toBe(false);
+  });
+
+  it('should feed aliased imports and re-exports into the chunker dependency graph', () => {
+    const chunker = new NestChunker(new ModuleResolver(projectDir));
+    const originalCwd = process.cwd();
+    process.chdir(projectDir);
+    try {
+      const analysis = chunker.analyze(
+        'apps/api/src/users/users.service.ts',
+        `import { Injectable } from '@nestjs/common';
+import { Logger } from '@app/common';
+import { MailService } from '@libs/mail';
+export * from './dto';
+@Injectable()
+export class UsersService {
+  constructor(private readonly mail: MailService, private readonly logger: Logger) {}
+}
+`,
+        'hash',
+      );
+      const imports = analysis.dependencies.filter((d) => d.relation === 'import');
+      expect(imports.map((d) => d.targetPath).sort()).toEqual([
+        'apps/api/src/users/dto/index.ts',
+        'libs/common/src/index.ts',
+        'libs/mail/src/index.ts',
+        'npm:@nestjs/common',
+      ]);
+    } finally {
+      process.chdir(originalCwd);
+    }
+  });
+});
@@ -0,0 +1,228 @@
+import { ts } from 'ts-morph';
+import { builtinModules } from 'module';
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * Prefix of graph nodes that represent npm packages (e.g. `npm:@nestjs/common`).
+ */
+export const NPM_NODE_PREFIX = 'npm:';
+
+/**
+ * Prefix of graph nodes that represent Node.js built-in modules (e.g. `node:fs`).
+ */
+export const NODE_BUILTIN_PREFIX = 'node:';
+
+/**
+ * Checks whether a dependency graph node is an external package rather than a project file.
+ */
+export function isExternalNode(node: string): boolean {
+  return node.startsWith(NPM_NODE_PREFIX) || node.startsWith(NODE_BUILTIN_PREFIX);
+}
+
+interface PathAlias {
+  /** The alias as written in tsconfig (e.g. `@app/common/*`). */
+  pattern: string;
+  /** Absolute substitution patterns, tried in order. */
+  targets: string[];
+}
+
+/**
+ * The Module Resolver 🧭
+ * Resolves import specifiers to dependency graph nodes the way the project's compiler does:
+ * 1. Relative imports (`./users.service`, `../dto`).
+ * 2. `tsconfig.json` `paths` aliases (`@app/common`, `@libs/*`) and `baseUrl` imports (`src/...`).
+ * 3. Nest CLI monorepo libraries declared in `nest-cli.json` (`@app/<library>`).
+ * 4. Anything else is an external package, recorded as `npm:<package>` or `node:<builtin>`.
+ *
+ * Project files are returned as POSIX paths relative to the project root.
+ */
+export class ModuleResolver {
+  private aliases: PathAlias[] = [];
+  private baseUrl: string | null = null;
+
+  constructor(private readonly rootDir: string = process.cwd()) {
+    this.loadTsConfig(path.join(rootDir, 'tsconfig.json'));
+    this.loadNestCliProjects(path.join(rootDir, 'nest-cli.json'));
+  }
+
+  /**
+   * Resolves an import specifier to a graph node.
+   * * @param specifier - The raw module specifier (e.g. '@app/common' or './dto').
+   * @param sourceDir - The absolute directory of the importing file.
+   * @returns A relative POSIX file path, an external node (`npm:`/`node:`), or `null`
+   * when the import targets the project but the file does not exist.
+   */
+  public resolve(specifier: string, sourceDir: string): string | null {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      return this.toNode(this.resolveFile(path.resolve(sourceDir, specifier)));
+    }
+
+    // Aliases win over packages: '@app/common' is a library, not an npm scope
+    const alias = this.matchAlias(specifier);
+    if (alias) {
+      for (const target of alias.targets) {
+        const resolved = this.resolveFile(target);
+        if (resolved) return this.toNode(resolved);
+      }
+      return null;
+    }
+
+    if (this.baseUrl) {
+      const resolved = this.resolveFile(path.join(this.baseUrl, specifier));
+      if (resolved) return this.toNode(resolved);
+    }
+
+    return this.toExternalNode(specifier);
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  /**
+   * Reads `baseUrl`/`paths`, following relative `extends` chains.
+   * Like tsc, `paths` are relative to `baseUrl`, or to the config that declares them.
+   */
+  private loadTsConfig(configPath: string, visited = new Set<string>()) {
+    if (visited.has(configPath) || !fs.existsSync(configPath)) return;
+    visited.add(configPath);
+
+    // ts.readConfigFile tolerates comments and trailing commas
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error || !config) {
+      console.warn(`⚠️ [ModuleResolver] Could not parse ${configPath}, aliases ignored.`);
+      return;
+    }
+
+    const extendsList: string[] = ([] as string[]).concat(config.extends || []);
+    for (const parent of extendsList) {
+      if (!parent.startsWith('.')) continue; // Shared presets from npm never declare project paths
+      const parentPath = path.resolve(path.dirname(configPath), parent);
+      this.loadTsConfig(parentPath.endsWith('.json') ? parentPath : `${parentPath}.json`, visited);
+    }
+
+    const options = config.compilerOptions || {};
+    const configDir = path.dirname(configPath);
+    if (options.baseUrl) {
+      this.baseUrl = path.resolve(configDir, options.baseUrl);
+    }
+    if (options.paths) {
+      const pathsBase = this.baseUrl ?? configDir;
+      // A child config replaces the parent's `paths` entirely
+      this.aliases = Object.entries(options.paths as Record<string, string[]>).map(
+        ([pattern, targets]) => ({
+          pattern,
+          targets: targets.map((t) => path.resolve(pathsBase, t)),
+        }),
+      );
+    }
+  }
+
+  /**
+   * Registers `@app/<name>` for every library of a Nest CLI monorepo,
+   * unless tsconfig already declares that alias.
+   */
+  private loadNestCliProjects(nestCliPath: string) {
+    if (!fs.existsSync(nestCliPath)) return;
+
+    let projects: Record<string, { type?: string; root?: string; sourceRoot?: string }>;
+    try {
+      projects = JSON.parse(fs.readFileSync(nestCliPath, 'utf-8')).projects || {};
+    } catch {
+      console.warn(`⚠️ [ModuleResolver] Could not parse ${nestCliPath}, projects ignored.`);
+      return;
+    }
+
+    for (const [name, project] of Object.entries(projects)) {
+      if (project.type !== 'library') continue;
+      const sourceRoot = path.resolve(
+        this.rootDir,
+        project.sourceRoot || path.join(project.root || path.join('libs', name), 'src'),
+      );
+
+      const exact = `@app/${name}`;
+      if (!this.aliases.some((a) => a.pattern === exact)) {
+        this.aliases.push({ pattern: exact, targets: [sourceRoot] });
+      }
+      if (!this.aliases.some((a) => a.pattern === `${exact}/*`)) {
+        this.aliases.push({ pattern: `${exact}/*`, targets: [path.join(sourceRoot, '*')] });
+      }
+    }
+  }
+
+  /**
+   * Picks the alias tsc would use: an exact match, otherwise the wildcard
+   * pattern with the longest prefix. Returns the substituted targets.
+   */
+  private matchAlias(specifier: string): PathAlias | null {
+    const exact = this.aliases.find((a) => !a.pattern.includes('*') && a.pattern === specifier);
+    if (exact) return exact;
+
+    let best: { alias: PathAlias; prefixLength: number; captured: string } | null = null;
+    for (const alias of this.aliases) {
+      const star = alias.pattern.indexOf('*');
+      if (star === -1) continue;
+
+      const prefix = alias.pattern.slice(0, star);
+      const suffix = alias.pattern.slice(star + 1);
+      if (
+        specifier.length >= prefix.length + suffix.length &&
+        specifier.startsWith(prefix) &&
+        specifier.endsWith(suffix) &&
+        (!best || prefix.length > best.prefixLength)
+      ) {
+        const captured = specifier.slice(prefix.length, specifier.length - suffix.length);
+        best = { alias, prefixLength: prefix.length, captured };
+      }
+    }
+    if (!best) return null;
+
+    return {
+      pattern: best.alias.pattern,
+      targets: best.alias.targets.map((t) => t.replace('*', best!.captured)),
+    };
+  }
+
+  /**
+   * Finds the physical .ts file for an absolute import base:
+   * exact file, implicit `.ts` extension, or a directory barrel (`index.ts`).
+   */
+  private resolveFile(absoluteBase: string): string | null {
+    if (fs.existsSync(absoluteBase) && fs.statSync(absoluteBase).isFile()) {
+      return absoluteBase;
+    }
+
+    const tsPath = `${absoluteBase}.ts`;
+    if (fs.existsSync(tsPath)) {
+      return tsPath;
+    }
+
+    const indexPath = path.join(absoluteBase, 'index.ts');
+    if (fs.existsSync(indexPath)) {
+      return indexPath;
+    }
+
+    return null;
+  }
+
+  private toNode(absolutePath: string | null): string | null {
+    if (!absolutePath) return null;
+    // Forward slashes even on Windows, for DB consistency
+    return path.relative(this.rootDir, absolutePath).split(path.sep).join('/');
+  }
+
+  /**
+   * Collapses a bare specifier to its package name ('@nestjs/common/decorators' -> 'npm:@nestjs/common').
+   */
+  private toExternalNode(specifier: string): string {
+    const bare = specifier.replace(/^node:/, '');
+    const segments = bare.split('/');
+    const packageName = bare.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+
+    if (specifier.startsWith('node:') || builtinModules.includes(packageName)) {
+      return `${NODE_BUILTIN_PREFIX}${packageName}`;
+    }
+    return `${NPM_NODE_PREFIX}${packageName}`;
+  }
+}
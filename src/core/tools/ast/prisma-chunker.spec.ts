@@ -0,0 +1,43 @@
+import { PrismaChunker } from './prisma-chunker';
+
+describe('PrismaChunker', () => {
+  const schema = `datasource db {
+  provider = "postgresql"
+  url      = env("DATABASE_URL")
+}
+
+/// A captured payment.
+/// Refunds are stored as negative payments.
+model Payment {
+  id       String        @id @default(uuid())
+  amount   Int
+  status   PaymentStatus @default(PENDING)
+  metadata Json          @default("{}")
+
+  @@index([status])
+}
+
+enum PaymentStatus {
+  PENDING
+  CAPTURED
+}
+`;
+
+  it('should chunk each block with its doc comments', () => {
+    const { chunks } = new PrismaChunker().analyze('prisma/schema.prisma', schema, 'hash');
+
+    expect(chunks.map((c) => [c.type, c.metadata.symbolName, c.metadata.startLine, c.metadata.endLine])).toEqual([
+      ['prisma_model', 'db', 1, 4],
+      ['prisma_model', 'Payment', 6, 15],
+      ['prisma_model', 'PaymentStatus', 17, 20],
+    ]);
+    expect(chunks[1].metadata.summary).toBe('A captured payment. Refunds are stored as negative payments.');
+    expect(chunks[1].content).toContain('@@index([status])');
+  });
+
+  it('should outline the fields of every block as the file skeleton', () => {
+    expect(new PrismaChunker().analyze('prisma/schema.prisma', schema, 'hash').skeleton).toBe(
+      'datasource db\nmodel Payment { id amount status metadata }\nenum PaymentStatus { PENDING CAPTURED }',
+    );
+  });
+});
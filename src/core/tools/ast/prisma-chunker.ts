@@ -0,0 +1,69 @@
+import { FileAnalysisResult, ProcessedChunk } from '../../types';
+import { FileChunker, documentAnalysis, documentChunkId } from './file-chunker';
+
+const BLOCK_START = /^\s*(model|view|type|enum|datasource|generator)\s+(\w+)\s*\{/;
+const BLOCK_END = /^\s*\}\s*$/;
+const COMMENT = /^\s*\/\//;
+
+/**
+ * The Prisma Chunker 🧬
+ * Splits a Prisma schema into one chunk per block (`model`, `view`, `type`, `enum`,
+ * `datasource`, `generator`), with the comments right above it. `///` doc comments become
+ * the summary of the block, like the JSDoc of a class.
+ */
+export class PrismaChunker implements FileChunker {
+  public analyze(filePath: string, content: string, fileHash: string): FileAnalysisResult {
+    const lines = content.split(/\r?\n/);
+    const chunks: ProcessedChunk[] = [];
+    const outline: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const start = lines[i].match(BLOCK_START);
+      if (!start) continue;
+      const [, kind, name] = start;
+
+      let end = i;
+      while (end < lines.length - 1 && !BLOCK_END.test(lines[end])) end++;
+
+      let first = i;
+      while (first > 0 && COMMENT.test(lines[first - 1])) first--;
+      const docLines = lines
+        .slice(first, i)
+        .filter((line) => line.trim().startsWith('///'))
+        .map((line) => line.trim().replace(/^\/\/\/\s?/, ''));
+
+      const text = lines.slice(first, end + 1).join('\n');
+      chunks.push({
+        id: documentChunkId(filePath, 'prisma_model', name, text),
+        type: 'prisma_model',
+        content: text,
+        metadata: {
+          startLine: first + 1,
+          endLine: end + 1,
+          symbolName: name,
+          ...(docLines.length > 0 ? { summary: docLines.join(' ') } : {}),
+        },
+      });
+      outline.push(this.describeBlock(kind, name, lines.slice(i + 1, end)));
+      i = end;
+    }
+
+    return documentAnalysis(filePath, fileHash, chunks, outline);
+  }
+
+  // ==========================================
+  // 🛠️ HELPERS
+  // ==========================================
+
+  /**
+   * 'model User { id email posts }', 'enum Role { ADMIN USER }', 'datasource db'
+   */
+  private describeBlock(kind: string, name: string, body: string[]): string {
+    if (kind === 'datasource' || kind === 'generator') return `${kind} ${name}`;
+    const members = body
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('//') && !line.startsWith('@@'))
+      .map((line) => line.split(/\s+/)[0]);
+    return `${kind} ${name} { ${members.join(' ')} }`;
+  }
+}
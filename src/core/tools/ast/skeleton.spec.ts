@@ -0,0 +1,99 @@
+import { Project } from 'ts-morph';
+import { renderSkeleton } from './skeleton';
+
+describe('renderSkeleton', () => {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const render = (content: string) =>
+    renderSkeleton(project.createSourceFile('src/file.ts', content, { overwrite: true }));
+
+  it('should render services with decorators, injections, visibility and signatures only', () => {
+    const skeleton = render(`import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+/**
+ * Manages users.
+ *
+ * Long implementation notes that do not belong in a skeleton.
+ */
+@Injectable()
+export class UsersService extends BaseService implements OnModuleInit {
+  private readonly logger = new Logger('Users');
+  static instances = 0;
+
+  constructor(
+    @InjectRepository(User) private readonly repo: Repository<User>,
+    private readonly mail: MailService,
+  ) {
+    super();
+  }
+
+  get count(): number { return 1; }
+
+  /** Finds one user or throws. */
+  async findOne(id: string): Promise<User> {
+    const user = await this.repo.findOneBy({ id });
+    return user;
+  }
+
+  protected audit(action: string, payload?: unknown) {
+    return action.length;
+  }
+}
+`);
+
+    expect(skeleton).toBe(`import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+/** Manages users. */
+@Injectable()
+export class UsersService extends BaseService implements OnModuleInit {
+  private readonly logger: Logger;
+  static instances: number;
+  constructor(@InjectRepository(User) private readonly repo: Repository<User>, private readonly mail: MailService);
+  get count(): number;
+  /** Finds one user or throws. */
+  async findOne(id: string): Promise<User>;
+  protected audit(action: string, payload?: unknown): number;
+}`);
+    expect(skeleton).not.toContain('findOneBy');
+  });
+
+  it('should render the real shape of DTOs and entities', () => {
+    const skeleton = render(`export class CreateUserDto {
+  @IsEmail()
+  email: string;
+
+  @IsOptional() @IsString()
+  name?: string;
+}
+`);
+
+    expect(skeleton).toBe(`export class CreateUserDto {
+  @IsEmail() email: string;
+  @IsOptional() @IsString() name?: string;
+}`);
+  });
+
+  it('should render top-level functions, arrow functions, variables and type declarations', () => {
+    const skeleton = render(`export enum Role { Admin = 'admin' }
+export type Cents = number;
+export const ROLES_KEY = 'roles';
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
+/** Boots the app. */
+async function bootstrap(): Promise<void> {
+  await NestFactory.create(AppModule);
+}
+`);
+
+    expect(skeleton).toBe(`export enum Role { Admin = 'admin' }
+
+export type Cents = number;
+
+export const ROLES_KEY: "roles";
+
+export const Roles: (...roles: Role[]) => any;
+
+/** Boots the app. */
+async function bootstrap(): Promise<void>;`);
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  ClassDeclaration,
+  FunctionDeclaration,
+  JSDocableNode,
+  MethodDeclaration,
+  Node,
+  ParameterDeclaration,
+  PropertyDeclaration,
+  SourceFile,
+  VariableDeclaration,
+  VariableStatement,
+} from 'ts-morph';
+
+/**
+ * Inferred types longer than this are cut (huge object literals, generated types).
+ */
+const MAX_TYPE_LENGTH = 160;
+
+/**
+ * Renders a compact, `.d.ts`-like view of a file: imports, then every top-level declaration
+ * with its JSDoc summary, decorators, visibility, injected dependencies and signatures,
+ * but without any implementation.
+ * This is what the agent needs to call a service, mock it in a test or build a DTO payload.
+ *
+ * @example
+ * ```ts
+ * @Injectable()
+ * export class UsersService {
+ *   constructor(@InjectRepository(User) private readonly repo: Repository<User>);
+ *   async findOne(id: string): Promise<User>;
+ * }
+ * ```
+ */
+export function renderSkeleton(sourceFile: SourceFile): string {
+  const sections: string[] = [];
+
+  const imports = sourceFile.getImportDeclarations().map((i) => oneLine(i.getText()));
+  if (imports.length > 0) sections.push(imports.join('\n'));
+
+  for (const statement of sourceFile.getStatements()) {
+    let rendered: string | null = null;
+
+    if (Node.isClassDeclaration(statement)) rendered = renderClass(statement);
+    else if (Node.isFunctionDeclaration(statement)) rendered = renderFunction(statement);
+    else if (Node.isVariableStatement(statement)) rendered = renderVariables(statement);
+    else if (
+      Node.isInterfaceDeclaration(statement) ||
+      Node.isTypeAliasDeclaration(statement) ||
+      Node.isEnumDeclaration(statement)
+    ) {
+      // Already declarations: keep them verbatim (they ARE the shape)
+      rendered = withDoc(statement, statement.getText());
+    }
+
+    if (rendered) sections.push(rendered);
+  }
+
+  return sections.join('\n\n');
+}
+
+// ==========================================
+// ⚙️ INTERNAL LOGIC
+// ==========================================
+
+function renderClass(cls: ClassDeclaration): string {
+  const lines: string[] = [];
+  cls.getDecorators().forEach((d) => lines.push(oneLine(d.getText())));
+
+  let header = `${cls.isExported() ? 'export ' : ''}${cls.isDefaultExport() ? 'default ' : ''}`;
+  header += `${cls.isAbstract() ? 'abstract ' : ''}class ${cls.getName() ?? ''}`;
+  const base = cls.getExtends();
+  if (base) header += ` extends ${base.getText()}`;
+  const interfaces = cls.getImplements();
+  if (interfaces.length > 0) header += ` implements ${interfaces.map((i) => i.getText()).join(', ')}`;
+  lines.push(`${header} {`);
+
+  cls.getProperties().forEach((prop) => lines.push(indent(renderProperty(prop))));
+
+  cls.getConstructors()
+    .filter((ctor) => !ctor.isOverload())
+    .forEach((ctor) =>
+      lines.push(
+        indent(
+          withDoc(ctor, `${modifiersOf(ctor)}constructor(${renderParameters(ctor.getParameters())});`),
+        ),
+      ),
+    );
+
+  cls.getGetAccessors().forEach((get) =>
+    lines.push(indent(withDoc(get, `${modifiersOf(get)}get ${get.getName()}(): ${returnTypeOf(get)};`))),
+  );
+  cls.getSetAccessors().forEach((set) =>
+    lines.push(
+      indent(withDoc(set, `${modifiersOf(set)}set ${set.getName()}(${renderParameters(set.getParameters())});`)),
+    ),
+  );
+
+  cls.getMethods()
+    .filter((method) => !method.isOverload())
+    .forEach((method) => lines.push(indent(renderMethod(method))));
+
+  lines.push('}');
+  return withDoc(cls, lines.join('\n'));
+}
+
+function renderProperty(prop: PropertyDeclaration): string {
+  const decorators = prop.getDecorators().map((d) => `${oneLine(d.getText())} `).join('');
+  const optional = prop.hasQuestionToken() ? '?' : prop.hasExclamationToken() ? '!' : '';
+  const type = prop.getTypeNode()?.getText() ?? inferredType(prop);
+  return withDoc(prop, `${decorators}${modifiersOf(prop)}${prop.getName()}${optional}: ${type};`);
+}
+
+function renderMethod(method: MethodDeclaration): string {
+  const decorators = method.getDecorators().map((d) => oneLine(d.getText()));
+  const signature =
+    `${modifiersOf(method)}${method.getName()}${method.hasQuestionToken() ? '?' : ''}` +
+    `(${renderParameters(method.getParameters())}): ${returnTypeOf(method)};`;
+  return withDoc(method, [...decorators, signature].join('\n'));
+}
+
+function renderFunction(fn: FunctionDeclaration): string | null {
+  if (fn.isOverload()) return null;
+  const prefix = `${fn.isExported() ? 'export ' : ''}${fn.isDefaultExport() ? 'default ' : ''}`;
+  const signature =
+    `${prefix}${fn.isAsync() ? 'async ' : ''}function ${fn.getName() ?? ''}` +
+    `(${renderParameters(fn.getParameters())}): ${returnTypeOf(fn)};`;
+  return withDoc(fn, signature);
+}
+
+/**
+ * `export const toCents = (m: Money): Cents => ...` -> `export const toCents: (m: Money) => Cents;`
+ */
+function renderVariables(statement: VariableStatement): string {
+  const prefix = `${statement.isExported() ? 'export ' : ''}${statement.getDeclarationKind()} `;
+
+  const lines = statement.getDeclarations().map((declaration) => {
+    const initializer = declaration.getInitializer();
+    let type = declaration.getTypeNode()?.getText();
+    if (!type && (Node.isArrowFunction(initializer) || Node.isFunctionExpression(initializer))) {
+      type = `${initializer.isAsync() ? 'async ' : ''}(${renderParameters(initializer.getParameters())}) => ${returnTypeOf(initializer)}`;
+    }
+    return `${prefix}${declaration.getName()}: ${type ?? inferredType(declaration)};`;
+  });
+
+  return withDoc(statement, lines.join('\n'));
+}
+
+function renderParameters(params: ParameterDeclaration[]): string {
+  // Keeps decorators (@Inject, @Body) and parameter properties (private readonly ...)
+  return params.map((p) => oneLine(p.getText())).join(', ');
+}
+
+function returnTypeOf(
+  node: Node & { getReturnTypeNode(): Node | undefined; getReturnType(): { getText(enclosing?: Node): string } },
+): string {
+  return node.getReturnTypeNode()?.getText() ?? truncate(node.getReturnType().getText(node));
+}
+
+function inferredType(node: PropertyDeclaration | VariableDeclaration): string {
+  // `new Logger('Users')` -> 'Logger', even when the class cannot be resolved
+  const initializer = node.getInitializer();
+  if (Node.isNewExpression(initializer)) return initializer.getExpression().getText();
+  return truncate(node.getType().getText(node));
+}
+
+function modifiersOf(node: Node): string {
+  if (!Node.isModifierable(node)) return '';
+  return node
+    .getModifiers()
+    .filter((m) => !Node.isDecorator(m))
+    .map((m) => `${m.getText()} `)
+    .join('');
+}
+
+/**
+ * The first paragraph of a declaration's JSDoc, on one line (empty when undocumented).
+ */
+export function jsDocSummary(node: Node): string {
+  if (!Node.isJSDocable(node)) return '';
+  const summary = (node as JSDocableNode)
+    .getJsDocs()
+    .map((doc) => doc.getDescription().trim().split(/\n\s*\n/)[0])
+    .filter(Boolean)
+    .join(' ');
+  return oneLine(summary);
+}
+
+/**
+ * Prefixes a declaration with its JSDoc summary.
+ */
+function withDoc(node: Node, text: string): string {
+  const summary = jsDocSummary(node);
+  return summary ? `/** ${summary} */\n${text}` : text;
+}
+
+function indent(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => `  ${line}`)
+    .join('\n');
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function truncate(type: string): string {
+  return type.length > MAX_TYPE_LENGTH ? `${type.slice(0, MAX_TYPE_LENGTH)}...` : type;
+}
@@ -0,0 +1,23 @@
+import * as path from 'path';
+
+/**
+ * Jest/Nest test files: `*.spec.ts`, `*.test.ts` and e2e suites (`*.e2e-spec.ts`).
+ */
+const SPEC_FILE_PATTERN = /[.-](spec|test)\.ts$/;
+
+/**
+ * Checks whether a path is a test file rather than production code.
+ */
+export function isSpecFile(filePath: string): boolean {
+  return SPEC_FILE_PATTERN.test(filePath);
+}
+
+/**
+ * The file a spec is conventionally named after (`users.service.spec.ts` -> `users.service.ts`),
+ * as a POSIX path relative to the project root. Returns null for non-spec files.
+ */
+export function conventionalSubjectOf(specPath: string): string | null {
+  if (!isSpecFile(specPath)) return null;
+  const posixPath = specPath.split(path.sep).join('/');
+  return posixPath.replace(/\.e2e-spec\.ts$|\.(spec|test)\.ts$/, '.ts');
+}
@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SymbolNavigator } from './symbol-navigator';
+import { findReferencesTool } from '../navigation-tools';
+
+describe('SymbolNavigator', () => {
+  let projectDir: string;
+  let navigator: SymbolNavigator;
+
+  const write = (relativePath: string, content: string) => {
+    const target = path.join(projectDir, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+  };
+
+  beforeAll(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'navigator-'));
+    write(
+      'tsconfig.json',
+      JSON.stringify({
+        compilerOptions: { target: 'ES2021', module: 'CommonJS', strict: true, experimentalDecorators: true },
+        include: ['src/**/*'],
+      }),
+    );
+    write(
+      'src/payments/payment-gateway.ts',
+      `export interface PaymentGateway {
+  charge(amount: number): Promise<string>;
+}
+`,
+    );
+    write(
+      'src/payments/stripe.gateway.ts',
+      `import { PaymentGateway } from './payment-gateway';
+
+export class StripeGateway implements PaymentGateway {
+  async charge(amount: number) {
+    return 'stripe:' + amount;
+  }
+}
+`,
+    );
+    write(
+      'src/payments/payments.service.ts',
+      `import { PaymentGateway } from './payment-gateway';
+import { StripeGateway as Gateway } from './stripe.gateway';
+
+export class PaymentsService {
+  private readonly gateway: PaymentGateway = new Gateway();
+
+  pay(amount: number) {
+    return this.gateway.charge(amount);
+  }
+}
+`,
+    );
+    // A homonym that must not be mixed up with the real method
+    write('src/legacy/charge.ts', 'export function charge() { return 0; }\n');
+
+    navigator = SymbolNavigator.getInstance(projectDir);
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should find type-aware references with file and line ranges', () => {
+    const references = navigator.findReferences('PaymentGateway.charge');
+    expect(references.map((r) => `${r.filePath}:${r.startLine}`)).toEqual([
+      'src/payments/payments.service.ts:8',
+      'src/payments/stripe.gateway.ts:4',
+    ]);
+    expect(references[0].preview).toBe('return this.gateway.charge(amount);');
+  });
+
+  it('should resolve a usage through an import alias to its definition', () => {
+    const [definition] = navigator.goToDefinition('Gateway', 'src/payments/payments.service.ts', 5);
+    expect(definition.filePath).toBe('src/payments/stripe.gateway.ts');
+    expect(navigator.goToDefinition('StripeGateway')).toEqual([
+      expect.objectContaining({ filePath: 'src/payments/stripe.gateway.ts', startLine: 3, endLine: 7 }),
+    ]);
+  });
+
+  it('should list the implementations of an interface', () => {
+    expect(navigator.findImplementations('PaymentGateway')).toEqual([
+      expect.objectContaining({ filePath: 'src/payments/stripe.gateway.ts', startLine: 3, endLine: 7 }),
+    ]);
+  });
+
+  it('should pick up files added after the project was loaded', async () => {
+    write(
+      'src/payments/refunds.service.ts',
+      `import { PaymentGateway } from './payment-gateway';
+export const refund = (gateway: PaymentGateway) => gateway.charge(-1);
+`,
+    );
+    const originalCwd = process.cwd();
+    process.chdir(projectDir);
+    try {
+      const answer = await findReferencesTool.invoke({ symbol: 'PaymentGateway.charge' });
+      expect(answer).toContain('- src/payments/refunds.service.ts:2');
+    } finally {
+      process.chdir(originalCwd);
+    }
+  });
+});
@@ -0,0 +1,213 @@
+import { Node, Project, SourceFile } from 'ts-morph';
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * A place in the project code, with a one-line preview of its first line.
+ */
+export interface SymbolLocation {
+  filePath: string; // Relative POSIX path
+  startLine: number;
+  endLine: number;
+  preview: string;
+}
+
+/**
+ * The Symbol Navigator 🧭
+ * Symbol-level navigation (find references, go to definition, implementations) backed by a
+ * type-checked ts-morph project loaded from the repository `tsconfig.json`, unlike the
+ * `NestChunker`, which parses files one by one without type information.
+ *
+ * Symbols are written `Name` (class, interface, function, enum, type, variable) or
+ * `Class.member` (method or property). Projects are cached per root and re-synced with the
+ * disk before every query.
+ */
+export class SymbolNavigator {
+  private static instances = new Map<string, SymbolNavigator>();
+
+  private project: Project;
+  private readonly tsConfigPath: string;
+
+  private constructor(private readonly rootDir: string) {
+    this.tsConfigPath = path.join(rootDir, 'tsconfig.json');
+    if (fs.existsSync(this.tsConfigPath)) {
+      this.project = new Project({ tsConfigFilePath: this.tsConfigPath });
+    } else {
+      // No tsconfig: fall back to the conventional source folder
+      this.project = new Project({ compilerOptions: { experimentalDecorators: true } });
+      this.project.addSourceFilesAtPaths(path.join(rootDir, 'src/**/*.ts'));
+    }
+  }
+
+  public static getInstance(rootDir: string = process.cwd()): SymbolNavigator {
+    if (!this.instances.has(rootDir)) {
+      this.instances.set(rootDir, new SymbolNavigator(rootDir));
+    }
+    return this.instances.get(rootDir)!;
+  }
+
+  /**
+   * Finds every reference to a symbol (its declarations excluded).
+   * * @param symbol - `Name` or `Class.member`.
+   * @param filePath - Optional file declaring the symbol, to disambiguate homonyms.
+   */
+  public findReferences(symbol: string, filePath?: string): SymbolLocation[] {
+    this.sync();
+    const declarations = this.findDeclarations(symbol, filePath);
+    const locations: SymbolLocation[] = [];
+
+    for (const declaration of declarations) {
+      const nameNode = this.nameNodeOf(declaration);
+      if (!nameNode || !Node.isReferenceFindable(nameNode)) continue;
+      nameNode
+        .findReferencesAsNodes()
+        .filter((ref) => !this.isExternal(ref.getSourceFile()))
+        .forEach((ref) => locations.push(this.toLocation(ref)));
+    }
+    return this.unique(locations);
+  }
+
+  /**
+   * Finds where a symbol is declared.
+   * With `filePath` and `line`, resolves the usage of `symbol` on that line through the type
+   * checker (follows imports, aliases and re-exports). Otherwise searches declarations by name.
+   */
+  public goToDefinition(symbol: string, filePath?: string, line?: number): SymbolLocation[] {
+    this.sync();
+    if (filePath && line !== undefined) {
+      const sourceFile = this.getSourceFile(filePath);
+      const memberName = symbol.split('.').pop()!;
+      const usage = sourceFile
+        ?.getDescendants()
+        .find(
+          (node) =>
+            Node.isIdentifier(node) && node.getText() === memberName && node.getStartLineNumber() === line,
+        );
+      if (usage && Node.isIdentifier(usage)) {
+        return this.unique(
+          usage
+            .getDefinitionNodes()
+            .filter((def) => !this.isExternal(def.getSourceFile()))
+            .map((def) => this.toLocation(def)),
+        );
+      }
+    }
+    return this.unique(this.findDeclarations(symbol, filePath).map((d) => this.toLocation(d)));
+  }
+
+  /**
+   * Lists the implementations of an interface (classes implementing it) or of an abstract
+   * class or method (overrides in subclasses).
+   */
+  public findImplementations(symbol: string, filePath?: string): SymbolLocation[] {
+    this.sync();
+    const locations: SymbolLocation[] = [];
+
+    for (const declaration of this.findDeclarations(symbol, filePath)) {
+      const nameNode = this.nameNodeOf(declaration);
+      if (!nameNode || !Node.isIdentifier(nameNode)) continue;
+      for (const implementation of nameNode.getImplementations()) {
+        if (this.isExternal(implementation.getSourceFile())) continue;
+        // Keep implementing declarations (the language service also returns aliases of them)
+        const declaration = implementation.getNode().getParent();
+        if (declaration && (Node.isClassDeclaration(declaration) || Node.isMethodDeclaration(declaration))) {
+          locations.push(this.toLocation(declaration));
+        }
+      }
+    }
+    return this.unique(locations);
+  }
+
+  // ==========================================
+  // ⚙️ INTERNAL LOGIC
+  // ==========================================
+
+  /**
+   * Picks up edits, new files and deletions since the last query.
+   */
+  private sync() {
+    for (const sourceFile of this.project.getSourceFiles()) {
+      if (!fs.existsSync(sourceFile.getFilePath())) {
+        this.project.removeSourceFile(sourceFile);
+      } else {
+        sourceFile.refreshFromFileSystemSync();
+      }
+    }
+    if (fs.existsSync(this.tsConfigPath)) {
+      this.project.addSourceFilesFromTsConfig(this.tsConfigPath);
+    } else {
+      this.project.addSourceFilesAtPaths(path.join(this.rootDir, 'src/**/*.ts'));
+    }
+  }
+
+  /**
+   * Finds the declarations of `Name` or `Class.member`, in one file or in the whole project.
+   */
+  private findDeclarations(symbol: string, filePath?: string): Node[] {
+    const [name, member] = symbol.trim().split('.');
+    const sourceFile = filePath ? this.getSourceFile(filePath) : undefined;
+    if (filePath && !sourceFile) throw new Error(`File ${filePath} is not part of the project.`);
+
+    const files = sourceFile ? [sourceFile] : this.project.getSourceFiles().filter((sf) => !this.isExternal(sf));
+    const declarations: Node[] = [];
+
+    for (const file of files) {
+      if (member) {
+        const owner = file.getClass(name) ?? file.getInterface(name);
+        if (!owner) continue;
+        declarations.push(
+          ...owner.getMembers().filter((m) => Node.hasName(m) && m.getName() === member),
+        );
+        continue;
+      }
+
+      const candidates: (Node | undefined)[] = [
+        file.getClass(name),
+        file.getInterface(name),
+        file.getFunction(name),
+        file.getEnum(name),
+        file.getTypeAlias(name),
+        file.getVariableDeclaration(name),
+      ];
+      candidates.forEach((c) => c && declarations.push(c));
+    }
+    return declarations;
+  }
+
+  private getSourceFile(filePath: string): SourceFile | undefined {
+    return this.project.getSourceFile(path.resolve(this.rootDir, filePath));
+  }
+
+  private nameNodeOf(declaration: Node): Node | undefined {
+    return Node.hasName(declaration) || Node.isNameable(declaration)
+      ? (declaration as Node & { getNameNode(): Node | undefined }).getNameNode()
+      : undefined;
+  }
+
+  private isExternal(sourceFile: SourceFile): boolean {
+    return sourceFile.isInNodeModules() || sourceFile.isDeclarationFile() || sourceFile.isFromExternalLibrary();
+  }
+
+  private toLocation(node: Node): SymbolLocation {
+    const sourceFile = node.getSourceFile();
+    const startLine = node.getStartLineNumber();
+    return {
+      filePath: path.relative(this.rootDir, sourceFile.getFilePath()).split(path.sep).join('/'),
+      startLine,
+      endLine: node.getEndLineNumber(),
+      preview: (sourceFile.getFullText().split('\n')[startLine - 1] ?? '').trim(),
+    };
+  }
+
+  private unique(locations: SymbolLocation[]): SymbolLocation[] {
+    const seen = new Set<string>();
+    return locations
+      .filter((l) => {
+        const key = `${l.filePath}:${l.startLine}:${l.endLine}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .sort((a, b) => a.filePath.localeCompare(b.filePath) || a.startLine - b.startLine);
+  }
+}
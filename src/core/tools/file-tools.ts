@@ -2,8 +2,9 @@ import { tool } from "@langchain/core/tools";
 import { z } from "zod";
 import * as fs from "fs";
 import * as path from "path";
-import { IndexerService } from "../rag/indexer";
+import { IndexCoordinator } from "../rag/index-coordinator";
 import { log } from "./utils/logger";
+import { applySearchReplace, applyUnifiedDiff } from "./utils/text-patch";
 
 const createBackup = (filePath: string) => {
   log.debug(`Starting backup process for file: ${filePath}`);
@@ -34,8 +35,8 @@ export const safeWriteFileTool = tool(
       fs.writeFileSync(targetPath, content, "utf-8");
       const action = exists ? "modified" : "created";
       log.sys(`File ${action} on REAL DISK: ${filePath}`);
-      const indexer = new IndexerService();
-      indexer.indexProject().catch((err) => log.error(`Failed to re-index after write for ${filePath}: ${err.message}`));
+      // Only this file is re-indexed, once the writes of the turn settle
+      IndexCoordinator.getInstance().enqueue([filePath]);
       return `✅ SUCCESS: File ${action} at ${filePath}. [METADATA: {"path": "${filePath}", "action": "${action}"}]`;
     } catch (error: any) {
       log.error(`Failed to write file ${filePath}: ${error.message}`);
@@ -52,6 +53,56 @@ export const safeWriteFileTool = tool(
   },
 );
 
+export const safeEditFileTool = tool(
+  async ({ filePath, edits, diff }) => {
+    log.debug(`safe_edit_file called with filePath: ${filePath}`);
+    try {
+      const rootDir = process.cwd();
+      const targetPath = path.resolve(rootDir, filePath);
+      if (!targetPath.startsWith(rootDir)) return "❌ Error: Access denied. Cannot write outside the project root.";
+      if (!fs.existsSync(targetPath)) return `❌ File not found: ${filePath}. Use 'safe_write_file' to create it.`;
+      const hasEdits = !!edits && edits.length > 0;
+      if (hasEdits === !!diff?.trim()) return "❌ Error: Pass either 'edits' (search/replace blocks) or 'diff' (unified diff).";
+
+      // Every anchor is validated before anything is written: a failing edit leaves the file untouched
+      const original = fs.readFileSync(targetPath, "utf-8");
+      const result = hasEdits ? applySearchReplace(original, edits!) : applyUnifiedDiff(original, diff!);
+
+      createBackup(filePath);
+      const tmpPath = `${targetPath}.agent-tmp`;
+      fs.writeFileSync(tmpPath, result.content, "utf-8");
+      fs.renameSync(tmpPath, targetPath);
+      log.sys(`File patched on REAL DISK: ${filePath} (${result.edits} edits)`);
+      // Only this file is re-indexed, once the writes of the turn settle
+      IndexCoordinator.getInstance().enqueue([filePath]);
+      return `✅ SUCCESS: ${result.edits} edit(s) applied to ${filePath}. [METADATA: {"path": "${filePath}", "action": "modified"}]\n\`\`\`diff\n${result.hunks}\n\`\`\``;
+    } catch (error: any) {
+      log.error(`Failed to edit file ${filePath}: ${error.message}`);
+      return `❌ Error editing file (nothing was written): ${error.message}`;
+    }
+  },
+  {
+    name: "safe_edit_file",
+    description: "EDITS an existing file on the REAL local disk without resending it: applies search/replace blocks or a unified diff, all or nothing. Every anchor must match exactly once. Returns the resulting diff hunks. Prefer it over 'safe_write_file' to change existing files.",
+    schema: z.object({
+      filePath: z.string().describe("Relative path (e.g., src/app.service.ts)"),
+      edits: z
+        .array(
+          z.object({
+            search: z.string().describe("Exact text to replace, copied from the file (indentation included). Must occur exactly once: add surrounding lines to make it unique."),
+            replace: z.string().describe("Text to put instead (empty to delete)."),
+          }),
+        )
+        .optional()
+        .describe("Search/replace blocks, located in the original file (their order does not matter)."),
+      diff: z
+        .string()
+        .optional()
+        .describe("Alternative to 'edits': a unified diff of this file ('@@' hunks with ' ', '-' and '+' lines). Hunks are located by their content, not their line numbers."),
+    }),
+  },
+);
+
 export const safeReadFileTool = tool(
   async ({ filePath }) => {
     log.debug(`safe_read_file called with filePath: ${filePath}`);
@@ -80,6 +131,7 @@ export const deleteFileTool = tool(
     const fullPath = path.resolve(process.cwd(), filePath);
     if (!fs.existsSync(fullPath)) return `❌ ERROR: File ${filePath} does not exist.`;
     fs.unlinkSync(fullPath);
+    IndexCoordinator.getInstance().enqueue([filePath]);
     log.tool(`🗑️ File deleted: ${filePath}`);
     return `✅ SUCCESS: File ${filePath} has been deleted.`;
   },
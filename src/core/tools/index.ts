@@ -3,6 +3,7 @@
 
 export * from "./file-tools";
 export * from "./analysis-tools";
+export * from "./navigation-tools";
 export * from "./rag-tools";
 export * from "./testing-tools";
 export * from "./system-tools";
@@ -0,0 +1,86 @@
+import { tool } from "@langchain/core/tools";
+import { z } from "zod";
+import { SymbolLocation, SymbolNavigator } from "./ast/symbol-navigator";
+import { log } from "./utils/logger";
+
+// Keeps the answer readable for symbols used everywhere (e.g. a base entity)
+const MAX_LISTED_LOCATIONS = 50;
+
+const formatLocations = (locations: SymbolLocation[]): string => {
+  let output = "";
+  locations.slice(0, MAX_LISTED_LOCATIONS).forEach((l) => {
+    const lines = l.startLine === l.endLine ? `${l.startLine}` : `${l.startLine}-${l.endLine}`;
+    output += `- ${l.filePath}:${lines}  ${l.preview}\n`;
+  });
+  if (locations.length > MAX_LISTED_LOCATIONS) output += `- (...and ${locations.length - MAX_LISTED_LOCATIONS} more)\n`;
+  return output;
+};
+
+const symbolSchema = z.string().describe("'Name' (class, interface, function, enum, type, const) or 'Class.member' (e.g. 'UsersService.findOne').");
+
+export const findReferencesTool = tool(
+  async ({ symbol, filePath }) => {
+    log.debug(`find_references called for: ${symbol}${filePath ? ` (${filePath})` : ""}`);
+    try {
+      const references = SymbolNavigator.getInstance().findReferences(symbol, filePath);
+      if (references.length === 0) return `ℹ️ No references to ${symbol} found. Check the spelling or pass the 'filePath' that declares it.`;
+      return `📍 REFERENCES TO ${symbol} (${references.length}):\n\n${formatLocations(references)}`;
+    } catch (error: any) {
+      log.error(`Failed to find references: ${error.message}`);
+      return `❌ Error finding references: ${error.message}`;
+    }
+  },
+  {
+    name: "find_references",
+    description: "Finds every usage of a symbol across the project with the TypeScript compiler (type-aware: follows imports, aliases and re-exports, ignores homonyms). Returns file:line ranges. Prefer it to ask_codebase when renaming or changing the signature of a class, method or function.",
+    schema: z.object({
+      symbol: symbolSchema,
+      filePath: z.string().optional().describe("File declaring the symbol, to disambiguate homonyms."),
+    }),
+  },
+);
+
+export const goToDefinitionTool = tool(
+  async ({ symbol, filePath, line }) => {
+    log.debug(`go_to_definition called for: ${symbol}${filePath ? ` (${filePath}${line ? `:${line}` : ""})` : ""}`);
+    try {
+      const definitions = SymbolNavigator.getInstance().goToDefinition(symbol, filePath, line);
+      if (definitions.length === 0) return `ℹ️ No project definition found for ${symbol} (it may come from an external package).`;
+      return `🎯 DEFINITION OF ${symbol}:\n\n${formatLocations(definitions)}`;
+    } catch (error: any) {
+      log.error(`Failed to go to definition: ${error.message}`);
+      return `❌ Error resolving definition: ${error.message}`;
+    }
+  },
+  {
+    name: "go_to_definition",
+    description: "Jumps to the declaration of a symbol and returns its file and line range. Pass 'filePath' + 'line' of a USAGE to resolve exactly what that usage points to (through imports and aliases); otherwise the symbol is searched by name.",
+    schema: z.object({
+      symbol: symbolSchema,
+      filePath: z.string().optional().describe("File where the symbol is used (with 'line') or declared."),
+      line: z.number().int().positive().optional().describe("Line of the usage inside 'filePath'."),
+    }),
+  },
+);
+
+export const findImplementationsTool = tool(
+  async ({ symbol, filePath }) => {
+    log.debug(`find_implementations called for: ${symbol}`);
+    try {
+      const implementations = SymbolNavigator.getInstance().findImplementations(symbol, filePath);
+      if (implementations.length === 0) return `ℹ️ No implementations of ${symbol} found in the project.`;
+      return `🧬 IMPLEMENTATIONS OF ${symbol} (${implementations.length}):\n\n${formatLocations(implementations)}`;
+    } catch (error: any) {
+      log.error(`Failed to find implementations: ${error.message}`);
+      return `❌ Error finding implementations: ${error.message}`;
+    }
+  },
+  {
+    name: "find_implementations",
+    description: "Lists the classes implementing an interface, extending an abstract class, or overriding a method (e.g. 'PaymentGateway' or 'PaymentGateway.charge'), with file and line ranges. Use it before changing a contract to update every implementation.",
+    schema: z.object({
+      symbol: symbolSchema,
+      filePath: z.string().optional().describe("File declaring the interface/class, to disambiguate homonyms."),
+    }),
+  },
+);
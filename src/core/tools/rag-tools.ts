@@ -1,16 +1,23 @@
 import { tool } from "@langchain/core/tools";
 import { z } from "zod";
-import { RetrieverService } from "../rag/retriever";
-import { IndexerService } from "../rag/indexer";
+import { CONTENT_KINDS, ContentKind, RetrieverService } from "../rag/retriever";
+import { IndexCoordinator, IndexStatus } from "../rag/index-coordinator";
+import { AGENT_CONFIG_FILE, loadAgentConfig } from "../config/agent-config";
 import { log } from "./utils/logger";
 
+const CONTENT_KIND_NAMES = Object.keys(CONTENT_KINDS) as [ContentKind, ...ContentKind[]];
+
 export const askCodebaseTool = tool(
-  async ({ query }) => {
-    log.debug(`ask_codebase called with query: "${query}"`);
+  async ({ query, mode, include, exclude }) => {
+    log.debug(`ask_codebase called with query: "${query}" [${mode}]`);
     try {
       log.tool(`Querying codebase: "${query}"`);
       const retriever = new RetrieverService();
-      const context = await retriever.getContextForLLM(query);
+      const context = await retriever.getContextForLLM(query, mode, { include, exclude });
+      const { running, pending } = IndexCoordinator.getInstance().getStatus();
+      if (running || pending.length > 0) {
+        return `⚠️ The index is catching up (${running ? `${running.kind} run in progress, ` : ""}${pending.length} files queued): recent edits may be missing. Use 'index_status' to follow it.\n\n${context}`;
+      }
       return context;
     } catch (error: any) {
       log.error(`Error during codebase query "${query}": ${error.message}`);
@@ -19,8 +26,23 @@ export const askCodebaseTool = tool(
   },
   {
     name: "ask_codebase",
-    description: "Semantic search AND dependency graph lookup. Returns code snippets and dependency maps.",
-    schema: z.object({ query: z.string().describe("Query describing logic or functionality.") }),
+    description: "Semantic + keyword search AND dependency graph lookup over the code, tests, docs (README, ADRs), the Prisma schema and config files (JSON/YAML, .env.example). Returns snippets and dependency maps. Use mode 'lexical' for exact identifiers or error strings, and include/exclude to narrow the kind of content.",
+    schema: z.object({
+      query: z.string().describe("Query describing logic or functionality, or an exact identifier."),
+      mode: z
+        .enum(["hybrid", "semantic", "lexical"])
+        .optional()
+        .default("hybrid")
+        .describe("hybrid (default): keywords + meaning; semantic: meaning only; lexical: exact words/identifiers only."),
+      include: z
+        .array(z.enum(CONTENT_KIND_NAMES))
+        .optional()
+        .describe("Only search these kinds of content (default: all). e.g. ['docs'] for design decisions, ['prisma'] for the data model."),
+      exclude: z
+        .array(z.enum(CONTENT_KIND_NAMES))
+        .optional()
+        .describe("Kinds of content to leave out, e.g. ['tests', 'config']."),
+    }),
   },
 );
 
@@ -28,10 +50,10 @@ export const refreshIndexTool = tool(
   async () => {
     log.sys("🔄 Starting full project re-indexing...");
     try {
-      const indexer = new IndexerService();
-      await indexer.indexProject();
+      const { roots } = loadAgentConfig().index;
+      const { indexed, removed } = await IndexCoordinator.getInstance().indexAll();
       log.sys("✅ Re-indexing completed successfully.");
-      return "✅ Index successfully updated.";
+      return `✅ Index successfully updated: ${indexed} files re-indexed, ${removed} removed (roots: ${roots.join(", ")}; scope from ${AGENT_CONFIG_FILE}).`;
     } catch (error: any) {
       log.error(`❌ Indexing failed: ${error.message}`);
       return `❌ Critical error while attempting to index the project: ${error.message}`;
@@ -39,7 +61,54 @@ export const refreshIndexTool = tool(
   },
   {
     name: "refresh_project_index",
-    description: "Triggers a forced, full re-indexing of the project codebase.",
+    description: "Re-indexes the project codebase (changed files only) using the configured index scope (roots, include/exclude globs, .gitignore).",
+    schema: z.object({}),
+  },
+);
+
+/**
+ * Renders the indexing status for the agent and the CLI.
+ */
+export const formatIndexStatus = (status: IndexStatus): string => {
+  let output = "";
+  if (status.running) {
+    const { kind, pid, startedAt, paths, progress } = status.running;
+    const label = kind === "full" ? "full scan" : kind === "import" ? "snapshot import" : `${paths?.length ?? 0} changed files`;
+    output += `⏳ Indexing in progress: ${label} (process ${pid}, since ${startedAt})`;
+    if (progress) output += ` - ${progress.phase} ${progress.processed}/${progress.total}`;
+    output += "\n";
+  } else {
+    output += "✅ No indexing run in progress.\n";
+  }
+
+  if (status.pending.length > 0) {
+    output += `📥 Queued for re-indexing (${status.pending.length}):\n`;
+    status.pending.slice(0, 20).forEach((p) => (output += `- ${p}\n`));
+    if (status.pending.length > 20) output += `- (...and ${status.pending.length - 20} more)\n`;
+  }
+
+  if (status.lastRun) {
+    const { kind, finishedAt, indexed, removed, error } = status.lastRun;
+    output += error
+      ? `❌ Last ${kind} run failed at ${finishedAt}: ${error}\n`
+      : `🕒 Last ${kind} run finished at ${finishedAt}: ${indexed} files indexed, ${removed} removed.\n`;
+  }
+  return output;
+};
+
+export const indexStatusTool = tool(
+  async () => {
+    log.debug("index_status called");
+    try {
+      return formatIndexStatus(IndexCoordinator.getInstance().getStatus());
+    } catch (error: any) {
+      log.error(`Failed to read the index status: ${error.message}`);
+      return `❌ Error reading the index status: ${error.message}`;
+    }
+  },
+  {
+    name: "index_status",
+    description: "Shows whether the code index is up to date: the indexing run in progress (with its progress), the files written but not re-indexed yet, and the last run. Check it when ask_codebase warns that the index is catching up.",
     schema: z.object({}),
   },
 );
@@ -4,6 +4,9 @@ import { exec } from "child_process";
 import { promisify } from "util";
 import * as fs from "fs";
 import * as path from "path";
+import { AgentDB } from "../state/db";
+import { FileRegistry } from "../state/file-registry";
+import { conventionalSubjectOf, isSpecFile } from "./ast/spec-files";
 import { log } from "./utils/logger";
 
 const execAsync = promisify(exec);
@@ -55,3 +58,53 @@ export const integrityCheckTool = tool(
     schema: z.object({}),
   },
 );
+
+// Declarations and wiring that are covered through the code using them, not by a dedicated spec
+const NOT_UNIT_TESTED = /(\.(dto|entity|interface|enum|type|module)\.ts|\.d\.ts|(^|\/)(index|main)\.ts)$/;
+
+export const findTestsForTool = tool(
+  async ({ filePath, pathPrefix }) => {
+    log.debug(`find_tests_for called: ${filePath ?? `untested under ${pathPrefix ?? "/"}`}`);
+    try {
+      const db = AgentDB.getInstance();
+
+      if (filePath) {
+        const normalizedPath = filePath.split(path.sep).join("/");
+        const specs = db
+          .prepare("SELECT source FROM dependency_graph WHERE target = ? AND relation = 'tests' ORDER BY source")
+          .all(normalizedPath) as { source: string }[];
+        if (specs.length === 0) return `ℹ️ No spec covers ${filePath}. Create '${normalizedPath.replace(/\.ts$/, ".spec.ts")}' next to it.`;
+        let output = `🧪 SPECS COVERING ${filePath}:\n\n`;
+        specs.forEach(({ source }) => output += `- ${source}${conventionalSubjectOf(source) === normalizedPath ? " (named after it: extend this one)" : " (imports it)"}\n`);
+        return `${output}\n[TIP: Read the spec before writing tests to reuse its mocks and setup.]`;
+      }
+
+      const tested = new Set(
+        (db.prepare("SELECT DISTINCT target FROM dependency_graph WHERE relation = 'tests'").all() as { target: string }[]).map((r) => r.target),
+      );
+      const prefix = pathPrefix?.split(path.sep).join("/");
+      const untested = new FileRegistry()
+        .getAllPaths()
+        .map((p) => p.split(path.sep).join("/"))
+        .filter((p) => p.endsWith(".ts") && !isSpecFile(p) && !NOT_UNIT_TESTED.test(p))
+        .filter((p) => !prefix || p.startsWith(prefix))
+        .filter((p) => !tested.has(p))
+        .sort();
+      if (untested.length === 0) return `✅ Every indexed source file${prefix ? ` under ${prefix}` : ""} is covered by at least one spec.`;
+      let output = `🧪 SOURCE FILES WITHOUT ANY SPEC (${untested.length}):\n\n`;
+      untested.forEach((p) => output += `- ${p}\n`);
+      return output;
+    } catch (error: any) {
+      log.error(`Failed to find tests: ${error.message}`);
+      return `❌ Error finding tests: ${error.message}`;
+    }
+  },
+  {
+    name: "find_tests_for",
+    description: "Finds existing tests. With 'filePath', lists the spec files covering that source file (named after it or importing it). Without 'filePath', lists the indexed source files that no spec covers (DTOs, entities, modules and barrels excluded), optionally under 'pathPrefix'. Use it BEFORE writing tests, to extend the existing spec instead of creating a second one.",
+    schema: z.object({
+      filePath: z.string().optional().describe("Relative path of the source file (e.g. 'src/users/users.service.ts')."),
+      pathPrefix: z.string().optional().describe("When listing untested files, only consider files under this folder (e.g. 'src/users')."),
+    }),
+  },
+);
@@ -1,6 +1,7 @@
 import { Tool } from "@langchain/core/tools";
 import { 
   safeWriteFileTool, 
+  safeEditFileTool, 
   safeReadFileTool, 
   askCodebaseTool, 
   integrityCheckTool, 
@@ -38,9 +39,21 @@ jest.mock("../rag/indexer", () => ({
     indexProject: jest.fn().mockResolvedValue(undefined),
   })),
 }));
+const mockEnqueue = jest.fn();
+jest.mock("../rag/index-coordinator", () => ({
+  IndexCoordinator: {
+    getInstance: () => ({
+      enqueue: mockEnqueue,
+      indexAll: jest.fn().mockResolvedValue({ indexed: 0, removed: 0 }),
+      getStatus: jest.fn().mockReturnValue({ running: null, pending: [], lastRun: null }),
+    }),
+  },
+}));
+const mockGetContext = jest.fn().mockResolvedValue("Mocked context");
 jest.mock("../rag/retriever", () => ({
+  ...jest.requireActual("../rag/retriever"),
   RetrieverService: jest.fn().mockImplementation(() => ({
-    getContextForLLM: jest.fn().mockResolvedValue("Mocked context"),
+    getContextForLLM: mockGetContext,
   })),
 }));
 
@@ -65,6 +78,7 @@ describe("Tools Unit Tests", () => {
       const res = await safeWriteFileTool.invoke({ filePath, content: "data" });
       expect(res).toContain('METADATA: {"path": "test.ts", "action": "modified"}');
       expect(mockFs.writeFileSync).toHaveBeenCalledWith(fullPath, "data", "utf-8");
+      expect(mockEnqueue).toHaveBeenCalledWith(["test.ts"]);
     });
 
     it("should return 'created' metadata if file didn't exist", async () => {
@@ -87,6 +101,47 @@ describe("Tools Unit Tests", () => {
     });
   });
 
+  describe("safeEditFileTool", () => {
+    const filePath = "src/users.service.ts";
+    const fullPath = path.resolve(rootDir, filePath);
+
+    beforeEach(() => {
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue("export class UsersService {\n  findAll() {\n    return [];\n  }\n}\n");
+    });
+
+    it("should back up, patch atomically and re-index only the file", async () => {
+      const res = await safeEditFileTool.invoke({
+        filePath,
+        edits: [{ search: "    return [];", replace: "    return this.repo.find();" }],
+      });
+
+      expect(res).toContain("✅ SUCCESS: 1 edit(s) applied to src/users.service.ts.");
+      expect(res).toContain("-    return [];\n+    return this.repo.find();");
+      expect(mockFs.copyFileSync).toHaveBeenCalled();
+      expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+        `${fullPath}.agent-tmp`,
+        "export class UsersService {\n  findAll() {\n    return this.repo.find();\n  }\n}\n",
+        "utf-8",
+      );
+      expect(mockFs.renameSync).toHaveBeenCalledWith(`${fullPath}.agent-tmp`, fullPath);
+      expect(mockEnqueue).toHaveBeenCalledWith([filePath]);
+    });
+
+    it("should write nothing when an anchor does not match", async () => {
+      const res = await safeEditFileTool.invoke({ filePath, diff: "@@ -1 +1 @@\n-  remove() {}\n+  delete() {}" });
+
+      expect(res).toContain("❌ Error editing file (nothing was written): Hunk #1: search text not found");
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+      expect(mockEnqueue).not.toHaveBeenCalled();
+    });
+
+    it("should require either edits or a diff", async () => {
+      const res = await safeEditFileTool.invoke({ filePath });
+      expect(res).toContain("Pass either 'edits' (search/replace blocks) or 'diff'");
+    });
+  });
+
   describe("deleteFileTool", () => {
     it("should delete existing file", async () => {
       mockFs.existsSync.mockReturnValue(true);
@@ -138,6 +193,14 @@ describe("Tools Unit Tests", () => {
       const res = await askCodebaseTool.invoke({ query: "what is X" });
       expect(res).toBe("Mocked context");
     });
+
+    it("should pass the content kinds to include or exclude", async () => {
+      await askCodebaseTool.invoke({ query: "refund policy", include: ["docs", "prisma"], exclude: ["tests"] });
+      expect(mockGetContext).toHaveBeenLastCalledWith("refund policy", "hybrid", {
+        include: ["docs", "prisma"],
+        exclude: ["tests"],
+      });
+    });
   });
 
   describe("integrityCheckTool", () => {
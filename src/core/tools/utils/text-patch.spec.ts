@@ -0,0 +1,93 @@
+import { applySearchReplace, applyUnifiedDiff } from "./text-patch";
+
+describe("text-patch", () => {
+  const service = [
+    "export class PaymentsService {",
+    "  /** Captures a payment. */",
+    "  capture(id: string) {",
+    "    return this.gateway.capture(id);",
+    "  }",
+    "",
+    "  /** Refunds a payment. */",
+    "  refund(id: string) {",
+    "    return this.gateway.refund(id);",
+    "  }",
+    "}",
+    "",
+  ].join("\n");
+
+  describe("applySearchReplace", () => {
+    it("should apply every block and return the resulting hunks", () => {
+      const result = applySearchReplace(service, [
+        { search: "return this.gateway.refund(id);", replace: "return this.gateway.refund(id, { reason });" },
+        { search: "  capture(id: string) {", replace: "  capture(id: string, amount?: number) {" },
+      ]);
+
+      expect(result.edits).toBe(2);
+      expect(result.content).toContain("  capture(id: string, amount?: number) {");
+      expect(result.content).toContain("  /** Refunds a payment. */");
+      expect(result.hunks.split("\n").slice(0, 7)).toEqual([
+        "@@ -1,6 +1,6 @@",
+        " export class PaymentsService {",
+        "   /** Captures a payment. */",
+        "-  capture(id: string) {",
+        "+  capture(id: string, amount?: number) {",
+        "     return this.gateway.capture(id);",
+        "   }",
+      ]);
+      expect(result.hunks).toContain("@@ -6,6 +6,6 @@");
+    });
+
+    it("should reject missing or ambiguous anchors without applying anything", () => {
+      expect(() => applySearchReplace(service, [{ search: "remove(id)", replace: "" }])).toThrow(
+        'Edit #1: search text not found (starting with "remove(id)")',
+      );
+      expect(() => applySearchReplace(service, [{ search: "(id: string) {", replace: "(id: number) {" }])).toThrow(
+        "Edit #1: search text found 2 times (lines 3, 8)",
+      );
+      expect(() =>
+        applySearchReplace(service, [
+          { search: "capture(id: string)", replace: "charge(id: string)" },
+          { search: "{\n    return this.gateway.capture(id);", replace: "{\n    return null;" },
+        ]),
+      ).toThrow("Edit #1 and Edit #2 touch the same lines");
+    });
+
+    it("should keep the line endings of the file", () => {
+      const result = applySearchReplace(service.replace(/\n/g, "\r\n"), [
+        { search: "  refund(id: string) {\n", replace: "  refund(id: string) {\n    this.audit(id);\n" },
+      ]);
+      expect(result.content).toContain("  refund(id: string) {\r\n    this.audit(id);\r\n    return");
+      expect(result.content).not.toMatch(/[^\r]\n/);
+    });
+  });
+
+  describe("applyUnifiedDiff", () => {
+    it("should locate hunks by content, whatever their line numbers", () => {
+      const diff = [
+        "--- a/src/payments/payments.service.ts",
+        "+++ b/src/payments/payments.service.ts",
+        "@@ -40,4 +40,5 @@",
+        "   /** Refunds a payment. */",
+        "   refund(id: string) {",
+        "+    this.audit(id);",
+        "     return this.gateway.refund(id);",
+        "@@ -99,2 +100,1 @@",
+        "-  /** Captures a payment. */",
+        "   capture(id: string) {",
+      ].join("\n");
+
+      const result = applyUnifiedDiff(service, diff);
+
+      expect(result.content).not.toContain("Captures a payment");
+      expect(result.content).toContain("  refund(id: string) {\n    this.audit(id);\n    return this.gateway.refund(id);");
+      expect(result.hunks).toContain("@@ -1,5 +1,4 @@\n export class PaymentsService {\n-  /** Captures a payment. */");
+      expect(result.hunks).toContain("+    this.audit(id);");
+    });
+
+    it("should only match whole lines", () => {
+      const diff = ["@@ -1 +1 @@", "-gateway.refund(id);", "+gateway.refund(id, reason);"].join("\n");
+      expect(() => applyUnifiedDiff(service, diff)).toThrow("Hunk #1: search text not found");
+    });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * A search/replace block: `search` must occur exactly once in the file.
+ */
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+/**
+ * A patched file, ready to be written.
+ */
+export interface PatchResult {
+  content: string;
+  edits: number;
+  hunks: string; // Unified diff hunks of the applied changes
+}
+
+/**
+ * Unchanged lines shown around each change in the returned hunks.
+ */
+export const HUNK_CONTEXT_LINES = 3;
+
+interface LocatedEdit extends SearchReplaceEdit {
+  label: string; // 'Edit #2' | 'Hunk #2'
+  at: number; // Offset of the match
+  blockStart: number; // Start of the first affected line
+  blockEnd: number; // End of the last affected line (after its line break)
+}
+
+/**
+ * Applies search/replace blocks to a file content. Every block is located in the original
+ * content, so blocks are independent of each other and their order does not matter.
+ * @throws Error (and applies nothing) if a search text is missing, ambiguous, or two blocks
+ * touch the same lines.
+ */
+export function applySearchReplace(content: string, edits: SearchReplaceEdit[]): PatchResult {
+  return applyEdits(content, edits, "Edit", false);
+}
+
+/**
+ * Applies a unified diff of a single file. Hunks are located by their context and removed
+ * lines, which must match whole lines exactly once: the line numbers of the `@@` headers are
+ * ignored, so a diff written against a slightly outdated view of the file still applies.
+ * @throws Error (and applies nothing) if the diff is malformed or a hunk does not match exactly once.
+ */
+export function applyUnifiedDiff(content: string, diff: string): PatchResult {
+  return applyEdits(content, parseUnifiedDiff(diff), "Hunk", true);
+}
+
+/**
+ * Turns the hunks of a unified diff into whole-line search/replace blocks.
+ * `diff --git`, `index`, `---` and `+++` headers are optional.
+ * @throws Error if the diff has no hunk, a line without a valid prefix, or several files.
+ */
+export function parseUnifiedDiff(diff: string): SearchReplaceEdit[] {
+  const hunks: { before: string[]; after: string[] }[] = [];
+  let current: { before: string[]; after: string[] } | null = null;
+
+  const lines = diff.replace(/\r\n/g, "\n").replace(/\n+$/, "").split("\n");
+  lines.forEach((line, i) => {
+    if (line.startsWith("@@")) {
+      current = { before: [], after: [] };
+      hunks.push(current);
+    } else if (!current) {
+      return; // File headers
+    } else if (line.startsWith("diff --git") || (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ "))) {
+      throw new Error("The diff touches several files: send one diff per file.");
+    } else if (line.startsWith("\\")) {
+      return; // '\ No newline at end of file'
+    } else if (line === "" || line.startsWith(" ")) {
+      // Some editors strip the space prefix of blank context lines
+      current.before.push(line.slice(1));
+      current.after.push(line.slice(1));
+    } else if (line.startsWith("-")) {
+      current.before.push(line.slice(1));
+    } else if (line.startsWith("+")) {
+      current.after.push(line.slice(1));
+    } else {
+      throw new Error(`Invalid diff line (expected ' ', '-' or '+'): "${line}"`);
+    }
+  });
+
+  if (hunks.length === 0) throw new Error("The diff has no hunk ('@@ ... @@' header).");
+  return hunks.map(({ before, after }) =>
+    after.length === 0
+      ? // Whole lines deleted: their line breaks go too
+        { search: `${before.join("\n")}\n`, replace: "" }
+      : { search: before.join("\n"), replace: after.join("\n") },
+  );
+}
+
+// ==========================================
+// ⚙️ INTERNAL LOGIC
+// ==========================================
+
+function applyEdits(
+  content: string,
+  edits: SearchReplaceEdit[],
+  kind: "Edit" | "Hunk",
+  wholeLines: boolean,
+): PatchResult {
+  if (edits.length === 0) throw new Error("No edit to apply.");
+
+  // Matching ignores the line endings of the file, which are restored on output
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const text = content.replace(/\r\n/g, "\n");
+
+  const located = edits
+    .map((edit, i) =>
+      locate(text, { search: edit.search.replace(/\r\n/g, "\n"), replace: edit.replace.replace(/\r\n/g, "\n") }, `${kind} #${i + 1}`, wholeLines),
+    )
+    .sort((a, b) => a.at - b.at);
+
+  for (let i = 1; i < located.length; i++) {
+    if (located[i].blockStart < located[i - 1].blockEnd) {
+      throw new Error(`${located[i - 1].label} and ${located[i].label} touch the same lines: merge them into one.`);
+    }
+  }
+
+  let patched = "";
+  let cursor = 0;
+  for (const edit of located) {
+    patched += text.slice(cursor, edit.at) + edit.replace;
+    cursor = edit.at + edit.search.length;
+  }
+  patched += text.slice(cursor);
+
+  return {
+    content: eol === "\n" ? patched : patched.replace(/\n/g, eol),
+    edits: located.length,
+    hunks: renderHunks(text, located),
+  };
+}
+
+/**
+ * Finds the single occurrence of an edit, with the lines it affects.
+ */
+function locate(text: string, edit: SearchReplaceEdit, label: string, wholeLines: boolean): LocatedEdit {
+  if (!edit.search) throw new Error(`${label}: the search text is empty. Include the lines to anchor the change.`);
+  if (edit.search === edit.replace) throw new Error(`${label}: the replacement is identical to the search text.`);
+
+  const matches: number[] = [];
+  for (let at = text.indexOf(edit.search); at !== -1; at = text.indexOf(edit.search, at + 1)) {
+    if (!wholeLines || isLineAligned(text, at, edit.search)) matches.push(at);
+  }
+
+  if (matches.length === 0) {
+    const firstLine = edit.search.split("\n").find((line) => line.trim()) ?? edit.search;
+    throw new Error(
+      `${label}: search text not found (starting with "${firstLine.trim()}"). ` +
+        "Copy it exactly from the file, indentation included, or re-read the file if it changed.",
+    );
+  }
+  if (matches.length > 1) {
+    const lines = matches.map((at) => lineNumberAt(text, at)).join(", ");
+    throw new Error(`${label}: search text found ${matches.length} times (lines ${lines}). Add surrounding lines to make it unique.`);
+  }
+
+  const at = matches[0];
+  const end = at + edit.search.length;
+  const lastChar = Math.max(at, end - 1);
+  const lineBreak = text.indexOf("\n", lastChar);
+  return {
+    ...edit,
+    label,
+    at,
+    blockStart: text.lastIndexOf("\n", at - 1) + 1,
+    blockEnd: lineBreak === -1 ? text.length : lineBreak + 1,
+  };
+}
+
+function isLineAligned(text: string, at: number, search: string): boolean {
+  const end = at + search.length;
+  const startsLine = at === 0 || text[at - 1] === "\n";
+  const endsLine = search.endsWith("\n") || end === text.length || text[end] === "\n";
+  return startsLine && endsLine;
+}
+
+/**
+ * Renders the located edits as unified diff hunks, with their new line numbers.
+ */
+function renderHunks(text: string, edits: LocatedEdit[]): string {
+  const lines = toLines(text);
+  let offset = 0; // Lines added minus lines removed by the previous edits
+
+  return edits
+    .map((edit) => {
+      const before = toLines(text.slice(edit.blockStart, edit.blockEnd));
+      const after = toLines(
+        text.slice(edit.blockStart, edit.at) + edit.replace + text.slice(edit.at + edit.search.length, edit.blockEnd),
+      );
+      // Lines the edit repeats unchanged (e.g. the context of a diff hunk) are shown as context
+      let same = 0;
+      while (same < before.length && same < after.length && before[same] === after[same]) same++;
+      let sameEnd = 0;
+      while (
+        sameEnd < before.length - same &&
+        sameEnd < after.length - same &&
+        before[before.length - 1 - sameEnd] === after[after.length - 1 - sameEnd]
+      ) {
+        sameEnd++;
+      }
+      const removed = before.slice(same, before.length - sameEnd);
+      const added = after.slice(same, after.length - sameEnd);
+
+      const changeLine = lineNumberAt(text, edit.blockStart) - 1 + same; // 0-based
+      const leading = lines.slice(Math.max(0, changeLine - HUNK_CONTEXT_LINES), changeLine);
+      const trailing = lines.slice(changeLine + removed.length, changeLine + removed.length + HUNK_CONTEXT_LINES);
+
+      const oldStart = changeLine + 1 - leading.length;
+      const header = `@@ -${oldStart},${leading.length + removed.length + trailing.length} +${oldStart + offset},${leading.length + added.length + trailing.length} @@`;
+      offset += added.length - removed.length;
+
+      return [
+        header,
+        ...leading.map((line) => ` ${line}`),
+        ...removed.map((line) => `-${line}`),
+        ...added.map((line) => `+${line}`),
+        ...trailing.map((line) => ` ${line}`),
+      ].join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * Lines of a text, without the empty one after a final line break.
+ */
+function toLines(text: string): string[] {
+  return text === "" ? [] : text.replace(/\n$/, "").split("\n");
+}
+
+function lineNumberAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = text.indexOf("\n"); i !== -1 && i < offset; i = text.indexOf("\n", i + 1)) line++;
+  return line;
+}
@@ -3,20 +3,51 @@
  * - 'import': Standard ES6 import.
  * - 'extends': Class inheritance.
  * - 'implements': Interface implementation.
+ * - 'injects': Constructor/property injection (typed params, `@Inject(TOKEN)`, `@InjectRepository(Entity)`).
+ * - 'tests': From a spec file to the source file(s) it covers.
  */
 export type DependencyRelation =
   | 'import'
   | 'extends'
   | 'implements'
-  | 'injects';
+  | 'injects'
+  | 'tests';
 
 /**
  * Represents the granularity of a code chunk.
  * - 'file': The whole file (e.g., DTOs, Entities).
  * - 'method': A specific function inside a class (e.g., Service methods).
  * - 'class_signature': The class definition line + properties (Parent context).
+ * - 'config': A whole `@Module` class (DI wiring: imports, providers, exports).
+ * - 'function': A top-level function or arrow function (helpers, factories, `bootstrap`).
+ * - 'declaration': A top-level interface, type alias, enum or variable.
+ * - 'test': A top-level `describe` block of a spec file (setup, mocks and cases).
+ * - 'doc_section': A Markdown section, from one heading to the next (README, ADRs, docs).
+ * - 'prisma_model': A block of a Prisma schema (model, view, type, enum, datasource, generator).
+ * - 'config_entry': A top-level key of a JSON/YAML file, or a group of variables of a `.env.example`.
  */
-export type ChunkType = 'file' | 'method' | 'class_signature' | 'config';
+export type ChunkType =
+  | 'file'
+  | 'method'
+  | 'class_signature'
+  | 'config'
+  | 'function'
+  | 'declaration'
+  | 'test'
+  | 'doc_section'
+  | 'prisma_model'
+  | 'config_entry';
+
+/**
+ * The kind of top-level declaration held by a 'function' or 'declaration' chunk.
+ */
+export type DeclarationKind =
+  | 'function'
+  | 'arrow_function'
+  | 'interface'
+  | 'type_alias'
+  | 'enum'
+  | 'variable';
 
 /**
  * Structure of a row in the Dependency Graph table.
@@ -33,16 +64,24 @@ export interface GraphEdge {
 export interface ChunkMetadata {
   startLine: number;
   endLine: number;
-  decorators?: string[];
+  decorators?: string[]; // As written, on one line (e.g. "@Post(':id/refund')")
   className?: string;
+  classDecorators?: string[]; // Methods: the decorators of their class (e.g. "@Controller('payments')")
+  injects?: string[]; // Classes and methods: constructor-injected types/tokens of the class
+  summary?: string; // First paragraph of the JSDoc
   methodName?: string;
+  symbolName?: string; // Top-level declarations: function/interface/type/enum/variable name; specs: describe title;
+  // documents: heading, Prisma block name or config key path (e.g. 'compilerOptions.paths')
+  outline?: string; // Markdown sections: the headings above, e.g. 'Architecture > Payments'
+  symbolKind?: DeclarationKind;
+  httpRoute?: string; // Controller handlers only, e.g. 'POST /payments/:id/refund' (comma-separated if several)
 }
 
 /**
  * Represents a processed piece of code ready for storage.
  */
 export interface ProcessedChunk {
-  id: string; // UUID
+  id: string; // Content-derived hash (stable across re-indexes)
   filePath?: string;
   type: ChunkType; // 'file' | 'method' | 'class_signature'
   content: string; // The code text
@@ -50,6 +89,64 @@ export interface ProcessedChunk {
   parentId?: string; // If this is a method, who is the parent class chunk?
 }
 
+/**
+ * The sections of a `@Module({ ... })` declaration.
+ */
+export type ModuleMemberKind = 'import' | 'provider' | 'controller' | 'export';
+
+/**
+ * One entry of a `@Module` array (e.g. `UsersService`, `TypeOrmModule.forFeature([User])`,
+ * `{ provide: CACHE, useClass: RedisCache }`).
+ */
+export interface ModuleMemberRef {
+  name: string; // Class name or injection token
+  source?: string; // Defining graph node (relative file or 'npm:<package>')
+  call?: string; // 'forRoot' | 'forFeature' | 'useClass' | 'useValue' | 'useFactory' | 'useExisting'
+  args?: string[]; // Identifiers passed to the call (e.g. the entities of forFeature)
+}
+
+/**
+ * A NestJS module as declared by `@Module` (the DI topology of the app).
+ */
+export interface NestModuleDefinition {
+  name: string;
+  isGlobal: boolean; // Decorated with @Global()
+  imports: ModuleMemberRef[];
+  providers: ModuleMemberRef[];
+  controllers: ModuleMemberRef[];
+  exports: ModuleMemberRef[];
+}
+
+/**
+ * HTTP verbs exposed by the `@Get`/`@Post`/... route decorators.
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS' | 'HEAD' | 'ALL';
+
+/**
+ * A decorated handler parameter (`@Body() dto: CreatePaymentDto`, `@Param('id', ParseIntPipe) id: number`).
+ */
+export interface RouteParamDefinition {
+  decorator: string; // 'Body' | 'Param' | 'Query' | 'Headers' | custom (e.g. 'CurrentUser')
+  name?: string; // Property picked by the decorator ('id' in @Param('id'))
+  type?: string; // Declared TypeScript type (usually the DTO)
+  source?: string; // File defining the type
+  pipes?: string[]; // Parameter-scoped pipes
+}
+
+/**
+ * An HTTP endpoint declared by a controller handler.
+ */
+export interface HttpRouteDefinition {
+  method: HttpMethod;
+  path: string; // Full path: @Controller prefix + handler sub-path (e.g. '/payments/:id/refund')
+  controller: string;
+  handler: string;
+  guards: string[]; // Controller + handler @UseGuards
+  pipes: string[]; // Controller + handler @UsePipes
+  params: RouteParamDefinition[];
+  line: number;
+}
+
 /**
  * Full analysis result of a single file.
  */
@@ -58,5 +155,7 @@ export interface FileAnalysisResult {
   fileHash: string;
   chunks: ProcessedChunk[];
   dependencies: GraphEdge[];
-  skeleton: object | null; // The simplified structure for the registry
+  modules: NestModuleDefinition[]; // @Module declarations found in the file
+  routes: HttpRouteDefinition[]; // HTTP endpoints declared by @Controller classes
+  skeleton: string | null; // .d.ts-like signatures (see tools/ast/skeleton.ts), or a document outline, for the registry
 }
@@ -4,6 +4,16 @@ export * from "./ai-agent.module";
 // Exportamos la Factory y los tipos por si alguien quiere uso manual
 export * from "./core/agent/factory";
 export * from "./core/llm/provider";
+export * from "./core/llm/registry";
+export * from "./core/llm/local-embeddings";
+export * from "./core/llm/cassette";
+export * from "./core/config/agent-config";
+export * from "./core/rag/evaluation";
+export * from "./core/rag/index-coordinator";
+export * from "./core/rag/index-watcher";
+export * from "./core/rag/index-snapshot";
+export * from "./core/tools/ast/file-chunker";
+export * from "./core/tools/ast/chunker-registry";
 
 // Exportamos las herramientas por si el usuario quiere crear su propio agente
 export * from "./core/tools";